@@ -0,0 +1,229 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { TransportMode } from "./http.js";
+
+// --- Attachment configuration ---
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_INLINE_BYTES = 64 * 1024;
+const DEFAULT_MAX_DOWNLOAD_BYTES = 50 * 1024 * 1024;
+
+export interface AttachmentSettings {
+  maxUploadBytes: number;
+  maxInlineBytes: number;
+  // Largest attachment get_attachment saves; it is held in memory while downloading
+  maxDownloadBytes: number;
+  // Where get_attachment saves files (JIRA_ATTACHMENT_DIR)
+  downloadDir?: string;
+  // Local files can only be uploaded from below this directory (JIRA_ATTACHMENT_UPLOAD_DIR)
+  uploadDir?: string;
+}
+
+function positiveIntFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Read lazily so values from .env (loaded in start()) are picked up
+export function getAttachmentSettings(): AttachmentSettings {
+  return {
+    maxUploadBytes: positiveIntFromEnv(
+      "JIRA_ATTACHMENT_MAX_BYTES",
+      DEFAULT_MAX_UPLOAD_BYTES
+    ),
+    maxInlineBytes: positiveIntFromEnv(
+      "JIRA_ATTACHMENT_INLINE_MAX_BYTES",
+      DEFAULT_MAX_INLINE_BYTES
+    ),
+    maxDownloadBytes: positiveIntFromEnv(
+      "JIRA_ATTACHMENT_DOWNLOAD_MAX_BYTES",
+      DEFAULT_MAX_DOWNLOAD_BYTES
+    ),
+    downloadDir: process.env.JIRA_ATTACHMENT_DIR
+      ? path.resolve(process.env.JIRA_ATTACHMENT_DIR)
+      : undefined,
+    uploadDir: process.env.JIRA_ATTACHMENT_UPLOAD_DIR
+      ? path.resolve(process.env.JIRA_ATTACHMENT_UPLOAD_DIR)
+      : undefined,
+  };
+}
+
+// Over stdio the client runs on the same machine as its user, so uploads and downloads default to
+// the working directory. Over HTTP the files belong to the server, not the client: both stay off
+// unless the operator names a directory.
+export function downloadRoot(
+  settings: AttachmentSettings,
+  transport: TransportMode
+): string | undefined {
+  return (
+    settings.downloadDir ??
+    (transport === "stdio" ? path.resolve("jira-attachments") : undefined)
+  );
+}
+
+export function uploadRoot(
+  settings: AttachmentSettings,
+  transport: TransportMode
+): string | undefined {
+  return (
+    settings.uploadDir ?? (transport === "stdio" ? process.cwd() : undefined)
+  );
+}
+
+// --- MIME detection ---
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ".txt": "text/plain",
+  ".log": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".ts": "text/plain",
+  ".java": "text/plain",
+  ".py": "text/plain",
+  ".sh": "text/plain",
+  ".diff": "text/x-diff",
+  ".patch": "text/x-diff",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".tar": "application/x-tar",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+// Magic numbers win over the extension, so a screenshot saved as ".txt" is still reported as an image
+const SIGNATURES: { mimeType: string; bytes: number[] }[] = [
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+];
+
+export function detectMimeType(filename: string, content?: Buffer): string {
+  if (content) {
+    const signature = SIGNATURES.find(({ bytes }) =>
+      bytes.every((byte, index) => content[index] === byte)
+    );
+    if (signature) return signature.mimeType;
+  }
+  const byExtension = MIME_BY_EXTENSION[path.extname(filename).toLowerCase()];
+  if (byExtension) return byExtension;
+  if (content && looksLikeText(content)) return "text/plain";
+  return "application/octet-stream";
+}
+
+function looksLikeText(content: Buffer): boolean {
+  const sample = content.subarray(0, 4096);
+  return !sample.includes(0);
+}
+
+export function isTextMimeType(mimeType: string | undefined): boolean {
+  if (!mimeType) return false;
+  return (
+    mimeType.startsWith("text/") ||
+    /^application\/(json|xml|yaml|javascript|x-sh)/.test(mimeType) ||
+    mimeType.endsWith("+json") ||
+    mimeType.endsWith("+xml")
+  );
+}
+
+// --- Local file access ---
+export interface LocalFile {
+  filename: string;
+  path: string;
+  size: number;
+  mimeType: string;
+  content: Buffer;
+}
+
+// Read a file for upload. Relative paths start at the upload root, and the real path (symlinks
+// followed) must stay below it, so "../.env" or a link to ~/.ssh cannot be uploaded.
+export async function readLocalFile(
+  filePath: string,
+  maxBytes: number,
+  root: string
+): Promise<LocalFile> {
+  const realRoot = await fs.realpath(root).catch(() => {
+    throw new Error(`Upload directory not found: ${root}`);
+  });
+  const resolved = await fs
+    .realpath(path.resolve(realRoot, filePath))
+    .catch(() => undefined);
+  if (!resolved) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  const relative = path.relative(realRoot, resolved);
+  if (
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(
+      `File ${filePath} is outside the upload directory ${realRoot}.`
+    );
+  }
+  const stat = await fs.stat(resolved);
+  if (!stat.isFile()) {
+    throw new Error(`Not a regular file: ${resolved}`);
+  }
+  if (stat.size > maxBytes) {
+    throw new Error(
+      `File ${resolved} is ${stat.size} bytes, which exceeds the ${maxBytes} byte upload limit.`
+    );
+  }
+  const content = await fs.readFile(resolved);
+  const filename = path.basename(resolved);
+  return {
+    filename,
+    path: resolved,
+    size: stat.size,
+    mimeType: detectMimeType(filename, content),
+    content,
+  };
+}
+
+// Write a downloaded attachment below the download directory. The id is part of the file name,
+// so anything but digits is refused; jira.js does not encode it, and "10000?x=/../.." would still
+// download attachment 10000 while pointing the file elsewhere.
+export async function saveDownload(
+  downloadDir: string,
+  attachmentId: string,
+  filename: string,
+  content: Buffer
+): Promise<string> {
+  if (!/^\d+$/.test(attachmentId)) {
+    throw new Error(`Invalid attachment id: ${attachmentId}`);
+  }
+  const root = path.resolve(downloadDir);
+  const safeName = path.basename(filename).replace(/[^\w.\- ]+/g, "_");
+  const target = path.resolve(root, `${attachmentId}-${safeName}`);
+  if (path.dirname(target) !== root) {
+    throw new Error(
+      `Refusing to write ${target} outside the download directory ${root}.`
+    );
+  }
+  await fs.mkdir(root, { recursive: true });
+  await fs.writeFile(target, content);
+  return target;
+}
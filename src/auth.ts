@@ -0,0 +1,147 @@
+import type { Config } from "jira.js";
+
+// Connection settings for the three ways of authenticating against Jira:
+// - basic: email + API token (Jira Cloud)
+// - pat:   personal access token (Jira Server / Data Center)
+// - oauth: OAuth 2.0 (3LO) access token (Jira Cloud, through api.atlassian.com)
+
+export type AuthType = "basic" | "pat" | "oauth";
+export type DeploymentType = "cloud" | "server";
+
+export interface JiraConnectionConfig {
+  host: string;
+  authType: AuthType;
+  email?: string;
+  apiToken?: string;
+  accessToken?: string;
+  // Set when known up front (JIRA_DEPLOYMENT or implied by the auth type); otherwise detected via serverInfo
+  deployment?: DeploymentType;
+}
+
+const AUTH_TYPES: AuthType[] = ["basic", "pat", "oauth"];
+
+export function normalizeHost(host: string): string {
+  const trimmed = host.trim().replace(/\/+$/, "");
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+function isCloudHost(host: string): boolean {
+  return /\.(atlassian\.net|jira\.com)$/i.test(new URL(host).hostname);
+}
+
+export function loadConnectionConfig(
+  env: NodeJS.ProcessEnv = process.env
+): JiraConnectionConfig {
+  const email = env.JIRA_EMAIL || undefined;
+  const apiToken = env.JIRA_API_TOKEN || undefined;
+  const accessToken = env.JIRA_OAUTH_ACCESS_TOKEN || undefined;
+  const cloudId = env.JIRA_CLOUD_ID || undefined;
+
+  // OAuth 2.0 (3LO) requests go through the API gateway for the site's cloud id
+  const rawHost =
+    env.JIRA_HOST ||
+    (cloudId ? `https://api.atlassian.com/ex/jira/${cloudId}` : undefined);
+  if (!rawHost) {
+    throw new Error(
+      "JIRA_HOST environment variable is required (or JIRA_CLOUD_ID for OAuth). Please create a .env file with these values."
+    );
+  }
+  let host = normalizeHost(rawHost);
+
+  const requested = env.JIRA_AUTH_TYPE?.toLowerCase();
+  if (requested && !AUTH_TYPES.includes(requested as AuthType)) {
+    throw new Error(
+      `Unsupported JIRA_AUTH_TYPE "${
+        env.JIRA_AUTH_TYPE
+      }". Use one of: ${AUTH_TYPES.join(", ")}.`
+    );
+  }
+  const authType: AuthType =
+    (requested as AuthType | undefined) ??
+    (accessToken ? "oauth" : email && isCloudHost(host) ? "basic" : "pat");
+
+  switch (authType) {
+    case "basic":
+      if (!email || !apiToken) {
+        throw new Error(
+          "JIRA_EMAIL and JIRA_API_TOKEN environment variables are required for basic authentication."
+        );
+      }
+      break;
+    case "pat":
+      if (!apiToken) {
+        throw new Error(
+          "JIRA_API_TOKEN environment variable (a personal access token) is required for PAT authentication."
+        );
+      }
+      break;
+    case "oauth":
+      if (!accessToken) {
+        throw new Error(
+          "JIRA_OAUTH_ACCESS_TOKEN environment variable is required for OAuth authentication."
+        );
+      }
+      // OAuth tokens are not accepted by the site itself, only through the API gateway
+      if (isCloudHost(host)) {
+        if (!cloudId) {
+          throw new Error(
+            `JIRA_CLOUD_ID environment variable is required for OAuth authentication with ${host}. Find it at ${host}/_edge/tenant_info.`
+          );
+        }
+        host = `https://api.atlassian.com/ex/jira/${cloudId}`;
+      }
+      break;
+  }
+
+  const declared = env.JIRA_DEPLOYMENT?.toLowerCase();
+  let deployment: DeploymentType | undefined;
+  if (declared === "cloud") deployment = "cloud";
+  else if (declared === "server" || declared === "datacenter")
+    deployment = "server";
+  else if (authType === "oauth") deployment = "cloud";
+
+  return { host, authType, email, apiToken, accessToken, deployment };
+}
+
+export function clientConfig(connection: JiraConnectionConfig): Config {
+  switch (connection.authType) {
+    case "basic":
+      return {
+        host: connection.host,
+        authentication: {
+          basic: { email: connection.email!, apiToken: connection.apiToken! },
+        },
+      };
+    case "oauth":
+      return {
+        host: connection.host,
+        authentication: { oauth2: { accessToken: connection.accessToken! } },
+      };
+    default:
+      return {
+        host: connection.host,
+        authentication: { personalAccessToken: connection.apiToken! },
+      };
+  }
+}
+
+// serverInfo reports "Cloud", "Server" or "DataCenter"; fall back to the host name when it is missing
+export function deploymentFromServerInfo(
+  serverInfo: { deploymentType?: string } | undefined,
+  host: string
+): DeploymentType {
+  const reported = serverInfo?.deploymentType?.toLowerCase();
+  if (reported === "cloud") return "cloud";
+  if (reported === "server" || reported === "datacenter") return "server";
+  return isCloudHost(host) || host.includes("api.atlassian.com")
+    ? "cloud"
+    : "server";
+}
+
+// Jira Cloud identifies users by accountId; Server and Data Center by username
+export function userReference(
+  deployment: DeploymentType,
+  id: string
+): { accountId: string } | { name: string } {
+  return deployment === "cloud" ? { accountId: id } : { name: id };
+}
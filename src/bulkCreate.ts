@@ -0,0 +1,133 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Planning for bulk_create_issues. Items name their parent either by the local ref of another
+// item in the batch or by the key of an existing issue, and are created level by level so that
+// every parent exists before its children (epic -> stories -> subtasks).
+
+export const MAX_BULK_ISSUES = 200;
+// Jira accepts at most 50 issues per bulk create request
+export const BULK_CHUNK_SIZE = 50;
+
+export interface BulkItem {
+  ref: string;
+  // Position in the input, used to report results in input order
+  index: number;
+  parentRef?: string;
+  parentKey?: string;
+  input: any;
+}
+
+export type BulkItemStatus =
+  | "created"
+  | "existing"
+  | "planned"
+  | "failed"
+  | "skipped"
+  | "rolledBack";
+
+export interface BulkItemResult {
+  ref: string;
+  summary: string;
+  status: BulkItemStatus;
+  key?: string;
+  parent?: string;
+  error?: string;
+}
+
+export type BulkOutcome = { key: string } | { error: string };
+
+const ISSUE_KEY = /^[A-Za-z][A-Za-z0-9_]*-\d+$/;
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+// Group the items into levels: level 0 has no parent in the batch, level n has its parent in level n-1
+export function planBulkCreate(issues: any[]): BulkItem[][] {
+  const items = issues.map((input, index): BulkItem => {
+    const ref = String(input.ref ?? index + 1);
+    return { ref, index, input };
+  });
+
+  const byRef = new Map<string, BulkItem>();
+  for (const item of items) {
+    if (byRef.has(item.ref)) {
+      throw invalid(`Duplicate ref "${item.ref}" in issues.`);
+    }
+    byRef.set(item.ref, item);
+  }
+
+  for (const item of items) {
+    const parent = item.input.parent;
+    if (parent === undefined || parent === null || parent === "") continue;
+    const value = String(parent);
+    if (byRef.has(value)) {
+      item.parentRef = value;
+    } else if (ISSUE_KEY.test(value)) {
+      item.parentKey = value.toUpperCase();
+    } else {
+      throw invalid(
+        `Issue "${item.ref}" has parent "${value}", which is neither the ref of another issue in the batch nor an issue key.`
+      );
+    }
+  }
+
+  const depths = new Map<string, number>();
+  function depth(item: BulkItem, path: string[]): number {
+    const known = depths.get(item.ref);
+    if (known !== undefined) return known;
+    if (path.includes(item.ref)) {
+      throw invalid(
+        `Circular parent references: ${[...path, item.ref].join(" -> ")}`
+      );
+    }
+    const value = item.parentRef
+      ? depth(byRef.get(item.parentRef)!, [...path, item.ref]) + 1
+      : 0;
+    depths.set(item.ref, value);
+    return value;
+  }
+
+  const levels: BulkItem[][] = [];
+  for (const item of items) {
+    const level = depth(item, []);
+    (levels[level] ??= []).push(item);
+  }
+  return levels;
+}
+
+function describeElementErrors(elementErrors: any): string {
+  const messages: string[] = [...(elementErrors?.errorMessages ?? [])];
+  for (const [field, message] of Object.entries(elementErrors?.errors ?? {})) {
+    messages.push(`${field}: ${message}`);
+  }
+  return messages.join("; ") || "Jira rejected the issue";
+}
+
+// Map a bulk create response onto the submitted issues. Jira lists the created issues in order
+// and reports failures by their position in the request.
+export function bulkResponseOutcomes(
+  count: number,
+  response: any
+): BulkOutcome[] {
+  const failures = new Map<number, string>();
+  for (const error of response?.errors ?? []) {
+    failures.set(
+      error.failedElementNumber,
+      describeElementErrors(error.elementErrors)
+    );
+  }
+
+  const created: any[] = [...(response?.issues ?? [])];
+  const outcomes: BulkOutcome[] = [];
+  for (let i = 0; i < count; i++) {
+    const failure = failures.get(i);
+    const issue = failure === undefined ? created.shift() : undefined;
+    outcomes.push(
+      issue?.key
+        ? { key: issue.key }
+        : { error: failure ?? "Jira did not report a result for this issue" }
+    );
+  }
+  return outcomes;
+}
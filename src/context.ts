@@ -0,0 +1,108 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Version2Client, Version3Client, AgileClient } from "jira.js";
+import {
+  DeploymentType,
+  JiraConnectionConfig,
+  clientConfig,
+  deploymentFromServerInfo,
+  userReference,
+} from "./auth.js";
+import type { TransportMode } from "./http.js";
+import type { LogLevel } from "./logger.js";
+import { logger } from "./logger.js";
+import {
+  MetadataCache,
+  createMetadataCache,
+  metadataTtlFromEnv,
+} from "./metadataCache.js";
+import type { Resilience } from "./resilience.js";
+
+// Jira clients and caches for one set of credentials
+export interface JiraContext {
+  connection: JiraConnectionConfig;
+  v2: Version2Client;
+  // Only used for Atlassian Document Format payloads, which the v2 API does not accept
+  v3: Version3Client;
+  agile: AgileClient;
+  metadataCache: MetadataCache;
+  deploymentPromise?: Promise<DeploymentType>;
+  // The JQL parse endpoint only exists on Jira Cloud; remember when the site does not have it
+  jqlParseSupported: boolean;
+}
+
+// One MCP connection: the stdio client, or one HTTP session
+export interface Session {
+  server: Server;
+  // Decides what the session may do on the server's own file system
+  transport: TransportMode;
+  // Clients per site name
+  sites: Map<string, JiraContext>;
+  // Site of the request being handled, chosen by withSite()
+  jira?: JiraContext;
+  recentIssues: Map<string, { summary?: string; touchedAt: string }>;
+  // Lowest level forwarded to the client as notifications/message; shared by the session's calls
+  logging: { level: LogLevel };
+}
+
+// Handlers run inside their session, so helpers reach the right clients without passing them around
+export const sessionStorage = new AsyncLocalStorage<Session>();
+
+export function session(): Session {
+  const current = sessionStorage.getStore();
+  if (!current) throw new Error("No active MCP session");
+  return current;
+}
+
+export function jira(): JiraContext {
+  const context = session().jira;
+  if (!context) throw new Error("No Jira site selected");
+  return context;
+}
+
+export function createJiraContext(
+  connection: JiraConnectionConfig,
+  resilience: Resilience
+): JiraContext {
+  const config = clientConfig(connection);
+  try {
+    // Every request goes through retries with backoff and the rate limiter of its host
+    const { host } = connection;
+    return {
+      connection,
+      v2: resilience.wrap(new Version2Client(config), host),
+      v3: resilience.wrap(new Version3Client(config), host),
+      agile: resilience.wrap(new AgileClient(config), host),
+      metadataCache: createMetadataCache(metadataTtlFromEnv()),
+      jqlParseSupported: true,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to initialize Jira client: ${error.message}`);
+  }
+}
+
+// --- Deployment Detection ---
+// Detected lazily on first use so start() does not block on a network call
+export function getDeployment(): Promise<DeploymentType> {
+  const context = jira();
+  const { connection } = context;
+  if (connection.deployment) return Promise.resolve(connection.deployment);
+  context.deploymentPromise ??= context.v2.serverInfo
+    .getServerInfo()
+    .then((info) => deploymentFromServerInfo(info, connection.host))
+    .catch((e: any) => {
+      const fallback = deploymentFromServerInfo(undefined, connection.host);
+      logger.warn(
+        `Failed to detect Jira deployment type, assuming ${fallback}`,
+        {
+          error: e,
+        }
+      );
+      return fallback;
+    });
+  return context.deploymentPromise;
+}
+
+export async function toUserReference(id: string) {
+  return userReference(await getDeployment(), id);
+}
@@ -0,0 +1,267 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Resolve custom field values supplied by display name ("Story Points", "Team") into the
+// customfield_XXXXX keys and value shapes the Jira REST API expects.
+
+export interface FieldSchema {
+  type: string;
+  items?: string;
+  custom?: string;
+}
+
+export interface FieldDefinition {
+  id?: string;
+  name?: string;
+  custom?: boolean;
+  schema?: FieldSchema;
+}
+
+// Per-field entry of createmeta/editmeta; allowedValues is only present for option-like fields
+export interface FieldMetadata {
+  name?: string;
+  required?: boolean;
+  schema?: FieldSchema;
+  allowedValues?: any[];
+}
+
+export type FieldMetadataMap = Record<string, FieldMetadata>;
+
+export interface ResolveOptions {
+  // Builds the user reference for user fields; Jira Cloud uses accountId, Server/DC uses name
+  userReference?: (id: string) => any;
+}
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function findField(
+  nameOrId: string,
+  fields: FieldDefinition[],
+  meta?: FieldMetadataMap
+): FieldDefinition {
+  const byId = fields.find((f) => f.id === nameOrId);
+  if (byId) return byId;
+
+  const wanted = nameOrId.trim().toLowerCase();
+  let matches = fields.filter(
+    (f) => f.custom && f.name?.toLowerCase() === wanted
+  );
+  // Several custom fields can share a display name; the one on the screen is the one meant
+  if (matches.length > 1 && meta) {
+    const onScreen = matches.filter((f) => f.id && f.id in meta);
+    if (onScreen.length > 0) matches = onScreen;
+  }
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw invalid(
+      `Custom field name "${nameOrId}" is ambiguous; use one of the field ids: ${matches
+        .map((f) => f.id)
+        .join(", ")}`
+    );
+  }
+
+  const available = meta
+    ? Object.entries(meta)
+        .filter(([id]) => id.startsWith("customfield_"))
+        .map(([id, m]) => m.name ?? id)
+    : fields.filter((f) => f.custom).map((f) => f.name ?? f.id);
+  throw invalid(
+    `Unknown custom field "${nameOrId}". Available custom fields: ${
+      available.sort().join(", ") || "none"
+    }`
+  );
+}
+
+function describeOption(option: any): string {
+  return String(option?.value ?? option?.name ?? option?.id);
+}
+
+function matchOption(
+  fieldName: string,
+  value: unknown,
+  allowed: any[] | undefined
+): any {
+  if (value && typeof value === "object") {
+    // Already in REST shape, e.g. { id: "10001" } or { value: "Red" }
+    const candidate = value as any;
+    if (!allowed) return candidate;
+    const found = allowed.find(
+      (o) =>
+        (candidate.id !== undefined && String(o.id) === String(candidate.id)) ||
+        (candidate.value !== undefined &&
+          describeOption(o).toLowerCase() ===
+            String(candidate.value).toLowerCase())
+    );
+    if (found) return { id: String(found.id) };
+    value = candidate.value ?? candidate.id;
+  }
+
+  const text = String(value);
+  if (!allowed) return { value: text };
+  const found = allowed.find(
+    (o) =>
+      describeOption(o).toLowerCase() === text.toLowerCase() ||
+      String(o.id) === text
+  );
+  if (!found) {
+    throw invalid(
+      `Invalid value "${text}" for field "${fieldName}". Allowed values: ${allowed
+        .map(describeOption)
+        .join(", ")}`
+    );
+  }
+  return { id: String(found.id) };
+}
+
+// Accepts "Parent -> Child", ["Parent", "Child"] or { parent, child }
+function cascadingValue(
+  fieldName: string,
+  value: unknown,
+  allowed: any[] | undefined
+): any {
+  let parent: string;
+  let child: string | undefined;
+  if (Array.isArray(value)) {
+    [parent, child] = value.map(String);
+  } else if (value && typeof value === "object") {
+    parent = String((value as any).parent ?? (value as any).value);
+    child = (value as any).child;
+    if (child && typeof child === "object") child = (child as any).value;
+  } else {
+    [parent, child] = String(value)
+      .split(/\s*(?:->|>|\/)\s*/)
+      .map((part) => part.trim());
+  }
+
+  const parentOption = matchOption(fieldName, parent, allowed);
+  if (!child) return parentOption;
+  const parentMeta = allowed?.find((o) => String(o.id) === parentOption.id);
+  const childOption = matchOption(
+    `${fieldName} (${parent})`,
+    child,
+    parentMeta?.children
+  );
+  return { ...parentOption, child: childOption };
+}
+
+function toNumber(fieldName: string, value: unknown): number {
+  const n = typeof value === "number" ? value : Number(String(value).trim());
+  if (typeof value === "boolean" || !Number.isFinite(n)) {
+    throw invalid(
+      `Field "${fieldName}" expects a number, got ${JSON.stringify(value)}.`
+    );
+  }
+  return n;
+}
+
+function toDate(fieldName: string, value: unknown): string {
+  const text = String(value).trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(Date.parse(text))) {
+    throw invalid(
+      `Field "${fieldName}" expects a date in YYYY-MM-DD format, got "${text}".`
+    );
+  }
+  return text;
+}
+
+function toDateTime(fieldName: string, value: unknown): string {
+  const time = Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw invalid(
+      `Field "${fieldName}" expects an ISO 8601 date-time, got "${value}".`
+    );
+  }
+  // Jira expects an explicit numeric offset rather than "Z"
+  return new Date(time).toISOString().replace("Z", "+0000");
+}
+
+function userValue(value: unknown, options: ResolveOptions): any {
+  if (value && typeof value === "object") return value;
+  return options.userReference?.(String(value)) ?? { name: String(value) };
+}
+
+function coerceValue(
+  field: FieldDefinition,
+  value: unknown,
+  meta: FieldMetadata | undefined,
+  options: ResolveOptions
+): any {
+  if (value === null) return null; // clears the field
+  const name = field.name ?? field.id ?? "unknown";
+  const schema = meta?.schema ?? field.schema;
+  const allowed = meta?.allowedValues;
+  const custom = schema?.custom ?? "";
+
+  if (custom.endsWith(":gh-sprint")) return toNumber(name, value);
+  if (custom.endsWith(":gh-epic-link")) return String(value);
+
+  switch (schema?.type) {
+    case "number":
+      return toNumber(name, value);
+    case "string":
+      return typeof value === "string" ? value : String(value);
+    case "date":
+      return toDate(name, value);
+    case "datetime":
+      return toDateTime(name, value);
+    case "option":
+      return matchOption(name, value, allowed);
+    case "option-with-child":
+      return cascadingValue(name, value, allowed);
+    case "user":
+      return userValue(value, options);
+    case "version":
+    case "component":
+    case "group":
+      return value && typeof value === "object"
+        ? value
+        : { name: String(value) };
+    case "array": {
+      const items = Array.isArray(value) ? value : [value];
+      switch (schema.items) {
+        case "option":
+          return items.map((item) => matchOption(name, item, allowed));
+        case "string":
+          return items.map(String);
+        case "number":
+          return items.map((item) => toNumber(name, item));
+        case "user":
+          return items.map((item) => userValue(item, options));
+        case "version":
+        case "component":
+        case "group":
+          return items.map((item) =>
+            item && typeof item === "object" ? item : { name: String(item) }
+          );
+        default:
+          return items;
+      }
+    }
+    default:
+      return value;
+  }
+}
+
+// Turn { "Story Points": 5, "Team": "Platform" } into { customfield_10016: 5, customfield_10100: { id: "..." } }
+export function resolveCustomFields(
+  input: Record<string, unknown>,
+  fields: FieldDefinition[],
+  meta?: FieldMetadataMap,
+  options: ResolveOptions = {}
+): Record<string, any> {
+  const resolved: Record<string, any> = {};
+  for (const [nameOrId, value] of Object.entries(input)) {
+    const field = findField(nameOrId, fields, meta);
+    const id = field.id!;
+    if (meta && !(id in meta)) {
+      throw invalid(
+        `Field "${
+          field.name ?? id
+        }" (${id}) is not on the screen for this issue and cannot be set.`
+      );
+    }
+    resolved[id] = coerceValue(field, value, meta?.[id], options);
+  }
+  return resolved;
+}
@@ -0,0 +1,155 @@
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { FieldMetadataMap } from "./customFields.js";
+
+// Normalise tool failures into results the model can act on. Jira error responses carry general
+// messages (errorMessages) and per-field messages (errors); both are kept, and hints point to the
+// values or steps that would work. Failures are returned as isError tool results rather than
+// protocol errors.
+
+export interface ToolErrorDetails {
+  message: string;
+  // HTTP status of the Jira response, when the failure came from Jira
+  status?: number;
+  errorMessages?: string[];
+  // Field id -> message, e.g. customfield_10016: "Number value expected"
+  fieldErrors?: Record<string, string>;
+  hints?: string[];
+}
+
+const MAX_LISTED_VALUES = 25;
+
+const STATUS_HINTS: Record<number, string> = {
+  401: "Jira rejected the credentials; check the configured token or the session's credential headers.",
+  403: "The Jira user is not allowed to do this; check the project permissions.",
+  404: "The issue, project or other item does not exist, or the Jira user cannot see it.",
+  429: "Jira is rate limiting requests; wait before retrying.",
+};
+
+function mcpMessage(error: McpError): string {
+  return error.message.replace(/^MCP error -?\d+: /, "");
+}
+
+// Jira error responses are spread onto the error object by jira.js: { status, errorMessages, errors }
+function isJiraResponseError(error: any): boolean {
+  return (
+    typeof error?.status === "number" &&
+    (Array.isArray(error.errorMessages) ||
+      (error.errors && typeof error.errors === "object"))
+  );
+}
+
+export function describeToolError(error: any): ToolErrorDetails {
+  if (error instanceof McpError) return { message: mcpMessage(error) };
+
+  if (isJiraResponseError(error)) {
+    const errorMessages: string[] = (error.errorMessages ?? []).filter(Boolean);
+    const fieldErrors: Record<string, string> = {};
+    for (const [field, message] of Object.entries(error.errors ?? {})) {
+      fieldErrors[field] = String(message);
+    }
+    const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+    // Field errors are listed separately
+    const summary =
+      errorMessages.join("; ") ||
+      (hasFieldErrors ? "Invalid field values" : error.statusText) ||
+      "Request failed";
+    return {
+      message: `Jira API Error (${error.status}): ${summary}`,
+      status: error.status,
+      errorMessages: errorMessages.length > 0 ? errorMessages : undefined,
+      fieldErrors: hasFieldErrors ? fieldErrors : undefined,
+      hints: STATUS_HINTS[error.status] ? [STATUS_HINTS[error.status]] : [],
+    };
+  }
+
+  // Network failures and timeouts have no Jira response
+  const status =
+    typeof error?.status === "number" ? error.status : error?.response?.status;
+  const message = error?.message || "An unknown error occurred";
+  return {
+    message: status
+      ? `Jira API Error (${status}): ${message}`
+      : error?.isAxiosError
+      ? `Jira request failed: ${message}`
+      : message,
+    status,
+    hints: STATUS_HINTS[status] ? [STATUS_HINTS[status]] : [],
+  };
+}
+
+function listValues(values: string[]): string {
+  const shown = values.slice(0, MAX_LISTED_VALUES).join(", ");
+  return values.length > MAX_LISTED_VALUES
+    ? `${shown}, ... (${values.length - MAX_LISTED_VALUES} more)`
+    : shown;
+}
+
+function describeValue(value: any): string {
+  return (
+    value?.name ?? value?.value ?? value?.key ?? String(value?.id ?? value)
+  );
+}
+
+// Hints from the create or edit screen: allowed values of the fields Jira rejected, and the
+// required fields when Jira says one is missing
+export function fieldHints(
+  fieldErrors: Record<string, string>,
+  meta: FieldMetadataMap
+): string[] {
+  const hints: string[] = [];
+  for (const field of Object.keys(fieldErrors)) {
+    const allowed = meta[field]?.allowedValues;
+    if (Array.isArray(allowed) && allowed.length > 0) {
+      hints.push(
+        `Allowed values for ${
+          meta[field].name ?? field
+        } (${field}): ${listValues(allowed.map(describeValue))}`
+      );
+    }
+  }
+  if (Object.values(fieldErrors).some((m) => /required/i.test(m))) {
+    const required = Object.entries(meta)
+      .filter(([, f]) => f.required)
+      .map(([id, f]) => (f.name && f.name !== id ? `${id} (${f.name})` : id));
+    if (required.length > 0) {
+      hints.push(`Required fields: ${listValues(required)}`);
+    }
+  }
+  return hints;
+}
+
+// Field ids in messages are hard to act on; label custom fields with their names
+export function labelFieldErrors(
+  fieldErrors: Record<string, string>,
+  names: Record<string, string>
+): Record<string, string> {
+  const labelled: Record<string, string> = {};
+  for (const [field, message] of Object.entries(fieldErrors)) {
+    const name = names[field];
+    labelled[name && name !== field ? `${field} (${name})` : field] = message;
+  }
+  return labelled;
+}
+
+export function formatToolError(details: ToolErrorDetails): string {
+  const lines = [details.message];
+  if (details.fieldErrors) {
+    lines.push("Field errors:");
+    for (const [field, message] of Object.entries(details.fieldErrors)) {
+      lines.push(`- ${field}: ${message}`);
+    }
+  }
+  if (details.hints?.length) {
+    lines.push("Hints:");
+    for (const hint of details.hints) lines.push(`- ${hint}`);
+  }
+  return lines.join("\n");
+}
+
+export function toolErrorResult(details: ToolErrorDetails) {
+  return {
+    content: [{ type: "text", text: formatToolError(details) }],
+    structuredContent: { error: details },
+    isError: true,
+  };
+}
@@ -0,0 +1,200 @@
+// Render tool results as text. JSON is the default; markdown, csv and compact are meant for
+// issue lists, which they render as a table, CSV rows or one line per issue. Other results
+// use their main list (comments, sprints, ...) or fall back to their top-level values.
+
+export type OutputFormat = "json" | "markdown" | "csv" | "compact";
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  "json",
+  "markdown",
+  "csv",
+  "compact",
+];
+
+// Properties holding the main list of a result, in order of preference
+const LIST_KEYS = [
+  "issues",
+  "items",
+  "values",
+  "comments",
+  "transitions",
+  "attachments",
+  "histories",
+];
+
+const MAX_CELL_LENGTH = 120;
+
+type Row = Record<string, unknown>;
+
+function isIssue(value: any): boolean {
+  return (
+    !!value && typeof value === "object" && "key" in value && "fields" in value
+  );
+}
+
+// Issues are flattened to key + fields so every field becomes a column
+function toRow(value: any): Row {
+  if (isIssue(value)) return { key: value.key, ...value.fields };
+  return value && typeof value === "object" ? value : { value };
+}
+
+function findList(result: any): { name: string; rows: Row[] } | undefined {
+  if (Array.isArray(result)) return { name: "items", rows: result.map(toRow) };
+  for (const name of LIST_KEYS) {
+    if (Array.isArray(result?.[name])) {
+      return { name, rows: result[name].map(toRow) };
+    }
+  }
+  return undefined;
+}
+
+// Scalar properties next to the list, e.g. total, isLast, nextPageToken
+function listSummary(result: any, listName: string): Row {
+  const summary: Row = {};
+  if (!result || typeof result !== "object" || Array.isArray(result)) {
+    return summary;
+  }
+  for (const [key, value] of Object.entries(result)) {
+    if (key === listName) continue;
+    if (value === null || typeof value !== "object") summary[key] = value;
+  }
+  return summary;
+}
+
+function columnsOf(rows: Row[]): string[] {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return columns;
+}
+
+// Plain text for one value: names for objects, comma-separated lists
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(cellText).join(", ");
+  if (typeof value === "object") {
+    const v = value as any;
+    const label = v.displayName ?? v.name ?? v.key ?? v.value;
+    return label !== undefined ? String(label) : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function truncate(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_CELL_LENGTH
+    ? `${flat.slice(0, MAX_CELL_LENGTH - 3)}...`
+    : flat;
+}
+
+function markdownCell(value: unknown): string {
+  return truncate(cellText(value)).replace(/\|/g, "\\|");
+}
+
+function markdownTable(rows: Row[]): string {
+  const columns = columnsOf(rows);
+  if (columns.length === 0) return "_No results._";
+  return [
+    `| ${columns.join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map(
+      (row) => `| ${columns.map((c) => markdownCell(row[c])).join(" | ")} |`
+    ),
+  ].join("\n");
+}
+
+function markdownFields(row: Row, skip: string[] = []): string {
+  return Object.entries(row)
+    .filter(([key, value]) => !skip.includes(key) && value !== undefined)
+    .map(([key, value]) => `- **${key}**: ${cellText(value)}`)
+    .join("\n");
+}
+
+function issueSection(issue: any): string {
+  const fields = issue.fields ?? {};
+  const parts = [
+    `## ${issue.key}${fields.summary ? `: ${fields.summary}` : ""}`,
+    markdownFields(fields, ["summary", "description"]),
+  ];
+  if (fields.description) {
+    parts.push(`### Description\n\n${cellText(fields.description)}`);
+  }
+  return parts.filter(Boolean).join("\n\n");
+}
+
+function toMarkdownText(result: any): string {
+  if (isIssue(result)) return issueSection(result);
+  const list = findList(result);
+  if (!list) {
+    return result && typeof result === "object"
+      ? markdownFields(result)
+      : cellText(result);
+  }
+  const summary = markdownFields(listSummary(result, list.name));
+  return [markdownTable(list.rows), summary].filter(Boolean).join("\n\n");
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(result: any): string {
+  const list = findList(result);
+  const rows = list ? list.rows : [toRow(result)];
+  const columns = columnsOf(rows);
+  return [
+    columns.map(csvCell).join(","),
+    ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(",")),
+  ].join("\r\n");
+}
+
+// PROJ-1 [In Progress] Fix login · assignee: Ann · priority: High
+function compactLine(row: Row): string {
+  const { key, summary, status, description, ...rest } = row;
+  const head = [
+    key,
+    status !== undefined ? `[${cellText(status)}]` : undefined,
+    summary !== undefined ? cellText(summary) : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const details = Object.entries(rest)
+    .filter(([, value]) => value !== undefined && cellText(value) !== "")
+    .map(([name, value]) => `${name}: ${truncate(cellText(value))}`);
+  return [head, ...details].filter(Boolean).join(" · ");
+}
+
+function toCompact(result: any): string {
+  if (isIssue(result)) return compactLine(toRow(result));
+  const list = findList(result);
+  if (!list) return compactLine(toRow(result));
+  const summary = compactLine(listSummary(result, list.name));
+  return [...list.rows.map(compactLine), summary].filter(Boolean).join("\n");
+}
+
+export function formatResult(
+  result: unknown,
+  format: OutputFormat = "json"
+): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdownText(result);
+    case "csv":
+      return toCsv(result);
+    case "compact":
+      return toCompact(result);
+    default:
+      return JSON.stringify(result, null, 2);
+  }
+}
+
+// structuredContent must be a JSON object
+export function toStructuredContent(result: unknown): Record<string, unknown> {
+  return result && typeof result === "object" && !Array.isArray(result)
+    ? (result as Record<string, unknown>)
+    : { result };
+}
@@ -0,0 +1,185 @@
+// Compact changelog entries and compute how long an issue spent in each status and with each
+// assignee, from the issue's creation date and its full changelog. The clock stops when the issue
+// is resolved, so a Done issue does not keep adding time to its final status.
+
+export interface HistoryEntry {
+  id?: string;
+  created?: string;
+  author?: string;
+  changes: { field: string; from?: string; to?: string }[];
+}
+
+export interface DurationEntry {
+  seconds: number;
+  duration: string;
+  // How many times the issue entered this status / was assigned to this person
+  times: number;
+}
+
+export interface TimeInStatus {
+  statuses: Record<string, DurationEntry>;
+  assignees: Record<string, DurationEntry>;
+}
+
+const UNASSIGNED = "Unassigned";
+
+function matchesField(item: any, fields: string[] | undefined): boolean {
+  if (!fields || fields.length === 0) return true;
+  return fields.some(
+    (f) =>
+      f.toLowerCase() === item.field?.toLowerCase() ||
+      f.toLowerCase() === item.fieldId?.toLowerCase()
+  );
+}
+
+// One changelog entry with only the display values; undefined when no item matches the field filter
+export function compactHistory(
+  history: any,
+  fields?: string[]
+): HistoryEntry | undefined {
+  const changes = (history.items ?? [])
+    .filter((item: any) => matchesField(item, fields))
+    .map((item: any) => ({
+      field: item.field ?? item.fieldId,
+      from: item.fromString ?? item.from ?? undefined,
+      to: item.toString ?? item.to ?? undefined,
+    }));
+  if (changes.length === 0) return undefined;
+  return {
+    id: history.id,
+    created: history.created,
+    author: history.author?.displayName ?? history.author?.name,
+    changes,
+  };
+}
+
+// "3d 4h 12m"; seconds are only shown for durations under a minute
+export function formatDuration(seconds: number): string {
+  const units: [string, number][] = [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+  ];
+  const parts: string[] = [];
+  let rest = Math.max(0, Math.round(seconds));
+  for (const [unit, size] of units) {
+    if (rest >= size) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  return parts.length > 0 ? parts.join(" ") : `${rest}s`;
+}
+
+function entry(seconds: number, times: number): DurationEntry {
+  return {
+    seconds: Math.round(seconds),
+    duration: formatDuration(seconds),
+    times,
+  };
+}
+
+function durations(
+  created: string,
+  initial: string,
+  changes: { at: string; to: string }[],
+  end: number
+): Record<string, DurationEntry> {
+  const totals = new Map<string, { ms: number; times: number }>();
+  const add = (value: string, ms: number) => {
+    const total = totals.get(value) ?? { ms: 0, times: 0 };
+    total.ms += Math.max(0, ms);
+    total.times++;
+    totals.set(value, total);
+  };
+
+  let value = initial;
+  let since = Date.parse(created);
+  for (const change of changes) {
+    const at = Date.parse(change.at);
+    add(value, at - since);
+    value = change.to;
+    since = at;
+  }
+  add(value, end - since);
+
+  const result: Record<string, DurationEntry> = {};
+  for (const [key, total] of totals) {
+    result[key] = entry(total.ms / 1000, total.times);
+  }
+  return result;
+}
+
+function changesOf(histories: any[], field: string) {
+  const changes: { at: string; from: string; to: string }[] = [];
+  const sorted = [...histories].sort(
+    (a, b) => Date.parse(a.created) - Date.parse(b.created)
+  );
+  for (const history of sorted) {
+    for (const item of history.items ?? []) {
+      if (item.field !== field && item.fieldId !== field) continue;
+      changes.push({
+        at: history.created,
+        from: item.fromString || UNASSIGNED,
+        to: item.toString || UNASSIGNED,
+      });
+    }
+  }
+  return changes;
+}
+
+export function timeInStatus(
+  issue: {
+    created: string;
+    status?: string;
+    assignee?: string;
+    // Resolution date; Jira clears it when the issue is reopened
+    resolved?: string;
+    histories: any[];
+  },
+  now: Date = new Date()
+): TimeInStatus {
+  const end = issue.resolved
+    ? Math.min(now.getTime(), Date.parse(issue.resolved))
+    : now.getTime();
+  const statusChanges = changesOf(issue.histories, "status");
+  const assigneeChanges = changesOf(issue.histories, "assignee");
+  return {
+    statuses: durations(
+      issue.created,
+      statusChanges[0]?.from ?? issue.status ?? "Unknown",
+      statusChanges,
+      end
+    ),
+    assignees: durations(
+      issue.created,
+      assigneeChanges[0]?.from ?? issue.assignee ?? UNASSIGNED,
+      assigneeChanges,
+      end
+    ),
+  };
+}
+
+// Sum the per-issue durations of several issues, with the average per issue that passed through
+export function sumTimeInStatus(results: TimeInStatus[]) {
+  const sum = (key: "statuses" | "assignees") => {
+    const totals: Record<
+      string,
+      DurationEntry & { issues: number; averageDuration: string }
+    > = {};
+    for (const result of results) {
+      for (const [name, value] of Object.entries(result[key])) {
+        const seconds = (totals[name]?.seconds ?? 0) + value.seconds;
+        const times = (totals[name]?.times ?? 0) + value.times;
+        const issues = (totals[name]?.issues ?? 0) + 1;
+        totals[name] = {
+          ...entry(seconds, times),
+          issues,
+          averageDuration: formatDuration(seconds / issues),
+        };
+      }
+    }
+    return totals;
+  };
+  return { statuses: sum("statuses"), assignees: sum("assignees") };
+}
@@ -0,0 +1,383 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+  createServer,
+} from "node:http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { JiraConnectionConfig, loadConnectionConfig } from "./auth.js";
+import { logger } from "./logger.js";
+
+// HTTP transport for a shared instance: Streamable HTTP on /mcp, and the older HTTP+SSE
+// transport on /sse and /messages for clients that do not support it yet. Each MCP session gets
+// its own server, which can use the Jira credentials sent in the X-Jira-* headers when the
+// session is opened (see connectionFromHeaders).
+
+export type TransportMode = "stdio" | "http";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  // Bearer tokens accepted from MCP clients; no authentication when empty (loopback only)
+  authTokens: string[];
+  // Sessions without a request for this long are closed
+  sessionIdleMs: number;
+}
+
+export interface TransportOptions {
+  transport: TransportMode;
+  http: HttpOptions;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Creates the MCP server of a new session from the headers of the request that opens it
+export type SessionFactory = (headers: IncomingHttpHeaders) => Server;
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = "127.0.0.1";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_SECONDS = 30 * 60;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Session headers and the environment variables they stand in for
+const CREDENTIAL_HEADERS: Record<string, string> = {
+  "x-jira-email": "JIRA_EMAIL",
+  "x-jira-api-token": "JIRA_API_TOKEN",
+  "x-jira-access-token": "JIRA_OAUTH_ACCESS_TOKEN",
+  "x-jira-auth-type": "JIRA_AUTH_TYPE",
+};
+
+// --transport http --port 8080, or --transport=http; flags win over environment variables
+function flagValue(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) return argv[i + 1];
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+export function isLoopback(host: string): boolean {
+  return ["127.0.0.1", "::1", "localhost"].includes(host.toLowerCase());
+}
+
+export function loadTransportOptions(
+  argv: string[] = [],
+  env: NodeJS.ProcessEnv = process.env
+): TransportOptions {
+  const transport = (
+    flagValue(argv, "transport") ||
+    env.MCP_TRANSPORT ||
+    "stdio"
+  ).toLowerCase();
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(
+      `Unsupported transport "${transport}". Use "stdio" or "http".`
+    );
+  }
+
+  const rawPort = flagValue(argv, "port") || env.MCP_HTTP_PORT;
+  const port = rawPort === undefined ? DEFAULT_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${rawPort}".`);
+  }
+  const host = flagValue(argv, "host") || env.MCP_HTTP_HOST || DEFAULT_HOST;
+  const rawIdle = env.MCP_SESSION_IDLE_TIMEOUT_SECONDS;
+  const idleSeconds =
+    rawIdle === undefined ? DEFAULT_SESSION_IDLE_SECONDS : Number(rawIdle);
+  if (!Number.isInteger(idleSeconds) || idleSeconds <= 0) {
+    throw new Error(`Invalid MCP_SESSION_IDLE_TIMEOUT_SECONDS "${rawIdle}".`);
+  }
+  const authTokens = (env.MCP_AUTH_TOKENS ?? "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean);
+
+  if (transport === "http" && authTokens.length === 0 && !isLoopback(host)) {
+    throw new Error(
+      `MCP_AUTH_TOKENS is required when the HTTP transport listens on ${host}; without it, only loopback addresses are allowed.`
+    );
+  }
+  return {
+    transport,
+    http: { host, port, authTokens, sessionIdleMs: idleSeconds * 1000 },
+  };
+}
+
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? "");
+  return match?.[1];
+}
+
+function sameToken(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function isAuthorized(
+  token: string | undefined,
+  authTokens: string[]
+): boolean {
+  if (authTokens.length === 0) return true;
+  return !!token && authTokens.some((allowed) => sameToken(token, allowed));
+}
+
+// Jira credentials for one session. The host always comes from the configuration, so clients
+// cannot point the server at another site.
+export function connectionFromHeaders(
+  headers: IncomingHttpHeaders,
+  env: NodeJS.ProcessEnv = process.env
+): JiraConnectionConfig | undefined {
+  const overrides: Record<string, string> = {};
+  for (const [header, variable] of Object.entries(CREDENTIAL_HEADERS)) {
+    const value = headers[header];
+    if (typeof value === "string" && value.trim()) {
+      overrides[variable] = value.trim();
+    }
+  }
+  if (Object.keys(overrides).length === 0) return undefined;
+
+  // Credentials from the environment must not mix with the session's own
+  const sessionEnv: NodeJS.ProcessEnv = { ...env };
+  for (const variable of Object.values(CREDENTIAL_HEADERS)) {
+    delete sessionEnv[variable];
+  }
+  return loadConnectionConfig({ ...sessionEnv, ...overrides });
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  // Bearer token that opened the session; later requests must present the same one
+  token?: string;
+  // Time of the session's latest request
+  lastActive: number;
+}
+
+export async function startHttpServer(
+  options: HttpOptions,
+  createSession: SessionFactory
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, HttpSession>();
+  // Loopback without tokens is only safe if browsers cannot reach it under another host name.
+  // Set once listening, as port 0 only becomes a real port then.
+  let allowedHosts: string[] | undefined;
+
+  function findSession(
+    id: string | undefined,
+    token: string | undefined,
+    res: ServerResponse
+  ): HttpSession | undefined {
+    const existing = id ? sessions.get(id) : undefined;
+    if (!existing) {
+      sendError(res, 404, "Session not found");
+      return undefined;
+    }
+    if (existing.token !== token) {
+      sendError(res, 403, "Session belongs to another client");
+      return undefined;
+    }
+    existing.lastActive = Date.now();
+    return existing;
+  }
+
+  function openSession(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Server | undefined {
+    try {
+      return createSession(req.headers);
+    } catch (error: any) {
+      sendError(res, 401, error.message);
+      return undefined;
+    }
+  }
+
+  async function handleStreamable(
+    req: IncomingMessage,
+    res: ServerResponse,
+    token: string | undefined
+  ) {
+    const body = req.method === "POST" ? await readJson(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const existing = findSession(sessionId, token, res);
+      if (!existing) return;
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendError(res, 400, "Session uses the SSE transport");
+        return;
+      }
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    const messages = Array.isArray(body) ? body : [body];
+    if (req.method !== "POST" || !messages.some(isInitializeRequest)) {
+      sendError(res, 400, "Missing Mcp-Session-Id header");
+      return;
+    }
+    const server = openSession(req, res);
+    if (!server) return;
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, {
+            transport,
+            server,
+            token,
+            lastActive: Date.now(),
+          });
+        },
+        allowedHosts,
+        enableDnsRebindingProtection: !!allowedHosts,
+      });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function openSse(
+    req: IncomingMessage,
+    res: ServerResponse,
+    token: string | undefined
+  ) {
+    const server = openSession(req, res);
+    if (!server) return;
+    const transport = new SSEServerTransport("/messages", res, {
+      allowedHosts,
+      enableDnsRebindingProtection: !!allowedHosts,
+    });
+    sessions.set(transport.sessionId, {
+      transport,
+      server,
+      token,
+      lastActive: Date.now(),
+    });
+    transport.onclose = () => sessions.delete(transport.sessionId);
+    await server.connect(transport);
+  }
+
+  async function postSse(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    token: string | undefined
+  ) {
+    const existing = findSession(
+      url.searchParams.get("sessionId") ?? undefined,
+      token,
+      res
+    );
+    if (!existing) return;
+    if (!(existing.transport instanceof SSEServerTransport)) {
+      sendError(res, 400, "Session uses the Streamable HTTP transport");
+      return;
+    }
+    await existing.transport.handlePostMessage(req, res, await readJson(req));
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const token = bearerToken(req.headers.authorization);
+    if (!isAuthorized(token, options.authTokens)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendError(res, 401, "Unauthorized");
+      return;
+    }
+
+    if (url.pathname === "/mcp") {
+      await handleStreamable(req, res, token);
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      await openSse(req, res, token);
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      await postSse(req, res, url, token);
+    } else {
+      sendError(res, 404, "Not found");
+    }
+  }
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error: any) => {
+      logger.error("Error handling HTTP request", { error });
+      sendError(
+        res,
+        error instanceof SyntaxError ? 400 : 500,
+        error instanceof SyntaxError ? "Invalid JSON" : error.message
+      );
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  const address = httpServer.address();
+  const port =
+    address && typeof address === "object" ? address.port : options.port;
+  if (isLoopback(options.host)) {
+    allowedHosts = ["127.0.0.1", "localhost", "[::1]"].map(
+      (host) => `${host}:${port}`
+    );
+  }
+
+  // Clients that go away without closing their session would otherwise keep it open for good
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.lastActive >= cutoff) continue;
+      sessions.delete(id);
+      logger.info("Closing idle HTTP session", { sessionId: id });
+      session.server.close().catch((error) => {
+        logger.warn("Failed to close idle HTTP session", { error });
+      });
+    }
+  }, Math.min(options.sessionIdleMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  return {
+    url: `http://${options.host}:${port}`,
+    async close() {
+      clearInterval(sweep);
+      for (const session of [...sessions.values()]) {
+        await session.server.close();
+      }
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -1,8 +1,9 @@
 #!/usr/bin/env node
+import { logger } from "./logger.js";
 import { start } from "./server.js";
 
-// Start the MCP server
-start().catch((error) => {
-  console.error("Failed to start Jira MCP server:", error);
+// Start the MCP server; --transport http (or MCP_TRANSPORT=http) serves it over HTTP instead of stdio
+start(process.argv.slice(2)).catch((error) => {
+  logger.error("Failed to start Jira MCP server", { error });
   process.exit(1);
 });
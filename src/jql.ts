@@ -0,0 +1,144 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Building blocks for composing JQL safely: values are always quoted and escaped, and
+// clauses are combined with ORDER BY hoisted to the end of the query.
+
+export interface SearchFilters {
+  project?: string | string[];
+  status?: string | string[];
+  issueType?: string | string[];
+  // Account ID / username, or "currentUser" / "unassigned"
+  assignee?: string;
+  labels?: string[];
+  // YYYY-MM-DD, "YYYY-MM-DD HH:mm" or a relative period such as "-7d"
+  updatedSince?: string;
+  text?: string;
+  // Sprint ID, sprint name, or "open" for the open sprints
+  sprint?: number | string;
+  jql?: string;
+  orderBy?: string;
+}
+
+const RELATIVE_PERIOD = /^-?\d+[wdhm]$/i;
+const DATE = /^\d{4}[-/]\d{2}[-/]\d{2}( \d{2}:\d{2})?$/;
+
+// Quote a value as a JQL string literal
+export function quoteJql(value: string | number): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function list(values: string | string[]): string[] {
+  return (Array.isArray(values) ? values : [values]).filter(
+    (value) => value !== ""
+  );
+}
+
+// field = "value" for one value, field in ("a", "b") for several. Without any value the clause
+// cannot be written, and leaving it out would widen the search, so that is an error.
+export function jqlIn(field: string, values: string | string[]): string {
+  const items = list(values);
+  if (items.length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No value given for ${field}; pass at least one non-empty value or leave the filter out.`
+    );
+  }
+  if (items.length === 1) return `${field} = ${quoteJql(items[0])}`;
+  return `${field} in (${items.map(quoteJql).join(", ")})`;
+}
+
+// Split a query into its condition and its ORDER BY part, ignoring quoted text and parentheses
+export function splitOrderBy(jql: string): { where: string; orderBy?: string } {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < jql.length; i++) {
+    const ch = jql[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = undefined;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (
+      depth === 0 &&
+      /^order\s+by\b/i.test(jql.slice(i)) &&
+      (i === 0 || /\s|\)/.test(jql[i - 1]))
+    ) {
+      const orderBy = jql
+        .slice(i)
+        .replace(/^order\s+by\s*/i, "")
+        .trim();
+      return { where: jql.slice(0, i).trim(), orderBy: orderBy || undefined };
+    }
+  }
+  return { where: jql.trim() };
+}
+
+// AND clauses together; each ORDER BY is moved out of its clause and the last one wins
+export function andJql(...clauses: (string | undefined)[]): string {
+  const conditions: string[] = [];
+  let orderBy: string | undefined;
+  for (const clause of clauses) {
+    if (!clause?.trim()) continue;
+    const split = splitOrderBy(clause);
+    if (split.where) conditions.push(split.where);
+    if (split.orderBy) orderBy = split.orderBy;
+  }
+  const where =
+    conditions.length === 1
+      ? conditions[0]
+      : conditions.map((condition) => `(${condition})`).join(" AND ");
+  return [where, orderBy && `ORDER BY ${orderBy}`].filter(Boolean).join(" ");
+}
+
+function assigneeClause(assignee: string): string {
+  const value = assignee.trim();
+  if (value.toLowerCase() === "unassigned") return "assignee is EMPTY";
+  if (/^currentuser(\(\))?$/i.test(value)) return "assignee = currentUser()";
+  return `assignee = ${quoteJql(value)}`;
+}
+
+function updatedSinceClause(since: string): string {
+  const value = since.trim();
+  if (RELATIVE_PERIOD.test(value)) {
+    return `updated >= ${value.startsWith("-") ? value : `-${value}`}`;
+  }
+  if (DATE.test(value)) return `updated >= ${quoteJql(value)}`;
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `updatedSince must be a date (YYYY-MM-DD or "YYYY-MM-DD HH:mm") or a relative period such as "-7d", got "${since}".`
+  );
+}
+
+function sprintClause(sprint: number | string): string {
+  if (typeof sprint === "number" || /^\d+$/.test(sprint)) {
+    return `sprint = ${Number(sprint)}`;
+  }
+  if (sprint.trim().toLowerCase() === "open") return "sprint in openSprints()";
+  return `sprint = ${quoteJql(sprint)}`;
+}
+
+// Turn structured search filters into JQL
+export function buildSearchJql(filters: SearchFilters): string {
+  const clauses: string[] = [];
+  if (filters.project?.length) clauses.push(jqlIn("project", filters.project));
+  if (filters.issueType?.length) {
+    clauses.push(jqlIn("issuetype", filters.issueType));
+  }
+  if (filters.status?.length) clauses.push(jqlIn("status", filters.status));
+  if (filters.assignee) clauses.push(assigneeClause(filters.assignee));
+  for (const label of filters.labels ?? []) {
+    clauses.push(`labels = ${quoteJql(label)}`);
+  }
+  if (filters.updatedSince) {
+    clauses.push(updatedSinceClause(filters.updatedSince));
+  }
+  if (filters.text) clauses.push(`text ~ ${quoteJql(filters.text)}`);
+  if (filters.sprint !== undefined) clauses.push(sprintClause(filters.sprint));
+
+  const jql = andJql(clauses.join(" AND "), filters.jql);
+  if (!filters.orderBy) return jql;
+  return `${splitOrderBy(jql).where} ORDER BY ${filters.orderBy}`.trim();
+}
@@ -0,0 +1,70 @@
+import { deepPruneEmpty } from "./sanitize.js";
+
+// Issue link types and links. A link type such as Blocks reads one way from each end: the
+// outward issue "blocks" and the inward issue "is blocked by". Tools accept either phrase.
+
+export interface LinkTypeMatch {
+  // The link type to send to Jira, by name
+  name: string;
+  // True when the inward phrase was given, so the two issues swap sides
+  reversed: boolean;
+}
+
+// Match a link type by id, name, or its outward or inward description (case-insensitive)
+export function findLinkType(
+  linkTypes: any[],
+  ref: string
+): LinkTypeMatch | undefined {
+  const wanted = ref.trim().toLowerCase();
+  const byOutward = linkTypes.find(
+    (t) =>
+      t.id === ref ||
+      t.name?.toLowerCase() === wanted ||
+      t.outward?.toLowerCase() === wanted
+  );
+  if (byOutward) return { name: byOutward.name, reversed: false };
+  const byInward = linkTypes.find((t) => t.inward?.toLowerCase() === wanted);
+  return byInward ? { name: byInward.name, reversed: true } : undefined;
+}
+
+export function describeLinkTypes(linkTypes: any[]): string {
+  return linkTypes
+    .map((t) => `"${t.name}" (${t.outward} / ${t.inward})`)
+    .join(", ");
+}
+
+function linkedIssue(issue: any): any {
+  return deepPruneEmpty({
+    key: issue.key,
+    summary: issue.fields?.summary,
+    status: issue.fields?.status?.name,
+    issueType: issue.fields?.issuetype?.name,
+  });
+}
+
+// A link from the issuelinks field of one issue, read from that issue: "PROJ-1 blocks PROJ-2"
+export function describeIssueLink(issueKey: string, link: any): any {
+  const outward = Boolean(link.outwardIssue);
+  const other = outward ? link.outwardIssue : link.inwardIssue;
+  const relation = outward ? link.type?.outward : link.type?.inward;
+  return deepPruneEmpty({
+    id: link.id,
+    type: link.type?.name,
+    direction: outward ? "outward" : "inward",
+    relation,
+    issue: linkedIssue(other ?? {}),
+    text: `${issueKey} ${relation} ${other?.key}`,
+  });
+}
+
+export function sanitizeRemoteLink(link: any): any {
+  return deepPruneEmpty({
+    id: link.id,
+    globalId: link.globalId,
+    relationship: link.relationship,
+    title: link.object?.title,
+    url: link.object?.url,
+    summary: link.object?.summary,
+    application: link.application?.name,
+  });
+}
@@ -0,0 +1,223 @@
+import { createWriteStream, WriteStream } from "node:fs";
+
+// Structured logging. Records go to stderr (stdout carries the stdio transport), optionally to a
+// file, and to any registered sinks such as MCP logging notifications. Credentials are always
+// redacted; personal data (emails, names, account ids, issue text) is redacted unless disabled.
+
+// MCP logging levels, lowest first
+export const LOG_LEVELS = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: "text" | "json";
+  file?: string;
+  redactPersonalData: boolean;
+  // Level forwarded to MCP clients until they choose one with logging/setLevel
+  clientLevel: LogLevel;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export const DEFAULT_LOGGER_OPTIONS: LoggerOptions = {
+  level: "info",
+  format: "text",
+  redactPersonalData: true,
+  clientLevel: "info",
+};
+
+const REDACTED = "[REDACTED]";
+const SECRET_KEYS =
+  /token|secret|password|passwd|authorization|api[-_]?key|cookie|credential/i;
+const PERSONAL_KEYS =
+  /^(email|emailAddress|displayName|accountId|assignee|reporter|author|user|username)$/i;
+// Free text written by people
+const TEXT_KEYS = /^(summary|description|body|comment|text|content)$/i;
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  // Atlassian API tokens
+  [/\bATATT[A-Za-z0-9_=-]+/g, REDACTED],
+];
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+export function isAtLeast(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+function levelFromEnv(name: string, value: string | undefined): LogLevel {
+  const level = value?.toLowerCase() === "warn" ? "warning" : value;
+  if (!isLogLevel(level)) {
+    throw new Error(`${name} must be one of ${LOG_LEVELS.join(", ")}.`);
+  }
+  return level;
+}
+
+export function loggerOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): LoggerOptions {
+  const format = env.JIRA_LOG_FORMAT?.toLowerCase() || "text";
+  if (format !== "text" && format !== "json") {
+    throw new Error('JIRA_LOG_FORMAT must be "text" or "json".');
+  }
+  return {
+    level: env.JIRA_LOG_LEVEL
+      ? levelFromEnv("JIRA_LOG_LEVEL", env.JIRA_LOG_LEVEL)
+      : DEFAULT_LOGGER_OPTIONS.level,
+    format,
+    file: env.JIRA_LOG_FILE || undefined,
+    redactPersonalData: env.JIRA_LOG_REDACT_PERSONAL_DATA !== "false",
+    clientLevel: env.JIRA_LOG_CLIENT_LEVEL
+      ? levelFromEnv("JIRA_LOG_CLIENT_LEVEL", env.JIRA_LOG_CLIENT_LEVEL)
+      : DEFAULT_LOGGER_OPTIONS.clientLevel,
+  };
+}
+
+function redactString(value: string, personal: boolean): string {
+  let out = value;
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    out = out.replace(pattern, replacement);
+  }
+  return personal ? out.replace(EMAIL, "[email]") : out;
+}
+
+// Errors carry request configs with auth headers; keep only what explains the failure
+function errorFields(error: any): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    status: error.status ?? error.response?.status,
+    code: error.code,
+    stack: error.stack,
+  };
+}
+
+// Copy of value with credentials (and optionally personal data) replaced
+export function redact(
+  value: unknown,
+  redactPersonalData = true,
+  depth = 0
+): unknown {
+  if (typeof value === "string") return redactString(value, redactPersonalData);
+  if (value === null || typeof value !== "object") return value;
+  if (depth > 8) return "[...]";
+  if (value instanceof Error) {
+    return redact(errorFields(value), redactPersonalData, depth + 1);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, redactPersonalData, depth + 1));
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value)) {
+    if (nested === undefined) continue;
+    if (SECRET_KEYS.test(key)) {
+      out[key] = REDACTED;
+    } else if (redactPersonalData && PERSONAL_KEYS.test(key)) {
+      out[key] = REDACTED;
+    } else if (
+      redactPersonalData &&
+      TEXT_KEYS.test(key) &&
+      typeof nested === "string"
+    ) {
+      out[key] = `[${nested.length} chars]`;
+    } else {
+      out[key] = redact(nested, redactPersonalData, depth + 1);
+    }
+  }
+  return out;
+}
+
+export function formatRecord(
+  record: LogRecord,
+  format: LoggerOptions["format"]
+): string {
+  if (format === "json") return JSON.stringify(record);
+  const { time, level, message, ...data } = record;
+  const details =
+    Object.keys(data).length > 0 ? ` ${JSON.stringify(data)}` : "";
+  return `${time} ${level.toUpperCase()} ${message}${details}`;
+}
+
+export function createLogger(
+  initial: LoggerOptions = DEFAULT_LOGGER_OPTIONS,
+  write: (line: string) => void = (line) => process.stderr.write(`${line}\n`)
+) {
+  let options = initial;
+  let file: WriteStream | undefined;
+  const sinks = new Set<LogSink>();
+
+  function log(level: LogLevel, message: string, data?: object) {
+    const record = {
+      ...(redact(data ?? {}, options.redactPersonalData) as object),
+      time: new Date().toISOString(),
+      level,
+      message: redactString(message, options.redactPersonalData),
+    } as LogRecord;
+
+    if (isAtLeast(level, options.level)) {
+      const line = formatRecord(record, options.format);
+      write(line);
+      file?.write(`${line}\n`);
+    }
+    for (const sink of sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must not break the caller
+      }
+    }
+  }
+
+  return {
+    debug: (message: string, data?: object) => log("debug", message, data),
+    info: (message: string, data?: object) => log("info", message, data),
+    warn: (message: string, data?: object) => log("warning", message, data),
+    error: (message: string, data?: object) => log("error", message, data),
+    log,
+    get options() {
+      return options;
+    },
+    configure(next: LoggerOptions) {
+      if (next.file !== options.file || !file) {
+        file?.end();
+        const path = next.file;
+        file = path
+          ? createWriteStream(path, { flags: "a" }).on("error", (error) =>
+              write(`Failed to write log file ${path}: ${error.message}`)
+            )
+          : undefined;
+      }
+      options = next;
+    },
+    addSink(sink: LogSink): () => void {
+      sinks.add(sink);
+      return () => sinks.delete(sink);
+    },
+  };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
+
+// Shared by all modules; start() configures it from the environment
+export const logger = createLogger();
@@ -0,0 +1,904 @@
+// Conversion between the Markdown that assistants write and the two rich-text formats Jira
+// understands: wiki markup (REST API v2) and Atlassian Document Format (REST API v3).
+
+export type MarkupFormat = "markdown" | "wiki" | "adf";
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: AdfNode[];
+  marks?: { type: string; attrs?: Record<string, any> }[];
+  text?: string;
+}
+
+export interface AdfDocument extends AdfNode {
+  type: "doc";
+  version: 1;
+  content: AdfNode[];
+}
+
+// --- Markdown parsing ---
+type Inline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "strike"; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: Inline[] }
+  | { type: "image"; src: string; alt: string }
+  | { type: "break" };
+
+type Block =
+  | { type: "heading"; level: number; content: Inline[] }
+  | { type: "paragraph"; content: Inline[] }
+  | { type: "code"; language?: string; text: string }
+  | { type: "quote"; children: Block[] }
+  | { type: "list"; ordered: boolean; items: Block[][] }
+  | { type: "rule" }
+  | { type: "table"; header: Inline[][]; rows: Inline[][][] };
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_RE.test(line) ||
+    HEADING_RE.test(line) ||
+    RULE_RE.test(line) ||
+    QUOTE_RE.test(line) ||
+    LIST_ITEM_RE.test(line)
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = "";
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      current += "|";
+      i++;
+    } else if (row[i] === "|") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseList(
+  lines: string[],
+  start: number
+): { block: Block; next: number } {
+  const first = LIST_ITEM_RE.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: { lines: string[]; contentIndent: number }[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM_RE.exec(line);
+    const leading = line.length - line.trimStart().length;
+
+    if (isBlank(line)) {
+      // A blank line only continues the list if more indented content or a sibling item follows
+      let j = i + 1;
+      while (j < lines.length && isBlank(lines[j])) j++;
+      if (j >= lines.length) break;
+      const nextLeading = lines[j].length - lines[j].trimStart().length;
+      const sibling = LIST_ITEM_RE.exec(lines[j]);
+      const continues =
+        nextLeading > indent ||
+        (sibling !== null &&
+          sibling[1].length === indent &&
+          /\d/.test(sibling[2]) === ordered);
+      if (!continues) break;
+      items[items.length - 1].lines.push("");
+      i++;
+      continue;
+    }
+
+    if (item && item[1].length === indent) {
+      if (/\d/.test(item[2]) !== ordered) break;
+      items.push({
+        lines: [item[3]],
+        contentIndent: indent + item[2].length + 1,
+      });
+      i++;
+      continue;
+    }
+
+    if (leading > indent) {
+      const current = items[items.length - 1];
+      current.lines.push(line.slice(Math.min(leading, current.contentIndent)));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the previous item's paragraph
+    if (!startsBlock(line) && leading <= indent && !item) {
+      const current = items[items.length - 1];
+      if (!isBlank(current.lines[current.lines.length - 1])) {
+        current.lines.push(line.trim());
+        i++;
+        continue;
+      }
+    }
+    break;
+  }
+
+  return {
+    block: {
+      type: "list",
+      ordered,
+      items: items.map((item) => parseBlocks(item.lines)),
+    },
+    next: i,
+  };
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({
+        type: "code",
+        language: fence[2] || undefined,
+        text: body.join("\n"),
+      });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        content: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE_RE.test(lines[i])) {
+        body.push(QUOTE_RE.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseBlocks(body) });
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    if (
+      line.includes("|") &&
+      i + 1 < lines.length &&
+      TABLE_SEPARATOR_RE.test(lines[i + 1]) &&
+      lines[i + 1].includes("-")
+    ) {
+      const header = splitTableRow(line).map(parseInline);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes("|")) {
+        rows.push(splitTableRow(lines[i]).map(parseInline));
+        i++;
+      }
+      blocks.push({ type: "table", header, rows });
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({
+      type: "paragraph",
+      content: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+}
+
+const INLINE_PATTERNS: {
+  re: RegExp;
+  build: (m: RegExpExecArray) => Inline;
+}[] = [
+  {
+    re: /^(`+)([\s\S]*?[^`])\1(?!`)/,
+    build: (m) => ({ type: "code", text: m[2].replace(/^ ([\s\S]*) $/, "$1") }),
+  },
+  {
+    re: /^!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/,
+    build: (m) => ({ type: "image", alt: m[1], src: m[2] }),
+  },
+  {
+    re: /^\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/,
+    build: (m) => ({ type: "link", href: m[2], children: parseInline(m[1]) }),
+  },
+  {
+    re: /^<((?:https?|mailto):[^>\s]+)>/,
+    build: (m) => ({
+      type: "link",
+      href: m[1],
+      children: [{ type: "text", text: m[1] }],
+    }),
+  },
+  {
+    re: /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/,
+    build: (m) => ({ type: "strong", children: parseInline(m[2]) }),
+  },
+  {
+    re: /^~~(?=\S)([\s\S]*?\S)~~/,
+    build: (m) => ({ type: "strike", children: parseInline(m[1]) }),
+  },
+  {
+    re: /^\*(?=[^\s*])([\s\S]*?[^\s*])\*(?!\*)/,
+    build: (m) => ({ type: "em", children: parseInline(m[1]) }),
+  },
+  {
+    re: /^_(?=\S)([\s\S]*?\S)_(?![A-Za-z0-9])/,
+    build: (m) => ({ type: "em", children: parseInline(m[1]) }),
+  },
+];
+
+function parseInline(source: string): Inline[] {
+  const out: Inline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) out.push({ type: "text", text });
+    text = "";
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === "\\" && /[!-/:-@[-`{-~]/.test(source[i + 1] ?? "")) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\n") {
+      const hard = / {2,}$/.test(text) || text.endsWith("\\");
+      text = text.replace(/[ \\]+$/, "");
+      if (hard) {
+        flush();
+        out.push({ type: "break" });
+      } else {
+        text += " ";
+      }
+      i++;
+      continue;
+    }
+
+    // Underscore emphasis only opens at a word boundary, so snake_case stays text
+    const intraword = ch === "_" && /[A-Za-z0-9]/.test(source[i - 1] ?? "");
+    if ("`![<*_~".includes(ch) && !intraword) {
+      const rest = source.slice(i);
+      const match = INLINE_PATTERNS.map((p) => ({
+        p,
+        m: p.re.exec(rest),
+      })).find(({ m }) => m !== null);
+      if (match?.m) {
+        flush();
+        out.push(match.p.build(match.m));
+        i += match.m[0].length;
+        continue;
+      }
+    }
+
+    text += ch;
+    i++;
+  }
+  flush();
+  return out;
+}
+
+function parseMarkdown(markdown: string): Block[] {
+  return parseBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"));
+}
+
+// --- Markdown to wiki markup ---
+function escapeWiki(text: string): string {
+  return text.replace(/([{}[\]*_|])/g, "\\$1");
+}
+
+function inlineToWiki(nodes: Inline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeWiki(node.text);
+        case "strong":
+          return `*${inlineToWiki(node.children)}*`;
+        case "em":
+          return `_${inlineToWiki(node.children)}_`;
+        case "strike":
+          return `-${inlineToWiki(node.children)}-`;
+        case "code":
+          return `{{${node.text}}}`;
+        case "link": {
+          const label = inlineToWiki(node.children);
+          return label === escapeWiki(node.href)
+            ? `[${node.href}]`
+            : `[${label}|${node.href}]`;
+        }
+        case "image":
+          return `!${node.src}!`;
+        case "break":
+          return "\n";
+      }
+    })
+    .join("");
+}
+
+// Keep a paragraph that starts with "#" or "-" from turning into a wiki list or rule
+function escapeWikiLineStart(text: string): string {
+  return text.replace(/^([#-])/gm, "\\$1");
+}
+
+function listToWiki(
+  block: Extract<Block, { type: "list" }>,
+  prefix: string
+): string {
+  const marker = prefix + (block.ordered ? "#" : "*");
+  const lines: string[] = [];
+  for (const item of block.items) {
+    let first = true;
+    for (const child of item) {
+      if (child.type === "list") {
+        lines.push(listToWiki(child, marker));
+      } else if (
+        first &&
+        (child.type === "paragraph" || child.type === "heading")
+      ) {
+        lines.push(`${marker} ${inlineToWiki(child.content)}`);
+      } else {
+        lines.push(blocksToWiki([child]));
+      }
+      first = false;
+    }
+    if (item.length === 0) lines.push(`${marker} `);
+  }
+  return lines.join("\n");
+}
+
+function blocksToWiki(blocks: Block[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return `h${block.level}. ${inlineToWiki(block.content)}`;
+        case "paragraph":
+          return escapeWikiLineStart(inlineToWiki(block.content));
+        case "code":
+          return `{code${block.language ? `:${block.language}` : ""}}\n${
+            block.text
+          }\n{code}`;
+        case "quote":
+          return block.children.length === 1 &&
+            block.children[0].type === "paragraph"
+            ? `bq. ${inlineToWiki(block.children[0].content)}`
+            : `{quote}\n${blocksToWiki(block.children)}\n{quote}`;
+        case "list":
+          return listToWiki(block, "");
+        case "rule":
+          return "----";
+        case "table":
+          return [
+            `||${block.header.map(inlineToWiki).join("||")}||`,
+            ...block.rows.map((row) => `|${row.map(inlineToWiki).join("|")}|`),
+          ].join("\n");
+      }
+    })
+    .join("\n\n");
+}
+
+export function markdownToWiki(markdown: string): string {
+  return blocksToWiki(parseMarkdown(markdown));
+}
+
+// --- Markdown to ADF ---
+type AdfMark = NonNullable<AdfNode["marks"]>[number];
+
+function inlineToAdf(nodes: Inline[], marks: AdfMark[] = []): AdfNode[] {
+  const withMarks = (text: string, extra: AdfMark[]): AdfNode =>
+    extra.length
+      ? { type: "text", text, marks: extra }
+      : { type: "text", text };
+
+  return nodes.flatMap((node): AdfNode[] => {
+    switch (node.type) {
+      case "text":
+        return node.text ? [withMarks(node.text, marks)] : [];
+      case "strong":
+        return inlineToAdf(node.children, [...marks, { type: "strong" }]);
+      case "em":
+        return inlineToAdf(node.children, [...marks, { type: "em" }]);
+      case "strike":
+        return inlineToAdf(node.children, [...marks, { type: "strike" }]);
+      case "code":
+        // The code mark may only be combined with link
+        return node.text
+          ? [
+              withMarks(node.text, [
+                ...marks.filter((m) => m.type === "link"),
+                { type: "code" },
+              ]),
+            ]
+          : [];
+      case "link":
+        return inlineToAdf(node.children, [
+          ...marks,
+          { type: "link", attrs: { href: node.href } },
+        ]);
+      case "image":
+        // Inline images are not representable in ADF; keep them reachable as a link
+        return [
+          withMarks(node.alt || node.src, [
+            ...marks,
+            { type: "link", attrs: { href: node.src } },
+          ]),
+        ];
+      case "break":
+        return [{ type: "hardBreak" }];
+    }
+  });
+}
+
+function paragraphNode(content: Inline[]): AdfNode {
+  const inline = inlineToAdf(content);
+  return inline.length
+    ? { type: "paragraph", content: inline }
+    : { type: "paragraph" };
+}
+
+function blocksToAdf(blocks: Block[]): AdfNode[] {
+  return blocks.map((block): AdfNode => {
+    switch (block.type) {
+      case "heading":
+        return {
+          type: "heading",
+          attrs: { level: block.level },
+          content: inlineToAdf(block.content),
+        };
+      case "paragraph":
+        return paragraphNode(block.content);
+      case "code":
+        return {
+          type: "codeBlock",
+          ...(block.language ? { attrs: { language: block.language } } : {}),
+          ...(block.text
+            ? { content: [{ type: "text", text: block.text }] }
+            : {}),
+        };
+      case "quote":
+        return { type: "blockquote", content: blocksToAdf(block.children) };
+      case "list":
+        return {
+          type: block.ordered ? "orderedList" : "bulletList",
+          content: block.items.map((item) => {
+            // List items must start with a paragraph and cannot hold headings
+            const children = blocksToAdf(
+              item.map((child) =>
+                child.type === "heading"
+                  ? { type: "paragraph", content: child.content }
+                  : child
+              )
+            );
+            if (children[0]?.type !== "paragraph") {
+              children.unshift({ type: "paragraph" });
+            }
+            return { type: "listItem", content: children };
+          }),
+        };
+      case "rule":
+        return { type: "rule" };
+      case "table":
+        return {
+          type: "table",
+          content: [
+            {
+              type: "tableRow",
+              content: block.header.map((cell) => ({
+                type: "tableHeader",
+                content: [paragraphNode(cell)],
+              })),
+            },
+            ...block.rows.map((row) => ({
+              type: "tableRow",
+              content: row.map((cell) => ({
+                type: "tableCell",
+                content: [paragraphNode(cell)],
+              })),
+            })),
+          ],
+        };
+    }
+  });
+}
+
+export function markdownToAdf(markdown: string): AdfDocument {
+  return {
+    type: "doc",
+    version: 1,
+    content: blocksToAdf(parseMarkdown(markdown)),
+  };
+}
+
+// --- ADF to Markdown ---
+function adfInlineToMarkdown(nodes: AdfNode[] = []): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text": {
+          let text = node.text ?? "";
+          const marks = node.marks ?? [];
+          if (marks.some((m) => m.type === "code")) text = `\`${text}\``;
+          if (marks.some((m) => m.type === "em")) text = `*${text}*`;
+          if (marks.some((m) => m.type === "strong")) text = `**${text}**`;
+          if (marks.some((m) => m.type === "strike")) text = `~~${text}~~`;
+          const link = marks.find((m) => m.type === "link");
+          return link ? `[${text}](${link.attrs?.href})` : text;
+        }
+        case "hardBreak":
+          return "  \n";
+        case "mention":
+          return node.attrs?.text ?? `@${node.attrs?.id}`;
+        case "emoji":
+          return node.attrs?.text ?? node.attrs?.shortName ?? "";
+        case "inlineCard":
+          return `<${node.attrs?.url}>`;
+        case "status":
+          return `[${node.attrs?.text}]`;
+        case "date":
+          return new Date(Number(node.attrs?.timestamp))
+            .toISOString()
+            .slice(0, 10);
+        default:
+          return adfInlineToMarkdown(node.content);
+      }
+    })
+    .join("");
+}
+
+function indentLines(text: string, indent: string): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 || !line ? line : indent + line))
+    .join("\n");
+}
+
+function adfListToMarkdown(node: AdfNode): string {
+  const ordered = node.type === "orderedList";
+  let counter = node.attrs?.order ?? 1;
+  return (node.content ?? [])
+    .map((item) => {
+      let marker: string;
+      if (ordered) marker = `${counter++}.`;
+      else if (item.type === "taskItem")
+        marker = item.attrs?.state === "DONE" ? "- [x]" : "- [ ]";
+      else marker = "-";
+      const body =
+        item.type === "taskItem"
+          ? adfInlineToMarkdown(item.content)
+          : adfBlocksToMarkdown(item.content ?? [], "\n");
+      return `${marker} ${indentLines(body, " ".repeat(marker.length + 1))}`;
+    })
+    .join("\n");
+}
+
+function adfBlocksToMarkdown(nodes: AdfNode[], separator = "\n\n"): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "paragraph":
+          return adfInlineToMarkdown(node.content);
+        case "heading":
+          return `${"#".repeat(node.attrs?.level ?? 1)} ${adfInlineToMarkdown(
+            node.content
+          )}`;
+        case "bulletList":
+        case "orderedList":
+        case "taskList":
+          return adfListToMarkdown(node);
+        case "codeBlock":
+          return `\`\`\`${node.attrs?.language ?? ""}\n${adfInlineToMarkdown(
+            node.content
+          )}\n\`\`\``;
+        case "blockquote":
+        case "panel":
+          return adfBlocksToMarkdown(node.content ?? [])
+            .split("\n")
+            .map((line) => (line ? `> ${line}` : ">"))
+            .join("\n");
+        case "rule":
+          return "---";
+        case "table": {
+          const rows = (node.content ?? []).map((row) =>
+            (row.content ?? []).map((cell) =>
+              adfBlocksToMarkdown(cell.content ?? [], " ").replace(/\|/g, "\\|")
+            )
+          );
+          if (rows.length === 0) return "";
+          const [header, ...body] = rows;
+          return [
+            `| ${header.join(" | ")} |`,
+            `| ${header.map(() => "---").join(" | ")} |`,
+            ...body.map((row) => `| ${row.join(" | ")} |`),
+          ].join("\n");
+        }
+        case "expand":
+        case "nestedExpand":
+          return [
+            node.attrs?.title ? `**${node.attrs.title}**` : "",
+            adfBlocksToMarkdown(node.content ?? []),
+          ]
+            .filter(Boolean)
+            .join("\n\n");
+        case "mediaSingle":
+        case "mediaGroup":
+        case "media":
+          return "[attachment]";
+        default:
+          return node.content
+            ? adfBlocksToMarkdown(node.content)
+            : adfInlineToMarkdown([node]);
+      }
+    })
+    .filter((text) => text.length > 0)
+    .join(separator);
+}
+
+export function adfToMarkdown(doc: AdfNode): string {
+  return adfBlocksToMarkdown(doc.content ?? []);
+}
+
+// --- Wiki markup to Markdown ---
+function wikiInlineToMarkdown(text: string): string {
+  // Move code, links, images and bare URLs out of the way so formatting rules don't touch them
+  const held: string[] = [];
+  const hold = (value: string) => `\u0000${held.push(value) - 1}\u0000`;
+
+  let out = text
+    .replace(/\{\{([\s\S]*?)\}\}/g, (_, code) => hold(`\`${code}\``))
+    .replace(/!([^!\s|]+)(?:\|[^!]*)?!/g, (_, src) => hold(`![](${src})`))
+    .replace(/\[([^\]|]*)\|([^\]]+)\]/g, (_, label, href) =>
+      hold(`[${wikiInlineToMarkdown(label)}](${href})`)
+    )
+    .replace(/\[~([^\]]+)\]/g, (_, user) => hold(`@${user}`))
+    .replace(/\[((?:https?|mailto):[^\]]+)\]/g, (_, href) => hold(`<${href}>`))
+    .replace(/(?:https?|mailto):[^\s\]|]+/g, (url) => hold(url));
+
+  out = out
+    .replace(/\{color(?::[^}]*)?\}/g, "")
+    .replace(/(^|[^\w*\\])\*(?=\S)([^*\n]*?\S)\*(?=$|[^\w*])/g, "$1**$2**")
+    .replace(/(^|[^\w\\])_(?=\S)([^_\n]*?\S)_(?=$|\W)/g, "$1*$2*")
+    .replace(
+      /(^|[\s(])-(?=[^\s-])([^\n]*?[^\s-])-(?=$|[\s).,;:!?])/g,
+      "$1~~$2~~"
+    )
+    .replace(/(^|\W)\+(?=\S)([^+\n]*?\S)\+(?=$|\W)/g, "$1$2")
+    .replace(/(^|\W)\?\?(?=\S)([^\n]*?\S)\?\?(?=$|\W)/g, "$1*$2*")
+    .replace(/\\\\/g, "  \n");
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, index) => held[Number(index)]);
+}
+
+function splitWikiRow(row: string, separator: string): string[] {
+  // Cell separators inside [link|url] or {macro|param} are not cell boundaries
+  const cells: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === "[" || ch === "{") depth++;
+    if ((ch === "]" || ch === "}") && depth > 0) depth--;
+    if (depth === 0 && row.startsWith(separator, i)) {
+      cells.push(current);
+      current = "";
+      i += separator.length - 1;
+      continue;
+    }
+    current += ch;
+  }
+  cells.push(current);
+  return cells.slice(1, current.trim() ? undefined : -1).map((c) => c.trim());
+}
+
+function codeLanguage(params: string | undefined): string {
+  if (!params) return "";
+  const language = /(?:^|\|)language=([^|]+)/.exec(params);
+  if (language) return language[1];
+  return params.includes("=") ? "" : params.split("|")[0];
+}
+
+export function wikiToMarkdown(wiki: string): string {
+  const lines = wiki.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  let inQuote = false;
+  let inTable = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    const code = /^\{(code|noformat)(?::([^}]*))?\}(.*)$/.exec(trimmed);
+    if (code) {
+      const closing = `{${code[1]}}`;
+      const body: string[] = [];
+      let rest = code[3];
+      while (true) {
+        const end = rest.indexOf(closing);
+        if (end >= 0) {
+          if (rest.slice(0, end)) body.push(rest.slice(0, end));
+          break;
+        }
+        if (rest) body.push(rest);
+        i++;
+        if (i >= lines.length) break;
+        rest = lines[i];
+      }
+      out.push(
+        `\`\`\`${code[1] === "code" ? codeLanguage(code[2]) : ""}`,
+        ...body,
+        "```"
+      );
+      inTable = false;
+      continue;
+    }
+
+    if (trimmed.includes("{quote}")) {
+      // Each {quote} marker toggles the quote state for whatever follows it on the line
+      trimmed.split("{quote}").forEach((part, index) => {
+        if (index > 0) inQuote = !inQuote;
+        if (part.trim()) {
+          const text = wikiInlineToMarkdown(part.trim());
+          out.push(inQuote ? `> ${text}` : text);
+        }
+      });
+      continue;
+    }
+    if (/^\{panel(?::[^}]*)?\}$/.test(trimmed)) continue;
+
+    let converted: string;
+    const heading = /^h([1-6])\.\s+(.*)$/.exec(trimmed);
+    const quote = /^bq\.\s+(.*)$/.exec(trimmed);
+    const list = /^([*#-]+)\s+(.*)$/.exec(trimmed);
+
+    if (heading) {
+      converted = `${"#".repeat(Number(heading[1]))} ${wikiInlineToMarkdown(
+        heading[2]
+      )}`;
+    } else if (quote) {
+      converted = `> ${wikiInlineToMarkdown(quote[1])}`;
+    } else if (/^-{4,}$/.test(trimmed)) {
+      converted = "---";
+    } else if (list && !(list[1].length > 1 && list[1].includes("-"))) {
+      const markers = list[1];
+      let indent = "";
+      for (const parent of markers.slice(0, -1)) {
+        indent += parent === "#" ? "   " : "  ";
+      }
+      const bullet = markers.endsWith("#") ? "1." : "-";
+      converted = `${indent}${bullet} ${wikiInlineToMarkdown(list[2])}`;
+    } else if (trimmed.startsWith("||")) {
+      const cells = splitWikiRow(trimmed, "||").map(wikiInlineToMarkdown);
+      converted = `| ${cells.join(" | ")} |\n| ${cells
+        .map(() => "---")
+        .join(" | ")} |`;
+      inTable = true;
+    } else if (trimmed.startsWith("|")) {
+      const cells = splitWikiRow(trimmed, "|").map(wikiInlineToMarkdown);
+      // Markdown tables need a header row; synthesize an empty one for header-less wiki tables
+      converted = inTable
+        ? `| ${cells.join(" | ")} |`
+        : `| ${cells.map(() => " ").join(" | ")} |\n| ${cells
+            .map(() => "---")
+            .join(" | ")} |\n| ${cells.join(" | ")} |`;
+      inTable = true;
+    } else {
+      converted = wikiInlineToMarkdown(line);
+    }
+
+    if (!trimmed.startsWith("|")) inTable = false;
+    out.push(inQuote ? `> ${converted}` : converted);
+  }
+
+  return out.join("\n");
+}
+
+// --- Entry points used by the tools ---
+
+// Convert text supplied by a tool caller into the representation Jira expects.
+// "markdown" targets the v2 API (wiki markup), "adf" targets the v3 API and also accepts
+// a serialized ADF document, "wiki" is passed through untouched.
+export function toJiraRichText(text: string, format: "adf"): AdfDocument;
+export function toJiraRichText(
+  text: string,
+  format?: Exclude<MarkupFormat, "adf">
+): string;
+export function toJiraRichText(
+  text: string,
+  format?: MarkupFormat
+): string | AdfDocument;
+export function toJiraRichText(
+  text: string,
+  format: MarkupFormat = "markdown"
+): string | AdfDocument {
+  switch (format) {
+    case "wiki":
+      return text;
+    case "adf": {
+      const trimmed = text.trim();
+      if (trimmed.startsWith("{")) {
+        try {
+          const parsed = JSON.parse(trimmed);
+          if (parsed?.type === "doc") return parsed;
+        } catch {
+          // Not JSON; treat as Markdown
+        }
+      }
+      return markdownToAdf(text);
+    }
+    default:
+      return markdownToWiki(text);
+  }
+}
+
+// Render a description or comment body returned by Jira (wiki string or ADF document) as Markdown
+export function toMarkdown(value: string): string;
+export function toMarkdown(value: unknown): unknown;
+export function toMarkdown(value: unknown): unknown {
+  if (typeof value === "string") return wikiToMarkdown(value);
+  if (value && typeof value === "object" && (value as AdfNode).type === "doc") {
+    return adfToMarkdown(value as AdfNode);
+  }
+  return value;
+}
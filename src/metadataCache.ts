@@ -0,0 +1,81 @@
+// In-process cache for Jira metadata that rarely changes (priorities, issue types, fields,
+// project components). Entries expire after a TTL and can be invalidated explicitly.
+
+const DEFAULT_TTL_SECONDS = 300;
+
+interface CacheEntry {
+  value: Promise<any>;
+  expiresAt: number;
+}
+
+export interface MetadataCache {
+  // Return the cached value for key, loading it when missing or expired
+  get<T>(key: string, loader: () => Promise<T>): Promise<T>;
+  // Find an item in a cached list; on a miss the list is reloaded once in case it is stale
+  find<T>(
+    key: string,
+    loader: () => Promise<T[]>,
+    match: (item: T) => boolean
+  ): Promise<T | undefined>;
+  // Drop one key, every key starting with "prefix:", or everything when no key is given
+  invalidate(key?: string): void;
+  keys(): string[];
+}
+
+export function metadataTtlFromEnv(): number {
+  const raw = process.env.JIRA_METADATA_TTL_SECONDS;
+  const seconds = raw === undefined ? DEFAULT_TTL_SECONDS : Number(raw);
+  return Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : DEFAULT_TTL_SECONDS * 1000;
+}
+
+export function createMetadataCache(
+  ttlMs: number = DEFAULT_TTL_SECONDS * 1000
+): MetadataCache {
+  const entries = new Map<string, CacheEntry>();
+
+  function load<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const value = loader();
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    // Never cache failures
+    value.catch(() => {
+      if (entries.get(key)?.value === value) entries.delete(key);
+    });
+    return value;
+  }
+
+  function get<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) return entry.value;
+    return load(key, loader);
+  }
+
+  return {
+    get,
+
+    async find(key, loader, match) {
+      const entry = entries.get(key);
+      const fresh = !entry || entry.expiresAt <= Date.now();
+      const found = (await get(key, loader)).find(match);
+      if (found !== undefined || fresh) return found;
+      return (await load(key, loader)).find(match);
+    },
+
+    invalidate(key) {
+      if (key === undefined) {
+        entries.clear();
+        return;
+      }
+      for (const existing of [...entries.keys()]) {
+        if (existing === key || existing.startsWith(`${key}:`)) {
+          entries.delete(existing);
+        }
+      }
+    },
+
+    keys() {
+      return [...entries.keys()];
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Which tools an agent may see and call: a global read-only switch, allow/deny lists by
+// tool name, a list of projects writes are limited to, and confirmation of destructive tools.
+// Configured with a JSON file (JIRA_POLICY_FILE) and/or environment variables, env winning.
+
+export type ToolAccess = "read" | "write" | "destructive";
+
+export interface ToolPolicy {
+  readOnly: boolean;
+  allowedTools?: string[];
+  deniedTools: string[];
+  // Upper-case project keys; undefined means writes are allowed in every project
+  writeProjects?: string[];
+  confirmDestructive: boolean;
+}
+
+export const DEFAULT_POLICY: ToolPolicy = {
+  readOnly: false,
+  deniedTools: [],
+  confirmDestructive: true,
+};
+
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const items = Array.isArray(value) ? value : String(value).split(",");
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+function parseBoolean(value: unknown, name: string): boolean | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "boolean") return value;
+  const text = String(value).trim().toLowerCase();
+  if (["true", "1", "yes", "on"].includes(text)) return true;
+  if (["false", "0", "no", "off"].includes(text)) return false;
+  throw new Error(`${name} must be true or false, got "${value}".`);
+}
+
+export function loadPolicy(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+  let file: Record<string, unknown> = {};
+  if (env.JIRA_POLICY_FILE) {
+    try {
+      file = JSON.parse(readFileSync(env.JIRA_POLICY_FILE, "utf8"));
+    } catch (error: any) {
+      throw new Error(
+        `Failed to read policy file ${env.JIRA_POLICY_FILE}: ${error.message}`
+      );
+    }
+  }
+
+  const writeProjects =
+    parseList(env.JIRA_WRITE_PROJECTS) ?? parseList(file.writeProjects);
+  return {
+    readOnly:
+      parseBoolean(env.JIRA_READ_ONLY, "JIRA_READ_ONLY") ??
+      parseBoolean(file.readOnly, "readOnly") ??
+      DEFAULT_POLICY.readOnly,
+    allowedTools:
+      parseList(env.JIRA_ALLOWED_TOOLS) ?? parseList(file.allowedTools),
+    deniedTools: parseList(env.JIRA_DENIED_TOOLS) ??
+      parseList(file.deniedTools) ?? [...DEFAULT_POLICY.deniedTools],
+    writeProjects: writeProjects?.map((key) => key.toUpperCase()),
+    confirmDestructive:
+      parseBoolean(env.JIRA_CONFIRM_DESTRUCTIVE, "JIRA_CONFIRM_DESTRUCTIVE") ??
+      parseBoolean(file.confirmDestructive, "confirmDestructive") ??
+      DEFAULT_POLICY.confirmDestructive,
+  };
+}
+
+export function isToolEnabled(
+  policy: ToolPolicy,
+  name: string,
+  access: ToolAccess
+): boolean {
+  if (policy.deniedTools.includes(name)) return false;
+  if (policy.allowedTools && !policy.allowedTools.includes(name)) return false;
+  return !(policy.readOnly && access !== "read");
+}
+
+export function assertToolEnabled(
+  policy: ToolPolicy,
+  name: string,
+  access: ToolAccess
+): void {
+  if (isToolEnabled(policy, name, access)) return;
+  const reason =
+    policy.readOnly && access !== "read"
+      ? "the server is in read-only mode"
+      : "it is disabled by the tool policy";
+  throw new McpError(
+    ErrorCode.InvalidRequest,
+    `Tool "${name}" is not available: ${reason}.`
+  );
+}
+
+// projectKeys is undefined when the target project could not be determined
+export function assertWriteAllowed(
+  policy: ToolPolicy,
+  name: string,
+  projectKeys: string[] | undefined
+): void {
+  if (!policy.writeProjects) return;
+  if (!projectKeys || projectKeys.length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Tool "${name}" is not allowed: could not determine the target project, and writes are limited to ${policy.writeProjects.join(
+        ", "
+      )}.`
+    );
+  }
+  const blocked = [
+    ...new Set(
+      projectKeys
+        .map((key) => key.toUpperCase())
+        .filter((key) => !policy.writeProjects!.includes(key))
+    ),
+  ];
+  if (blocked.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Tool "${name}" is not allowed in project ${blocked.join(
+        ", "
+      )}; writes are limited to ${policy.writeProjects.join(", ")}.`
+    );
+  }
+}
+
+// Project key of an issue key such as "PROJ-123"; undefined for numeric issue ids
+export function projectKeyOf(issueKey: string): string | undefined {
+  const match = /^([A-Za-z][A-Za-z0-9_]*)-\d+$/.exec(issueKey.trim());
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+function fingerprint(tool: string, args: Record<string, unknown>): string {
+  const { confirmToken, ...rest } = args;
+  const sorted = Object.keys(rest)
+    .sort()
+    .map((key) => [key, rest[key]]);
+  return `${tool}:${JSON.stringify(sorted)}`;
+}
+
+// Single-use tokens handed out by a preview call and required to run a destructive tool
+export function createConfirmationStore(ttlMs: number = CONFIRMATION_TTL_MS) {
+  const pending = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  function prune(now: number) {
+    for (const [token, entry] of pending) {
+      if (entry.expiresAt <= now) pending.delete(token);
+    }
+  }
+
+  return {
+    issue(tool: string, args: Record<string, unknown>): string {
+      prune(Date.now());
+      const token = randomUUID();
+      pending.set(token, {
+        fingerprint: fingerprint(tool, args),
+        expiresAt: Date.now() + ttlMs,
+      });
+      return token;
+    },
+
+    // True when the token was issued for exactly this tool call and has not expired
+    consume(token: string, tool: string, args: Record<string, unknown>) {
+      prune(Date.now());
+      const entry = pending.get(token);
+      if (!entry || entry.fingerprint !== fingerprint(tool, args)) return false;
+      pending.delete(token);
+      return true;
+    },
+
+    ttlSeconds: Math.round(ttlMs / 1000),
+  };
+}
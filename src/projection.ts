@@ -0,0 +1,154 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { FieldDefinition } from "./customFields.js";
+
+// Field projection for issue responses. A view (or an explicit field list) decides which fields
+// are requested from Jira, and the minimal/standard views also flatten nested values such as
+// users, statuses and options to the parts worth reading.
+
+export type IssueView = "minimal" | "standard" | "full";
+
+export const VIEW_FIELDS: Record<Exclude<IssueView, "full">, string[]> = {
+  minimal: [
+    "summary",
+    "status",
+    "issuetype",
+    "priority",
+    "assignee",
+    "updated",
+  ],
+  standard: [
+    "summary",
+    "description",
+    "status",
+    "assignee",
+    "reporter",
+    "issuetype",
+    "priority",
+    "labels",
+    "components",
+    "created",
+    "updated",
+    "fixVersions",
+    "resolution",
+    "resolutiondate",
+    "parent",
+    "subtasks",
+    "duedate",
+    "project",
+  ],
+};
+
+export interface Projection {
+  view: IssueView;
+  // Sent to Jira as the fields request parameter
+  request: string[];
+  // Output key per field id, so custom fields requested by name come back under that name
+  labels: Record<string, string>;
+  compact: boolean;
+}
+
+export function viewProjection(view: IssueView = "standard"): Projection {
+  return {
+    view,
+    request: view === "full" ? ["*all"] : VIEW_FIELDS[view],
+    labels: {},
+    compact: view !== "full",
+  };
+}
+
+// Explicit field list: ids or names, custom fields included. Values are compacted unless view is "full".
+export function fieldListProjection(
+  requested: string[],
+  definitions: FieldDefinition[],
+  view: IssueView = "standard"
+): Projection {
+  const request: string[] = [];
+  const labels: Record<string, string> = {};
+  const unknown: string[] = [];
+  for (const name of requested) {
+    const wanted = name.trim().toLowerCase();
+    const field =
+      definitions.find((f) => f.id?.toLowerCase() === wanted) ??
+      definitions.find((f) => f.name?.toLowerCase() === wanted);
+    if (!field?.id) {
+      unknown.push(name);
+      continue;
+    }
+    request.push(field.id);
+    // System fields keep their id; custom fields are labelled with their display name
+    labels[field.id] = field.custom ? field.name ?? field.id : field.id;
+  }
+  if (unknown.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown field(s): ${unknown.join(
+        ", "
+      )}. Use list_fields to see the available fields.`
+    );
+  }
+  return { view, request, labels, compact: view !== "full" };
+}
+
+function isUser(value: any): boolean {
+  return (
+    "accountId" in value || ("avatarUrls" in value && "displayName" in value)
+  );
+}
+
+// Reduce a field value to what a reader needs: names instead of objects with ids, self links and icons
+export function compactValue(value: any): any {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) return value.map(compactValue);
+  if (typeof value !== "object") return value;
+
+  if (isUser(value)) {
+    return value.accountId
+      ? { displayName: value.displayName, accountId: value.accountId }
+      : { displayName: value.displayName, name: value.name };
+  }
+  if ("key" in value && "fields" in value) {
+    // Linked issues, parents and subtasks
+    return {
+      key: value.key,
+      summary: value.fields?.summary,
+      status: value.fields?.status?.name,
+    };
+  }
+  if ("statusCategory" in value) return value.name;
+  if ("value" in value && ("id" in value || "self" in value)) {
+    // Select list option, possibly cascading
+    return value.child ? `${value.value} -> ${value.child.value}` : value.value;
+  }
+  if ("key" in value && "projectTypeKey" in value) return value.key;
+  if ("name" in value && ("id" in value || "self" in value)) {
+    // Issue types, priorities, components, versions, resolutions, sprints
+    return value.name;
+  }
+
+  const out: Record<string, any> = {};
+  for (const [key, nested] of Object.entries(value)) {
+    if (key === "self" || key === "avatarUrls" || key === "iconUrl") continue;
+    out[key] = compactValue(nested);
+  }
+  return out;
+}
+
+export function projectIssue(issue: any, projection: Projection): any {
+  const fields = issue.fields || {};
+  const ids =
+    projection.view === "full" && projection.request[0] === "*all"
+      ? Object.keys(fields)
+      : projection.request;
+
+  const projected: Record<string, any> = {};
+  for (const id of ids) {
+    if (!(id in fields)) continue;
+    const value = fields[id];
+    projected[projection.labels[id] ?? id] = projection.compact
+      ? compactValue(value)
+      : value;
+  }
+  return projection.view === "minimal"
+    ? { key: issue.key, fields: projected }
+    : { id: issue.id, key: issue.key, fields: projected };
+}
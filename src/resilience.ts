@@ -0,0 +1,238 @@
+import { logger } from "./logger.js";
+
+// Retries, backoff and client-side rate limiting for every request the Jira clients send.
+// jira.js routes all calls through sendRequestFullResponse, so wrapping that one method
+// covers the platform (v2/v3) and agile clients alike.
+
+export interface ResilienceOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  requestsPerSecond: number;
+  burst: number;
+  maxConcurrent: number;
+}
+
+export interface RateLimiter {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  // Hold every queued request, e.g. while Jira asks us to back off after a 429
+  pause(ms: number): void;
+}
+
+interface RequestSender {
+  sendRequestFullResponse(config: any): Promise<any>;
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+function numberFromEnv(raw: string | undefined, fallback: number): number {
+  const n = raw === undefined || raw === "" ? fallback : Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export function resilienceOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ResilienceOptions {
+  const requestsPerSecond =
+    numberFromEnv(env.JIRA_RATE_LIMIT_PER_SECOND, 10) || 10;
+  return {
+    maxRetries: numberFromEnv(env.JIRA_MAX_RETRIES, 3),
+    baseDelayMs: numberFromEnv(env.JIRA_RETRY_BASE_DELAY_MS, 500),
+    maxDelayMs: numberFromEnv(env.JIRA_RETRY_MAX_DELAY_MS, 30_000),
+    timeoutMs: numberFromEnv(env.JIRA_REQUEST_TIMEOUT_MS, 30_000),
+    requestsPerSecond,
+    burst:
+      numberFromEnv(env.JIRA_RATE_LIMIT_BURST, requestsPerSecond) ||
+      requestsPerSecond,
+    maxConcurrent: numberFromEnv(env.JIRA_MAX_CONCURRENT_REQUESTS, 5) || 5,
+  };
+}
+
+// Token bucket refilled at requestsPerSecond up to burst, plus a cap on requests in flight
+export function createRateLimiter(
+  requestsPerSecond: number,
+  burst: number,
+  maxConcurrent: number
+): RateLimiter {
+  const queue: (() => void)[] = [];
+  let tokens = burst;
+  let refilledAt = Date.now();
+  let active = 0;
+  let pausedUntil = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  function schedule(ms: number) {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = undefined;
+      pump();
+    }, Math.max(1, Math.ceil(ms)));
+  }
+
+  function pump() {
+    const now = Date.now();
+    tokens = Math.min(
+      burst,
+      tokens + ((now - refilledAt) / 1000) * requestsPerSecond
+    );
+    refilledAt = now;
+
+    if (now < pausedUntil) {
+      if (queue.length > 0) schedule(pausedUntil - now);
+      return;
+    }
+    while (queue.length > 0 && active < maxConcurrent && tokens >= 1) {
+      tokens -= 1;
+      active++;
+      queue.shift()!();
+    }
+    // Slots free up in run(); only an empty bucket needs a timer
+    if (queue.length > 0 && active < maxConcurrent) {
+      schedule(((1 - tokens) / requestsPerSecond) * 1000);
+    }
+  }
+
+  return {
+    async run(task) {
+      await new Promise<void>((resolve) => {
+        queue.push(resolve);
+        pump();
+      });
+      try {
+        return await task();
+      } finally {
+        active--;
+        pump();
+      }
+    },
+
+    pause(ms) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoff(attempt: number, options: ResilienceOptions): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  // Equal jitter: never retry immediately, but spread concurrent retries apart
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// How long to wait before retrying a failed request, or undefined when it should not be retried
+export function retryDelay(
+  error: any,
+  method: string,
+  attempt: number,
+  options: ResilienceOptions
+): number | undefined {
+  if (attempt >= options.maxRetries) return undefined;
+
+  const status: number | undefined = error?.response?.status;
+  const retryAfter = parseRetryAfter(error?.response?.headers?.["retry-after"]);
+  // Waiting longer than maxDelayMs would stall the tool call; surface the error instead
+  if (retryAfter !== undefined && retryAfter > options.maxDelayMs) {
+    return undefined;
+  }
+
+  // A throttled request was never processed, so repeating it is safe whatever the method; wrap()
+  // only gets here when the body can be sent again (see isReplayableBody)
+  if (status === 429) return retryAfter ?? backoff(attempt, options);
+
+  const transient =
+    status === undefined
+      ? error?.isAxiosError === true // timeout, connection reset, DNS hiccup
+      : status >= 500;
+  if (transient && IDEMPOTENT_METHODS.has(method)) {
+    return retryAfter ?? backoff(attempt, options);
+  }
+  return undefined;
+}
+
+// Streams and multipart forms (add_attachment; jira.js builds them with the form-data package,
+// whose forms are streams) are consumed by the first send, so a retry would upload an empty or
+// truncated body
+export function isReplayableBody(data: unknown): boolean {
+  if (!data || typeof data !== "object") return true;
+  if (typeof FormData !== "undefined" && data instanceof FormData) return false;
+  return typeof (data as { pipe?: unknown }).pipe !== "function";
+}
+
+function describeFailure(error: any): string {
+  const status = error?.response?.status;
+  return status ? `HTTP ${status}` : error?.code || error?.message || "error";
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createResilience(options: ResilienceOptions) {
+  // One limiter per Jira host, shared by every client and session talking to it, since that is
+  // where the rate limit applies
+  const limiters = new Map<string, RateLimiter>();
+
+  function limiterFor(host: string): RateLimiter {
+    let limiter = limiters.get(host);
+    if (!limiter) {
+      limiter = createRateLimiter(
+        options.requestsPerSecond,
+        options.burst,
+        options.maxConcurrent
+      );
+      limiters.set(host, limiter);
+    }
+    return limiter;
+  }
+
+  function wrap<C extends RequestSender>(client: C, host: string): C {
+    const send = client.sendRequestFullResponse.bind(client);
+    const limiter = limiterFor(host);
+
+    client.sendRequestFullResponse = async (config: any) => {
+      const method = String(config?.method ?? "GET").toUpperCase();
+      const request = { timeout: options.timeoutMs || undefined, ...config };
+      const replayable = isReplayableBody(config?.data);
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await limiter.run(() => send(request));
+        } catch (error: any) {
+          const delay = replayable
+            ? retryDelay(error, method, attempt, options)
+            : undefined;
+          if (delay === undefined) throw error;
+          if (error?.response?.status === 429) limiter.pause(delay);
+          logger.warn(
+            `Jira ${method} ${config?.url} failed, retrying in ${Math.round(
+              delay
+            )}ms`,
+            {
+              failure: describeFailure(error),
+              retry: attempt + 1,
+              maxRetries: options.maxRetries,
+            }
+          );
+          await sleep(delay);
+        }
+      }
+    };
+    return client;
+  }
+
+  return { wrap, limiterFor };
+}
+
+export type Resilience = ReturnType<typeof createResilience>;
@@ -0,0 +1,225 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { jira, session } from "./context.js";
+import { describeToolError, formatToolError } from "./errors.js";
+import { logger } from "./logger.js";
+import { toMarkdown } from "./markup.js";
+import {
+  deepPruneEmpty,
+  pick,
+  sanitizeIssue,
+  sanitizeIssuesResponse,
+  sanitizeSprint,
+  sanitizeUser,
+} from "./sanitize.js";
+import { MAX_PAGE_SIZE, searchIssuesPaged } from "./tools/common.js";
+
+// MCP resources: issues, projects, active sprints and filters read by URI
+
+// --- Recently Touched Issues ---
+// Issues the tools have read or changed in this session, most recent first, exposed as resources
+const MAX_RECENT_ISSUES = 20;
+
+export function rememberIssue(key: unknown, summary?: string) {
+  if (typeof key !== "string" || !/^[A-Z][A-Z0-9_]+-\d+$/i.test(key)) return;
+  const { recentIssues } = session();
+  const upperKey = key.toUpperCase();
+  const previous = recentIssues.get(upperKey);
+  recentIssues.delete(upperKey);
+  recentIssues.set(upperKey, {
+    summary: summary ?? previous?.summary,
+    touchedAt: new Date().toISOString(),
+  });
+  while (recentIssues.size > MAX_RECENT_ISSUES) {
+    recentIssues.delete(recentIssues.keys().next().value!);
+  }
+}
+
+export function rememberToolIssues(name: string, args: any, result: any) {
+  if (name === "delete_issue" && !args.dryRun) {
+    session().recentIssues.delete(String(args.issueKey).toUpperCase());
+    return;
+  }
+  for (const key of [
+    args.issueKey,
+    args.inwardIssueKey,
+    args.outwardIssueKey,
+    ...(Array.isArray(args.issueKeys) ? args.issueKeys : []),
+  ]) {
+    rememberIssue(key);
+  }
+  // Single-issue results (get_issue, update_issue, create_issue) carry the key and summary
+  if (result?.key) rememberIssue(result.key, result.fields?.summary);
+  for (const item of Array.isArray(result?.items) ? result.items : []) {
+    if (item.status === "created") rememberIssue(item.key, item.summary);
+  }
+}
+
+// --- Resources ---
+const resourceTemplates = [
+  {
+    uriTemplate: "jira://issue/{key}",
+    name: "Jira issue",
+    description:
+      "An issue with its main fields; the description is rendered as Markdown",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "jira://project/{key}",
+    name: "Jira project",
+    description: "Project details with its issue types and components",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "jira://board/{id}/active-sprint",
+    name: "Active sprint of a board",
+    description: "The active sprint of an agile board and its issues",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "jira://filter/{id}",
+    name: "Jira filter",
+    description:
+      "A saved filter with its JQL and the first page of matching issues",
+    mimeType: "application/json",
+  },
+];
+
+async function readIssueResource(key: string): Promise<any> {
+  const issue = await jira().v2.issues.getIssue({ issueIdOrKey: key });
+  const sanitized = sanitizeIssue(issue);
+  if (sanitized.fields?.description) {
+    sanitized.fields.description = toMarkdown(sanitized.fields.description);
+  }
+  rememberIssue(issue.key, issue.fields?.summary);
+  return sanitized;
+}
+
+async function readProjectResource(key: string): Promise<any> {
+  const project: any = await jira().v2.projects.getProject({
+    projectIdOrKey: key,
+  });
+  return deepPruneEmpty({
+    ...pick(project, ["id", "key", "name", "description", "projectTypeKey"]),
+    lead: sanitizeUser(project.lead),
+    issueTypes: (project.issueTypes || []).map((t: any) => t.name),
+    components: (project.components || []).map((c: any) => c.name),
+    versions: (project.versions || [])
+      .filter((v: any) => !v.archived)
+      .map((v: any) => pick(v, ["name", "released", "releaseDate"])),
+  });
+}
+
+async function readActiveSprintResource(boardId: number): Promise<any> {
+  const sprints = await jira().agile.board.getAllSprints({
+    boardId,
+    state: "active",
+  });
+  const active = sprints.values?.[0];
+  if (!active) {
+    return { boardId, activeSprint: null };
+  }
+  const issues = await jira().agile.sprint.getIssuesForSprint({
+    sprintId: active.id,
+    maxResults: MAX_PAGE_SIZE,
+  });
+  return {
+    boardId,
+    activeSprint: sanitizeSprint(active),
+    ...sanitizeIssuesResponse(issues),
+  };
+}
+
+async function readFilterResource(id: number): Promise<any> {
+  const filter: any = await jira().v2.filters.getFilter({ id });
+  if (!filter.jql) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Filter ${id} has no JQL configured`
+    );
+  }
+  return {
+    ...pick(filter, ["id", "name", "description", "jql"]),
+    ...(await searchIssuesPaged(filter.jql, {})),
+  };
+}
+
+export async function listResources() {
+  // Most recently touched first
+  const recent = [...session().recentIssues.entries()].reverse();
+  return {
+    resources: recent.map(([key, info]) => ({
+      uri: `jira://issue/${key}`,
+      name: info.summary ? `${key}: ${info.summary}` : key,
+      description: `Jira issue ${key}, last used ${info.touchedAt}`,
+      mimeType: "application/json",
+    })),
+  };
+}
+
+export async function listResourceTemplates() {
+  return { resourceTemplates };
+}
+
+// Runs a read in the session of the site its arguments select
+export type SiteRunner = <T>(
+  args: Record<string, unknown>,
+  fn: () => Promise<T>
+) => Promise<T>;
+
+export async function readResource(request: any, withSite: SiteRunner) {
+  const { uri } = request.params;
+  let match: RegExpExecArray | null;
+  let read: () => Promise<any>;
+
+  // Issues and projects go to the site owning the project; boards and filters to the default site
+  if ((match = /^jira:\/\/issue\/([^/]+)$/.exec(uri))) {
+    const issueKey = decodeURIComponent(match[1]);
+    read = () => withSite({ issueKey }, () => readIssueResource(issueKey));
+  } else if ((match = /^jira:\/\/project\/([^/]+)$/.exec(uri))) {
+    const projectKey = decodeURIComponent(match[1]);
+    read = () =>
+      withSite({ projectKey }, () => readProjectResource(projectKey));
+  } else if ((match = /^jira:\/\/board\/(\d+)\/active-sprint$/.exec(uri))) {
+    const boardId = Number(match[1]);
+    read = () => withSite({}, () => readActiveSprintResource(boardId));
+  } else if ((match = /^jira:\/\/filter\/(\d+)$/.exec(uri))) {
+    const filterId = Number(match[1]);
+    read = () => withSite({}, () => readFilterResource(filterId));
+  } else {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown resource URI "${uri}". Supported templates: ${resourceTemplates
+        .map((t) => t.uriTemplate)
+        .join(", ")}`
+    );
+  }
+
+  let data: any;
+  try {
+    data = await read();
+  } catch (error: any) {
+    throw resourceError(uri, error);
+  }
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+// jira.js errors carry Jira's response instead of a message, which the SDK would report as a
+// bare "Internal error"; describe them the way failed tool calls are described
+function resourceError(uri: string, error: any): McpError {
+  if (error instanceof McpError) return error;
+  const details = describeToolError(error);
+  logger.warn(`Failed to read resource ${uri}`, { error: details });
+  const code =
+    details.status && details.status < 500
+      ? ErrorCode.InvalidParams
+      : ErrorCode.InternalError;
+  return new McpError(code, formatToolError(details));
+}
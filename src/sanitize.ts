@@ -0,0 +1,215 @@
+import { Projection, projectIssue, viewProjection } from "./projection.js";
+
+// Jira responses carry self links, avatars and empty values; tools return the parts worth reading
+
+export function isEmptyValue(value: any): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+export function deepPruneEmpty(value: any): any {
+  if (Array.isArray(value)) {
+    const prunedArray = value
+      .map((item) => deepPruneEmpty(item))
+      .filter((item) => !isEmptyValue(item));
+    return prunedArray;
+  }
+  if (value && typeof value === "object") {
+    const prunedObject: any = {};
+    for (const [key, v] of Object.entries(value)) {
+      const pruned = deepPruneEmpty(v);
+      if (!isEmptyValue(pruned)) {
+        prunedObject[key] = pruned;
+      }
+    }
+    return prunedObject;
+  }
+  return value;
+}
+
+export function pick<T extends Record<string, any>>(
+  obj: T,
+  keys: string[]
+): Partial<T> {
+  const out: Partial<T> = {};
+  for (const k of keys) {
+    if (k in obj) (out as any)[k] = obj[k];
+  }
+  return out;
+}
+
+// Keep the fields of the requested view (standard by default), with nested values flattened
+export function sanitizeIssue(
+  issue: any,
+  projection: Projection = viewProjection()
+): any {
+  return deepPruneEmpty(projectIssue(issue, projection));
+}
+
+// Keep the response concise: preserve counts and JQL, and sanitize each issue
+export function sanitizeIssuesResponse(
+  raw: any,
+  projection: Projection = viewProjection()
+): any {
+  if (!raw || typeof raw !== "object") return raw;
+  const base = pick(raw, ["total", "startAt", "maxResults"]);
+  const issues = Array.isArray(raw.issues) ? raw.issues : [];
+  const sanitizedIssues = issues.map((issue: any) =>
+    sanitizeIssue(issue, projection)
+  );
+
+  const extras = pick(raw, ["warningMessages", "expand"]);
+  const out = {
+    ...base,
+    issues: sanitizedIssues,
+    ...extras,
+  } as any;
+  return deepPruneEmpty(out);
+}
+
+// Comments carry full user objects (avatars, time zones, self links) for author and updateAuthor;
+// keep only the identifying bits and the text
+export function sanitizeUser(user: any): any {
+  if (!user || typeof user !== "object") return user;
+  return deepPruneEmpty(
+    pick(user, ["accountId", "name", "displayName", "emailAddress"])
+  );
+}
+
+export function sanitizeComment(comment: any): any {
+  if (!comment || typeof comment !== "object") return comment;
+  const core = pick(comment, [
+    "id",
+    "body",
+    "created",
+    "updated",
+    "visibility",
+  ]);
+  return deepPruneEmpty({
+    ...core,
+    author: sanitizeUser(comment.author),
+    updateAuthor:
+      comment.updateAuthor?.displayName !== comment.author?.displayName
+        ? sanitizeUser(comment.updateAuthor)
+        : undefined,
+  });
+}
+
+export function sanitizeCommentsResponse(raw: any): any {
+  if (!raw || typeof raw !== "object") return raw;
+  const base = pick(raw, ["total", "startAt", "maxResults"]);
+  const comments = Array.isArray(raw.comments) ? raw.comments : [];
+  const startAt = raw.startAt ?? 0;
+  const total = raw.total ?? startAt + comments.length;
+  const nextStartAt = startAt + comments.length;
+  return deepPruneEmpty({
+    ...base,
+    comments: comments.map(sanitizeComment),
+    isLast: comments.length === 0 || nextStartAt >= total,
+    nextStartAt: nextStartAt < total ? nextStartAt : undefined,
+  });
+}
+
+export function sanitizeAttachment(attachment: any): any {
+  if (!attachment || typeof attachment !== "object") return attachment;
+  return deepPruneEmpty({
+    ...pick(attachment, ["id", "filename", "mimeType", "size", "created"]),
+    author: sanitizeUser(attachment.author),
+  });
+}
+
+export function sanitizeBoard(board: any): any {
+  return deepPruneEmpty({
+    ...pick(board, ["id", "name", "type"]),
+    project: board.location
+      ? pick(board.location, ["projectKey", "displayName"])
+      : undefined,
+  });
+}
+
+export function sanitizeSprint(sprint: any): any {
+  return deepPruneEmpty(
+    pick(sprint, [
+      "id",
+      "name",
+      "state",
+      "goal",
+      "startDate",
+      "endDate",
+      "completeDate",
+      "originBoardId",
+    ])
+  );
+}
+
+// Agile list endpoints page with isLast instead of total
+export function sanitizeAgilePage(
+  raw: any,
+  sanitize: (value: any) => any
+): any {
+  const values = Array.isArray(raw?.values) ? raw.values : [];
+  const startAt = raw?.startAt ?? 0;
+  return deepPruneEmpty({
+    ...pick(raw || {}, ["total", "startAt", "maxResults"]),
+    values: values.map(sanitize),
+    isLast: raw?.isLast ?? true,
+    nextStartAt: raw?.isLast === false ? startAt + values.length : undefined,
+  });
+}
+
+// --- Workflow Utilities ---
+export function describeAllowedValue(value: any): string {
+  return (
+    value?.name ?? value?.value ?? value?.key ?? String(value?.id ?? value)
+  );
+}
+
+// Summarize a transition as its target status and the screen fields it asks for
+export function sanitizeTransition(transition: any): any {
+  const fields = Object.entries(transition.fields || {}).map(
+    ([id, meta]: [string, any]) =>
+      deepPruneEmpty({
+        id,
+        name: meta.name,
+        required: meta.required === true && !meta.hasDefaultValue,
+        type: meta.schema?.type,
+        allowedValues: Array.isArray(meta.allowedValues)
+          ? meta.allowedValues.map(describeAllowedValue)
+          : undefined,
+      })
+  );
+  return deepPruneEmpty({
+    id: transition.id,
+    name: transition.name,
+    to: deepPruneEmpty({
+      id: transition.to?.id,
+      name: transition.to?.name,
+      category: transition.to?.statusCategory?.name,
+    }),
+    hasScreen: transition.hasScreen,
+    requiredFields: fields.filter((f) => f.required),
+    optionalFields: fields.filter((f) => !f.required),
+  });
+}
+
+// Match a transition by id, transition name, or target status name (case-insensitive)
+export function findTransition(
+  transitions: any[],
+  ref: string
+): any | undefined {
+  const wanted = ref.toLowerCase();
+  return (
+    transitions.find((t) => t.id === ref) ||
+    transitions.find((t) => t.name?.toLowerCase() === wanted) ||
+    transitions.find((t) => t.to?.name?.toLowerCase() === wanted)
+  );
+}
+
+export function describeTransitions(transitions: any[]): string {
+  return transitions
+    .map((t) => `"${t.name}" (id ${t.id}) -> ${t.to?.name}`)
+    .join(", ");
+}
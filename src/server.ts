@@ -3,861 +3,543 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { Version2Client, AgileClient } from "jira.js";
 import dotenv from "dotenv";
-import { Ajv } from "ajv";
+import { formatResult, toStructuredContent } from "./formatters.js";
+import {
+  ToolErrorDetails,
+  describeToolError,
+  fieldHints,
+  labelFieldErrors,
+  toolErrorResult,
+} from "./errors.js";
+import { FieldMetadataMap } from "./customFields.js";
+import {
+  TransportMode,
+  connectionFromHeaders,
+  loadTransportOptions,
+  startHttpServer,
+} from "./http.js";
+import {
+  SitesConfig,
+  loadSites,
+  routingProjectKeys,
+  selectSite,
+  sessionSites,
+} from "./sites.js";
+import { loadConnectionConfig } from "./auth.js";
+import {
+  Resilience,
+  createResilience,
+  resilienceOptionsFromEnv,
+} from "./resilience.js";
+import { isAtLeast, logger, loggerOptionsFromEnv } from "./logger.js";
+import {
+  DEFAULT_POLICY,
+  ToolPolicy,
+  assertToolEnabled,
+  assertWriteAllowed,
+  createConfirmationStore,
+  isToolEnabled,
+  loadPolicy,
+  projectKeyOf,
+} from "./policy.js";
+import {
+  JiraContext,
+  Session,
+  createJiraContext,
+  jira,
+  session,
+  sessionStorage,
+} from "./context.js";
+import { describeTransitions } from "./sanitize.js";
+import {
+  metadataLoaders,
+  outputFormatProperty,
+  parseBoardId,
+  siteProperty,
+} from "./tools/common.js";
+import { builtinTools } from "./tools/index.js";
+import { loadCustomTools } from "./tools/custom.js";
+import {
+  listResourceTemplates,
+  listResources,
+  readResource,
+  rememberToolIssues,
+} from "./resources.js";
+import {
+  ToolDefinition,
+  createToolRegistry,
+  toolAccess,
+} from "./tools/registry.js";
+
+let policy: ToolPolicy = DEFAULT_POLICY;
+const confirmations = createConfirmationStore();
+// Shared by every connection so the rate limit applies to the whole process
+let resilience: Resilience;
+let sitesConfig: SitesConfig = loadSites({});
+
+// Built-in tools and those loaded from JIRA_TOOLS_DIR; every tool accepts outputFormat and site
+const registry = createToolRegistry({
+  outputFormat: outputFormatProperty,
+  site: siteProperty,
+});
+builtinTools.forEach((tool) => registry.register(tool));
+
+// Log records written while handling a request also go to that request's client
+logger.addSink(({ level, ...data }) => {
+  const current = sessionStorage.getStore();
+  if (!current || !isAtLeast(level, current.logging.level)) return;
+  current.server
+    .sendLoggingMessage({ level, logger: "jira-mcp-server", data })
+    .catch(() => {
+      // The client may have disconnected
+    });
+});
 
-const ajv = new Ajv();
+// The site a call's arguments select (see sites.ts)
+function siteFor(args: Record<string, unknown>): JiraContext {
+  const name = selectSite(sitesConfig, args.site, routingProjectKeys(args));
+  const context = session().sites.get(name);
+  if (!context) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `No Jira credentials for site "${name}". Sessions that send their own Jira credentials can only use the default site "${sitesConfig.defaultSite}".`
+    );
+  }
+  return context;
+}
 
-let jiraClient: Version2Client;
-let agileClient: AgileClient;
+function withSite<T>(
+  args: Record<string, unknown>,
+  fn: () => Promise<T>
+): Promise<T> {
+  const context = siteFor(args);
+  return sessionStorage.run({ ...session(), jira: context }, fn);
+}
 
-// --- Sanitization Utilities ---
-function isEmptyValue(value: any): boolean {
-  if (value === null || value === undefined) return true;
-  if (typeof value === "string") return value.trim().length === 0;
-  if (Array.isArray(value)) return value.length === 0;
-  if (typeof value === "object") return Object.keys(value).length === 0;
-  return false;
+// --- Tool Policy ---
+async function issueProjectKey(issueKey: string): Promise<string | undefined> {
+  const key = projectKeyOf(issueKey);
+  if (key) return key;
+  const issue = await jira().v2.issues.getIssue({
+    issueIdOrKey: issueKey,
+    fields: ["project"],
+  });
+  return issue.fields?.project?.key;
 }
 
-function deepPruneEmpty(value: any): any {
-  if (Array.isArray(value)) {
-    const prunedArray = value
-      .map((item) => deepPruneEmpty(item))
-      .filter((item) => !isEmptyValue(item));
-    return prunedArray;
-  }
-  if (value && typeof value === "object") {
-    const prunedObject: any = {};
-    for (const [key, v] of Object.entries(value)) {
-      const pruned = deepPruneEmpty(v);
-      if (!isEmptyValue(pruned)) {
-        prunedObject[key] = pruned;
-      }
+async function boardProjectKey(boardId: number): Promise<string | undefined> {
+  const board = await jira().agile.board.getBoard({ boardId });
+  return board.location?.projectKey;
+}
+
+// Projects a write touches; undefined when any of them cannot be determined (e.g. a board
+// that is not located in a project)
+async function writeTargetProjects(args: any): Promise<string[] | undefined> {
+  try {
+    const keys: (string | undefined)[] = [];
+    if (args.projectKey) keys.push(String(args.projectKey).toUpperCase());
+    const issueKeys = [
+      args.issueKey,
+      args.inwardIssueKey,
+      args.outwardIssueKey,
+      ...(args.issueKeys ?? []),
+    ].filter(Boolean);
+    if (args.linkId) {
+      const link = await jira().v2.issueLinks.getIssueLink({
+        linkId: args.linkId,
+      });
+      issueKeys.push(link.inwardIssue?.key, link.outwardIssue?.key);
     }
-    return prunedObject;
+    for (const issueKey of issueKeys) {
+      keys.push(await issueProjectKey(issueKey));
+    }
+    if (args.boardId)
+      keys.push(await boardProjectKey(parseBoardId(args.boardId)));
+    for (const sprintId of [args.sprintId, args.moveOpenIssuesToSprintId]) {
+      if (!sprintId) continue;
+      const sprint = await jira().agile.sprint.getSprint({ sprintId });
+      keys.push(
+        sprint.originBoardId
+          ? await boardProjectKey(sprint.originBoardId)
+          : undefined
+      );
+    }
+    return keys.every(Boolean) ? (keys as string[]) : undefined;
+  } catch (error: any) {
+    logger.warn("Failed to resolve target project", { error });
+    return undefined;
   }
-  return value;
 }
 
-function pick<T extends Record<string, any>>(obj: T, keys: string[]): Partial<T> {
-  const out: Partial<T> = {};
-  for (const k of keys) {
-    if (k in obj) (out as any)[k] = obj[k];
+async function describeDestructiveCall(tool: ToolDefinition, args: any) {
+  if (tool.describeCall) {
+    try {
+      return await tool.describeCall(args);
+    } catch (error: any) {
+      logger.warn(`Failed to build preview for ${tool.name}`, { error });
+    }
   }
-  return out;
+  const { confirmToken, ...rest } = args;
+  return `Run ${tool.name} with ${JSON.stringify(
+    rest
+  )}. This cannot be undone.`;
 }
 
-// Keep the response concise: preserve counts and JQL, and for each issue keep key, id, self, and selected fields
-function sanitizeIssuesResponse(raw: any): any {
-  if (!raw || typeof raw !== "object") return raw;
-  const base = pick(raw, ["total", "startAt", "maxResults"]);
-  const issues = Array.isArray(raw.issues) ? raw.issues : [];
-  const sanitizedIssues = issues.map((issue: any) => {
-    const core = pick(issue, ["id", "key", "self"]);
-    const fields = issue.fields || {};
-    // Main useful fields from Jira issues
-    const mainFields = pick(fields, [
-      "summary",
-      "description",
-      "status",
-      "assignee",
-      "reporter",
-      "issuetype",
-      "priority",
-      "labels",
-      "components",
-      "created",
-      "updated",
-      "fixVersions",
-      "resolution",
-      "resolutiondate",
-      "parent",
-      "subtasks",
-      "duedate",
-      "project",
-    ]);
-    const prunedFields = deepPruneEmpty(mainFields);
-    const prunedCore = deepPruneEmpty(core);
-    const result = {
-      ...prunedCore,
-      fields: prunedFields,
-    };
-    return deepPruneEmpty(result);
-  });
-
-  const extras = pick(raw, ["warningMessages", "expand"]);
-  const out = {
-    ...base,
-    issues: sanitizedIssues,
-    ...extras,
-  } as any;
-  return deepPruneEmpty(out);
-}
+// Returns a tool result to send instead of running the tool, or undefined once confirmed
+async function confirmDestructiveCall(tool: ToolDefinition, args: any) {
+  const { name } = tool;
+  if (args.confirmToken) {
+    if (!confirmations.consume(args.confirmToken, name, args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid or expired confirmToken for ${name}. Call ${name} without confirmToken to get a new preview; the arguments must not change between the two calls.`
+      );
+    }
+    return undefined;
+  }
 
-// Define tools
-const tools = [
-  {
-    name: "delete_issue",
-    description: "Delete a Jira issue or subtask",
-    inputSchema: {
-      type: "object",
-      properties: {
-        issueKey: {
-          type: "string",
-          description: 'Key of the issue to delete (e.g., "PROJ-123")',
-        },
-      },
-      required: ["issueKey"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "get_issues",
-    description: "Get all issues and subtasks for a project or rapid view",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectKey: {
-          type: "string",
-          description: 'Project key (e.g., "PROJ")',
-        },
-        rapidView: {
-          oneOf: [
-            {
-              type: "number",
-              description: "Rapid view ID (e.g., 117)",
-              minimum: 1,
-            },
-            {
-              type: "string",
-              description: 'Rapid view ID as string (e.g., "117")',
-              pattern: "^\\d+$",
-            },
-          ],
-        },
-        jql: {
-          type: "string",
-          description: "Optional JQL query to filter issues",
-        },
-      },
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "get_assigned_issues",
-    description:
-      "Get issues assigned to a user, with options to filter by assignment status (current, past, or all).",
-    inputSchema: {
-      type: "object",
-      properties: {
-        accountId: {
-          type: "string",
-          description:
-            "The account ID of the user to find issues for. Use get_user to find this.",
-        },
-        status: {
-          type: "string",
-          description:
-            'Filter by assignment status: "current" (default), "past", or "all".',
-          enum: ["current", "past", "all"],
-        },
-        additionalJql: {
-          type: "string",
-          description:
-            'Optional additional JQL query to combine with the assignee search (e.g., "project = PROJ").',
-        },
-      },
-      required: ["accountId"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "update_issue",
-    description: "Update an existing Jira issue",
-    inputSchema: {
-      type: "object",
-      properties: {
-        issueKey: {
-          type: "string",
-          description: 'Key of the issue to update (e.g., "PROJ-123")',
-        },
-        summary: { type: "string", description: "New summary/title" },
-        description: {
-          type: "string",
-          description: "New description (ADF format recommended)",
-        },
-        assignee: {
-          type: "string",
-          description: "Account ID of the new assignee (use get_user to find)",
+  const action = await describeDestructiveCall(tool, args);
+  const { server } = session();
+  if (server.getClientCapabilities()?.elicitation) {
+    const answer = await server.elicitInput({
+      message: action,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: {
+            type: "boolean",
+            title: "Confirm",
+            description: `Run ${name}`,
+          },
         },
-        status: {
-          type: "string",
-          description: "New status name (requires transition ID internally)",
-        },
-        priority: { type: "string", description: "New priority name" },
-      },
-      required: ["issueKey"],
-      minProperties: 2, // Must provide issueKey and at least one field to update
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "list_fields",
-    description: "List all available fields in the Jira instance",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      required: [],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "list_issue_types",
-    description: "List all available issue types",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      required: [],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "list_link_types",
-    description: "List all available issue link types",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      required: [],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "get_user",
-    description: "Get a user's account ID by email address",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "User's email address" },
+        required: ["confirm"],
       },
-      required: ["email"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "create_issue",
-    description: "Create a new Jira issue",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectKey: {
-          type: "string",
-          description: 'Project key (e.g., "PROJ")',
-        },
-        summary: { type: "string", description: "Issue summary/title" },
-        issueType: {
-          type: "string",
-          description: 'Name of the issue type (e.g., "Task", "Bug")',
-        },
-        description: {
-          type: "string",
-          description: "Detailed description (ADF format recommended)",
-        },
-        assignee: {
-          type: "string",
-          description: "Account ID of the assignee (use get_user to find)",
-        },
-        labels: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of labels",
-        },
-        components: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of component names",
-        },
-        priority: { type: "string", description: "Issue priority name" },
-      },
-      required: ["projectKey", "summary", "issueType"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "create_issue_link",
-    description: "Create a link between two issues",
-    inputSchema: {
-      type: "object",
-      properties: {
-        inwardIssueKey: {
-          type: "string",
-          description: 'Key of the inward issue (e.g., "PROJ-123")',
-        },
-        outwardIssueKey: {
-          type: "string",
-          description: 'Key of the outward issue (e.g., "PROJ-456")',
-        },
-        linkType: {
-          type: "string",
-          description: 'Name of the link type (e.g., "Blocks")',
-        },
-      },
-      required: ["inwardIssueKey", "outwardIssueKey", "linkType"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "get_issue",
-    description: "Get a specific Jira issue by key",
-    inputSchema: {
-      type: "object",
-      properties: {
-        issueKey: {
-          type: "string",
-          description: 'Key of the issue to retrieve (e.g., "PROJ-123")',
-        },
-      },
-      required: ["issueKey"],
-      additionalProperties: false,
-    },
-  },
-];
+    });
+    if (answer.action === "accept" && answer.content?.confirm === true) {
+      return undefined;
+    }
+    const result = { cancelled: true, message: `${name} was not confirmed.` };
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+
+  const result = {
+    confirmationRequired: true,
+    action,
+    confirmToken: confirmations.issue(name, args),
+    expiresInSeconds: confirmations.ttlSeconds,
+    message: `Nothing was changed. To proceed, call ${name} again with the same arguments and this confirmToken.`,
+  };
+  return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+}
 
-// Create validators for each tool's input schema
-const toolValidators = new Map();
-tools.forEach((tool) => {
-  if (tool.inputSchema) {
-    toolValidators.set(tool.name, ajv.compile(tool.inputSchema));
+// --- Error Hints ---
+// Create or edit screen of a failed create_issue / update_issue call
+async function failedScreenFields(
+  name: string,
+  args: any
+): Promise<FieldMetadataMap | undefined> {
+  if (name === "update_issue") {
+    const meta = await jira().v2.issues.getEditIssueMeta({
+      issueIdOrKey: args.issueKey,
+    });
+    return meta.fields as FieldMetadataMap;
   }
-});
+  if (name === "create_issue") {
+    const meta = await jira().v2.issues.getCreateIssueMeta({
+      projectKeys: [args.projectKey],
+      issuetypeNames: [args.issueType],
+      expand: "projects.issuetypes.fields",
+    });
+    return meta.projects?.[0]?.issuetypes?.[0]?.fields as
+      | FieldMetadataMap
+      | undefined;
+  }
+  return undefined;
+}
 
-// Create and configure MCP server
-const server = new Server(
-  {
-    name: "jira-mcp-server",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {},
-    },
+// Describe a failed tool call with hints: allowed values and required fields for rejected
+// fields, and the available transitions when a transition failed
+async function describeToolFailure(
+  name: string,
+  args: any,
+  error: any
+): Promise<ToolErrorDetails> {
+  const details = describeToolError(error);
+  const hints = [...(details.hints ?? [])];
+  try {
+    if (details.fieldErrors) {
+      const meta = await failedScreenFields(name, args);
+      if (meta) hints.push(...fieldHints(details.fieldErrors, meta));
+      const fields = await jira().metadataCache.get(
+        "fields",
+        metadataLoaders.fields
+      );
+      details.fieldErrors = labelFieldErrors(
+        details.fieldErrors,
+        Object.fromEntries(fields.map((f) => [f.id, f.name]))
+      );
+    }
+    const transitioning =
+      name === "transition_issue" || (name === "update_issue" && args.status);
+    if (transitioning && details.status && details.status < 500) {
+      const response = await jira().v2.issues.getTransitions({
+        issueIdOrKey: args.issueKey,
+      });
+      hints.push(
+        `Available transitions for ${args.issueKey}: ${
+          describeTransitions(response.transitions || []) || "none"
+        }`
+      );
+    }
+  } catch (e: any) {
+    logger.warn(`Failed to look up hints for the ${name} error`, { error: e });
   }
-);
+  return { ...details, hints: hints.length > 0 ? hints : undefined };
+}
 
-// Set up request handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+// --- Request Handlers ---
+async function listTools() {
+  return {
+    tools: registry
+      .list()
+      .filter(
+        (tool) =>
+          isToolEnabled(policy, tool.name, toolAccess(tool)) &&
+          tool.available?.() !== false
+      )
+      .map(({ name, description, inputSchema, annotations }) => ({
+        name,
+        description,
+        inputSchema,
+        annotations,
+      })),
+  };
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+async function callTool(request: any) {
   const { name } = request.params;
   const args = request.params.arguments || {}; // Normalize args
-  console.error(
-    `Received call for tool: ${name} with args:`,
-    JSON.stringify(args, null, 2)
-  );
+  const startedAt = Date.now();
+  logger.debug(`Received call for tool ${name}`, { tool: name, args });
 
   // Find tool definition
-  const tool = tools.find((t) => t.name === name);
+  const tool = registry.get(name);
   if (!tool) {
     throw new McpError(ErrorCode.MethodNotFound, `Tool "${name}" not found.`);
   }
 
-  // Validate arguments
-  const validator = toolValidators.get(name);
-  if (validator && !validator(args)) {
-    console.error(
-      `Invalid arguments for tool ${name}:`,
-      ajv.errorsText(validator.errors)
-    );
+  // Disabled tools are refused like unknown ones
+  const access = toolAccess(tool);
+  assertToolEnabled(policy, name, access);
+  if (tool.available?.() === false) {
     throw new McpError(
-      ErrorCode.InvalidParams,
-      `Invalid arguments for tool ${name}: ${ajv.errorsText(validator.errors)}`
+      ErrorCode.InvalidRequest,
+      `Tool "${name}" is not available over the ${
+        session().transport
+      } transport with the server's configuration.`
     );
   }
 
-  // Handle tool calls
-  try {
-    let result;
-
-    switch (name) {
-      case "delete_issue": {
-        result = await jiraClient.issues.deleteIssue({
-          issueIdOrKey: args.issueKey,
-        });
-        // Delete returns no content on success (204)
-        result = {
-          success: true,
-          message: `Issue ${args.issueKey} deleted successfully.`,
-        };
-        break;
-      }
-
-      case "get_issues": {
-        let jql = "";
-        if (args.rapidView) {
-          // Get issues from rapid view
-          // Get board details
-          // Convert to number if string, or use directly if already number
-          const boardId =
-            typeof args.rapidView === "string"
-              ? parseInt(args.rapidView, 10)
-              : args.rapidView;
-
-          if (!Number.isInteger(boardId) || boardId <= 0) {
-            throw new McpError(
-              ErrorCode.InvalidParams,
-              `Invalid rapidView ID: ${args.rapidView}. Must be a positive integer.`
-            );
-          }
-
-          const board = await agileClient.board.getBoard({ boardId });
-
-          // Get board configuration to find the filter ID
-          const config = await agileClient.board.getConfiguration({ boardId });
-          if (!config.filter?.id) {
-            throw new McpError(
-              ErrorCode.InvalidParams,
-              `Board ${boardId} has no filter configured`
-            );
-          }
-
-          // Get the filter to extract the JQL
-          const filterResponse = await jiraClient.filters.getFilter({
-            id: Number(config.filter.id),
-          });
-          const filter = filterResponse as unknown as { jql: string };
-          if (!filter.jql) {
-            throw new McpError(
-              ErrorCode.InvalidParams,
-              `Filter ${config.filter.id} has no JQL configured`
-            );
-          }
-          // Combine board JQL with user-provided JQL
-          jql = args.jql ? `${filter.jql} AND (${args.jql})` : filter.jql;
-        } else if (args.projectKey) {
-          // Get issues from project
-          jql = args.jql
-            ? `project = "${args.projectKey}" AND ${args.jql}`
-            : `project = "${args.projectKey}"`;
-        } else {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            "Either projectKey or rapidView must be provided"
-          );
-        }
-        result = await jiraClient.issueSearch.searchForIssuesUsingJql({ jql });
-        // Sanitize payload to remove empty or redundant fields and keep main fields only
-        result = sanitizeIssuesResponse(result);
-        break;
-      }
-
-      case "get_assigned_issues": {
-        const { accountId, status, additionalJql } = args;
-        let baseJql: string;
-
-        switch (status) {
-          case "past":
-            baseJql = `assignee WAS "${accountId}"`;
-            break;
-          case "all":
-            baseJql = `(assignee = "${accountId}" OR assignee WAS "${accountId}")`;
-            break;
-          default: // 'current' or undefined
-            baseJql = `assignee = "${accountId}"`;
-        }
-
-        const jql = additionalJql
-          ? `${baseJql} AND (${additionalJql})`
-          : baseJql;
-        result = await jiraClient.issueSearch.searchForIssuesUsingJql({ jql });
-        // Sanitize payload similarly for assigned issues list
-        result = sanitizeIssuesResponse(result);
-        break;
-      }
-
-      case "update_issue": {
-        const { issueKey, summary, description, assignee, status, priority } =
-          args;
-
-        const fieldsToUpdate: any = {};
-
-        if (summary) fieldsToUpdate.summary = summary;
-        if (description) fieldsToUpdate.description = description; // ADF format preferred
-
-        // Handle assignee separately - try different approaches
-        let assigneeUpdated = false;
-        if (assignee !== undefined) {
-          try {
-            // Try using the assignUser method (if it exists)
-            console.log(
-              `Attempting to assign issue ${issueKey} to ${assignee}`
-            );
-
-            if (assignee === null || assignee === "null") {
-              // For unassigning, try setting to null in the field update
-              console.log(`Unassigning issue ${issueKey}`);
-              fieldsToUpdate.assignee = null;
-            } else {
-              // Try different account ID formats
-              console.log(`Assigning issue ${issueKey} to ${assignee}`);
-
-              // For server instances, use name field instead of accountId
-              fieldsToUpdate.assignee = { name: assignee };
-            }
-          } catch (error: any) {
-            console.error(
-              `Error preparing assignee for issue ${issueKey}:`,
-              error.message
-            );
-          }
-        }
-
-        // Resolve Priority ID if name provided
-        if (priority) {
-          try {
-            const priorities = await jiraClient.issuePriorities.getPriorities();
-            const foundPriority = priorities.find(
-              (p) => p.name?.toLowerCase() === priority.toLowerCase()
-            );
-            if (foundPriority?.id) {
-              fieldsToUpdate.priority = { id: foundPriority.id };
-            } else {
-              console.warn(
-                `Priority "${priority}" not found, skipping update.`
-              );
-            }
-          } catch (e: any) {
-            console.warn(
-              `Failed to resolve priority ID for "${priority}", skipping update: ${e.message}`
-            );
-          }
-        }
-
-        // --- Status Change (Transition) ---
-        // This is the most complex part of updating. It requires finding the correct transition ID.
-        let transitionId: string | undefined;
-        if (status) {
-          try {
-            const transitions = await jiraClient.issues.getTransitions({
-              issueIdOrKey: issueKey,
-            });
-            const targetTransition = transitions.transitions?.find(
-              (t) => t.to?.name?.toLowerCase() === status.toLowerCase()
-            );
-            if (targetTransition?.id) {
-              transitionId = targetTransition.id;
-            } else {
-              console.warn(
-                `Transition to status "${status}" not available for issue ${issueKey}. Available transitions: ${transitions.transitions
-                  ?.map((t) => t.to?.name)
-                  .join(", ")}`
-              );
-              // Don't throw, just skip status change if transition not found
-            }
-          } catch (e: any) {
-            console.warn(
-              `Failed to get transitions for issue ${issueKey}, cannot change status: ${e.message}`
-            );
-          }
-        }
-
-        // Perform field updates first (if any)
-        if (Object.keys(fieldsToUpdate).length > 0) {
-          console.log(
-            `Updating issue ${issueKey} with fields:`,
-            JSON.stringify(fieldsToUpdate)
-          );
-          try {
-            await jiraClient.issues.editIssue({
-              issueIdOrKey: issueKey,
-              fields: fieldsToUpdate,
-            });
-          } catch (error: any) {
-            console.error(`Error updating issue ${issueKey}:`, error.message);
-            if (error.response?.data) {
-              console.error(
-                "Error details:",
-                JSON.stringify(error.response.data, null, 2)
-              );
-            }
-            throw error;
-          }
-        } else if (!transitionId) {
-          // Nothing to update and no transition found
-          return {
-            success: true,
-            message: `No valid fields or status transition provided for issue ${issueKey}. No update performed.`,
-          };
-        }
-
-        // Perform transition if found
-        if (transitionId) {
-          console.error(
-            `Transitioning issue ${issueKey} to status "${status}" (Transition ID: ${transitionId})`
-          );
-          await jiraClient.issues.doTransition({
-            issueIdOrKey: issueKey,
-            transition: { id: transitionId },
-          });
-        }
-
-        // Fetch the updated issue to return its current state
-        result = await jiraClient.issues.getIssue({ issueIdOrKey: issueKey });
-        break;
-      }
-
-      case "list_fields":
-        result = await jiraClient.issueFields.getFields();
-        break;
-
-      case "list_issue_types":
-        result = await jiraClient.issueTypes.getIssueAllTypes();
-        break;
-
-      case "list_link_types":
-        result = await jiraClient.issueLinkTypes.getIssueLinkTypes();
-        break;
-
-      case "get_user": {
-        const users = await jiraClient.userSearch.findUsers({
-          query: args.email,
-          maxResults: 1,
-        });
-        // Cast users to any[] to handle potential type mismatch from jira.js
-        const foundUsers = users as any[];
-        if (
-          foundUsers.length > 0 &&
-          foundUsers[0].emailAddress?.toLowerCase() === args.email.toLowerCase()
-        ) {
-          result = foundUsers[0]; // Return the full user object, including accountId
-        } else {
-          // Use InvalidRequest for resource not found type errors
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `User with email "${args.email}" not found.`
-          );
-        }
-        break;
-      }
-
-      case "create_issue": {
-        const {
-          projectKey,
-          summary,
-          issueType,
-          description,
-          assignee,
-          labels,
-          components,
-          priority,
-        } = args;
-
-        // Find project ID
-        const project = await jiraClient.projects.getProject({
-          projectIdOrKey: projectKey,
-        });
-        if (!project.id) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            `Could not find project with key "${projectKey}".`
-          );
-        }
-
-        // Find issue type ID
-        const issueTypes = await jiraClient.issueTypes.getIssueAllTypes();
-        const foundType = issueTypes.find(
-          (it) => it.name?.toLowerCase() === issueType.toLowerCase()
-        );
-        if (!foundType || !foundType.id) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            `Issue type "${issueType}" not found.`
-          );
-        }
-
-        // Find Priority ID (if provided)
-        let priorityId: string | undefined;
-        if (priority) {
-          try {
-            const priorities = await jiraClient.issuePriorities.getPriorities();
-            const foundPriority = priorities.find(
-              (p) => p.name?.toLowerCase() === priority.toLowerCase()
-            );
-            if (!foundPriority || !foundPriority.id) {
-              console.warn(
-                `Priority "${priority}" not found, issue will be created without priority.`
-              );
-              // Don't throw, just skip setting priority
-            } else {
-              priorityId = foundPriority.id;
-            }
-          } catch (e: any) {
-            console.warn(
-              `Failed to resolve priority ID for "${priority}", issue will be created without priority: ${e.message}`
-            );
-          }
-        }
-
-        // Find Component IDs (if provided)
-        let componentObjects: { id: string }[] = []; // Initialize as empty array
-        if (components && components.length > 0 && project.id) {
-          try {
-            const projectComponents =
-              await jiraClient.projectComponents.getProjectComponents({
-                projectIdOrKey: project.id,
-              });
-            componentObjects = components
-              .map((compName: string) => {
-                const foundComp = projectComponents.find(
-                  (pc) => pc.name?.toLowerCase() === compName.toLowerCase()
-                );
-                if (!foundComp || !foundComp.id) {
-                  console.warn(
-                    `Component "${compName}" not found in project ${projectKey}, skipping.`
-                  );
-                  return null;
-                }
-                return { id: foundComp.id };
-              })
-              .filter(
-                (comp: { id: string } | null): comp is { id: string } =>
-                  comp !== null
-              );
-          } catch (e: any) {
-            console.warn(
-              `Failed to resolve component IDs for project ${projectKey}, issue will be created without components: ${e.message}`
-            );
-          }
-        }
-
-        // Construct fields object step-by-step
-        const fields: any = {
-          project: { id: project.id },
-          summary,
-          issuetype: { id: foundType.id },
-        };
-
-        // Add optional fields conditionally
-        if (description) fields.description = description;
-        if (assignee) fields.assignee = { name: assignee };
-        if (labels) fields.labels = labels;
-        if (componentObjects.length > 0) fields.components = componentObjects;
-        if (priorityId) fields.priority = { id: priorityId };
-
-        // Create issue
-        result = await jiraClient.issues.createIssue({ fields });
-        break;
-      }
-
-      case "create_issue_link": {
-        await jiraClient.issueLinks.linkIssues({
-          type: { name: args.linkType },
-          inwardIssue: { key: args.inwardIssueKey },
-          outwardIssue: { key: args.outwardIssueKey },
-        });
-        // Link returns no content on success (201)
-        result = {
-          success: true,
-          message: `Link '${args.linkType}' created between ${args.inwardIssueKey} and ${args.outwardIssueKey}.`,
-        };
-        break;
-      }
+  // Warnings are logged and, for dry runs, returned to the caller
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    logger.warn(message, { tool: name });
+    warnings.push(message);
+  };
 
-      case "get_issue": {
-        const { issueKey } = args;
-        result = await jiraClient.issues.getIssue({ issueIdOrKey: issueKey });
-        break;
-      }
+  // Everything below fails as an isError result the model can react to
+  try {
+    registry.validate(name, args);
 
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Handler for tool "${name}" not implemented.`
-        );
+    // Enforce the tool policy before anything reaches Jira
+    if (access !== "read" && policy.writeProjects) {
+      assertWriteAllowed(policy, name, await writeTargetProjects(args));
     }
+    if (access === "destructive" && policy.confirmDestructive && !args.dryRun) {
+      const preview = await confirmDestructiveCall(tool, args);
+      if (preview) return preview;
+    }
+
+    const result = await tool.handler(args, { jira: jira(), warn, warnings });
 
-    console.error(`Tool ${name} executed successfully.`);
+    rememberToolIssues(name, args, result);
+    logger.info(`Tool ${name} succeeded`, {
+      tool: name,
+      durationMs: Date.now() - startedAt,
+    });
     return {
-      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      content: [
+        { type: "text", text: formatResult(result, args.outputFormat) },
+      ],
+      structuredContent: toStructuredContent(result),
     };
   } catch (error: any) {
-    console.error(`Error executing tool ${name}:`, error);
-
-    const errorMessage =
-      error?.errorMessages?.join(", ") ||
-      error?.message ||
-      "An unknown error occurred";
-    const statusCode = error?.status || 500;
-
-    let mcpErrorCode = ErrorCode.InternalError;
-    if (statusCode === 400) {
-      mcpErrorCode = ErrorCode.InvalidParams;
-    } else if (statusCode === 401 || statusCode === 403) {
-      mcpErrorCode = ErrorCode.InvalidRequest;
-    } else if (statusCode === 404) {
-      mcpErrorCode = ErrorCode.InvalidRequest;
-    }
-
-    throw new McpError(
-      mcpErrorCode,
-      `Jira API Error (${statusCode}): ${errorMessage}`,
-      { originalError: error }
-    );
+    const details = await describeToolFailure(name, args, error);
+    logger.warn(`Tool ${name} failed`, {
+      tool: name,
+      durationMs: Date.now() - startedAt,
+      error: details,
+    });
+    return toolErrorResult(details);
   }
-});
+}
 
-// Set up error handler
-server.onerror = (error: any) => console.error("[MCP Server Error]", error);
+// One MCP server per connection; its handlers run inside the connection's session
+function createServer(
+  sites: Map<string, JiraContext>,
+  transport: TransportMode
+): Server {
+  const server = new Server(
+    {
+      name: "jira-mcp-server",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        logging: {},
+        resources: {},
+        tools: {},
+      },
+    }
+  );
+  const current: Session = {
+    server,
+    transport,
+    sites,
+    recentIssues: new Map(),
+    logging: { level: logger.options.clientLevel },
+  };
+  const inSession =
+    (handler: (request: any) => Promise<any>) => (request: any) =>
+      sessionStorage.run(current, () => handler(request));
+
+  server.setRequestHandler(ListToolsRequestSchema, inSession(listTools));
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    inSession(async (request) => {
+      // An unknown site is a bad argument, reported like the tool's own failures
+      let context: JiraContext;
+      try {
+        context = siteFor(request.params.arguments ?? {});
+      } catch (error: any) {
+        return toolErrorResult(describeToolError(error));
+      }
+      return sessionStorage.run({ ...current, jira: context }, () =>
+        callTool(request)
+      );
+    })
+  );
+  server.setRequestHandler(
+    ListResourcesRequestSchema,
+    inSession(listResources)
+  );
+  server.setRequestHandler(
+    ListResourceTemplatesRequestSchema,
+    inSession(listResourceTemplates)
+  );
+  server.setRequestHandler(
+    ReadResourceRequestSchema,
+    inSession((request) => readResource(request, withSite))
+  );
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    current.logging.level = request.params.level;
+    return {};
+  });
 
-// Handle shutdown
-process.on("SIGINT", async () => {
-  console.error("Shutting down Jira MCP server...");
-  await server.close();
-  process.exit(0);
-});
+  // Set up error handler
+  server.onerror = (error: any) => logger.error("MCP server error", { error });
+  return server;
+}
 
 // Export start function
-export async function start() {
+export async function start(argv: string[] = []) {
   // Load environment variables from .env file
   dotenv.config();
+  logger.configure(loggerOptionsFromEnv());
+  const options = loadTransportOptions(argv);
 
   // --- Jira Configuration ---
-  const JIRA_HOST = process.env.JIRA_HOST;
-  const JIRA_EMAIL = process.env.JIRA_EMAIL;
-  const JIRA_API_TOKEN = process.env.JIRA_API_TOKEN;
-
-  if (!JIRA_HOST || !JIRA_EMAIL || !JIRA_API_TOKEN) {
-    throw new Error(
-      "JIRA_HOST, JIRA_EMAIL, and JIRA_API_TOKEN environment variables are required. Please create a .env file with these values."
-    );
+  policy = loadPolicy();
+  sitesConfig = loadSites();
+  const { defaultSite } = sitesConfig;
+  // Every request goes through retries with backoff and a rate limiter per Jira host
+  resilience = createResilience(resilienceOptionsFromEnv());
+  for (const tool of await loadCustomTools()) {
+    registry.register(tool);
   }
-
-  // Initialize Jira clients
-  try {
-    jiraClient = new Version2Client({
-      host: JIRA_HOST,
-      authentication: {
-        personalAccessToken: JIRA_API_TOKEN,
-      },
+  const contexts = new Map<string, JiraContext>();
+  for (const site of sitesConfig.sites) {
+    try {
+      contexts.set(
+        site.name,
+        createJiraContext(loadConnectionConfig(site.env), resilience)
+      );
+    } catch (error: any) {
+      const message = process.env.JIRA_SITES_FILE
+        ? `Site "${site.name}": ${error.message}`
+        : error.message;
+      // A shared HTTP instance can rely on every session sending its own credentials
+      if (options.transport !== "http" || site.name !== defaultSite) {
+        throw new Error(message);
+      }
+      logger.warn(
+        "No default Jira credentials, so HTTP sessions must send X-Jira-* credential headers",
+        { error: message }
+      );
+    }
+  }
+  const defaultEnv = sitesConfig.sites.find((s) => s.name === defaultSite)!.env;
+
+  if (options.transport === "http") {
+    // Credentials sent by a session replace those of the default site for that session
+    const http = await startHttpServer(options.http, (headers) => {
+      const credentials = connectionFromHeaders(headers, defaultEnv);
+      if (credentials) {
+        return createServer(
+          sessionSites(
+            sitesConfig,
+            contexts,
+            createJiraContext(credentials, resilience)
+          ),
+          "http"
+        );
+      }
+      if (!contexts.has(defaultSite)) {
+        throw new Error(
+          "Jira credentials are required: send X-Jira-Api-Token (and X-Jira-Email for Jira Cloud) or X-Jira-Access-Token."
+        );
+      }
+      return createServer(contexts, "http");
     });
-
-    agileClient = new AgileClient({
-      host: JIRA_HOST,
-      authentication: {
-        personalAccessToken: JIRA_API_TOKEN,
-      },
+    process.on("SIGINT", async () => {
+      logger.info("Shutting down Jira MCP server");
+      await http.close();
+      process.exit(0);
     });
-  } catch (error: any) {
-    throw new Error(`Failed to initialize Jira client: ${error.message}`);
+    logger.info(
+      `Jira MCP server listening on ${http.url}/mcp (Streamable HTTP) and ${http.url}/sse (SSE)`
+    );
+    return;
   }
 
+  const server = createServer(contexts, "stdio");
+  // Handle shutdown
+  process.on("SIGINT", async () => {
+    logger.info("Shutting down Jira MCP server");
+    await server.close();
+    process.exit(0);
+  });
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("Jira MCP server running and connected via stdio.");
+  logger.info("Jira MCP server running and connected via stdio");
 }
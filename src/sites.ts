@@ -0,0 +1,203 @@
+import { readFileSync } from "node:fs";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { projectKeyOf } from "./policy.js";
+
+// Several named Jira sites served by one instance, configured with a JSON file (JIRA_SITES_FILE).
+// Without the file there is a single site, "default", configured by the JIRA_* variables. Calls go
+// to the site named by their `site` argument, else to the site owning the projects they refer to,
+// else to the default site.
+
+export const DEFAULT_SITE = "default";
+
+export interface SiteDefinition {
+  name: string;
+  // JIRA_* variables for loadConnectionConfig
+  env: NodeJS.ProcessEnv;
+  // Project keys routed to this site
+  projects: string[];
+}
+
+export interface SitesConfig {
+  defaultSite: string;
+  sites: SiteDefinition[];
+}
+
+// Site settings in the file and the variables they stand for
+const SITE_SETTINGS: Record<string, string> = {
+  host: "JIRA_HOST",
+  email: "JIRA_EMAIL",
+  apiToken: "JIRA_API_TOKEN",
+  accessToken: "JIRA_OAUTH_ACCESS_TOKEN",
+  cloudId: "JIRA_CLOUD_ID",
+  authType: "JIRA_AUTH_TYPE",
+  deployment: "JIRA_DEPLOYMENT",
+};
+
+// Arguments holding project or issue keys, used to pick the site of a call
+const PROJECT_ARGS = ["projectKey", "project"];
+const ISSUE_ARGS = [
+  "issueKey",
+  "issueKeys",
+  "inwardIssueKey",
+  "outwardIssueKey",
+  "parentKey",
+  "rankBeforeIssue",
+  "rankAfterIssue",
+];
+
+// "$NAME" reads the value from the environment, so secrets can stay out of the file
+function settingValue(
+  site: string,
+  setting: string,
+  value: unknown,
+  env: NodeJS.ProcessEnv
+): string {
+  if (typeof value !== "string") {
+    throw new Error(`Site "${site}": ${setting} must be a string.`);
+  }
+  if (!value.startsWith("$")) return value;
+  const resolved = env[value.slice(1)];
+  if (!resolved) {
+    throw new Error(
+      `Site "${site}": ${setting} refers to ${value}, which is not set.`
+    );
+  }
+  return resolved;
+}
+
+function parseSite(
+  name: string,
+  raw: any,
+  env: NodeJS.ProcessEnv
+): SiteDefinition {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Site "${name}" must be an object.`);
+  }
+  const siteEnv: NodeJS.ProcessEnv = {};
+  for (const [setting, variable] of Object.entries(SITE_SETTINGS)) {
+    if (raw[setting] === undefined) continue;
+    siteEnv[variable] = settingValue(name, setting, raw[setting], env);
+  }
+  if (raw.projects !== undefined && !Array.isArray(raw.projects)) {
+    throw new Error(`Site "${name}": projects must be a list of project keys.`);
+  }
+  const projects = (raw.projects ?? []).map((key: unknown) =>
+    String(key).trim().toUpperCase()
+  );
+  return { name, env: siteEnv, projects };
+}
+
+export function loadSites(env: NodeJS.ProcessEnv = process.env): SitesConfig {
+  if (!env.JIRA_SITES_FILE) {
+    return {
+      defaultSite: DEFAULT_SITE,
+      sites: [{ name: DEFAULT_SITE, env, projects: [] }],
+    };
+  }
+
+  let file: any;
+  try {
+    file = JSON.parse(readFileSync(env.JIRA_SITES_FILE, "utf8"));
+  } catch (error: any) {
+    throw new Error(
+      `Failed to read sites file ${env.JIRA_SITES_FILE}: ${error.message}`
+    );
+  }
+  const entries = Object.entries(file?.sites ?? {});
+  if (entries.length === 0) {
+    throw new Error(
+      `Sites file ${env.JIRA_SITES_FILE} must define at least one site under "sites".`
+    );
+  }
+  const sites = entries.map(([name, raw]) => parseSite(name, raw, env));
+
+  const owners = new Map<string, string>();
+  for (const site of sites) {
+    for (const project of site.projects) {
+      const owner = owners.get(project);
+      if (owner) {
+        throw new Error(
+          `Project ${project} is assigned to both site "${owner}" and site "${site.name}".`
+        );
+      }
+      owners.set(project, site.name);
+    }
+  }
+
+  const defaultSite = file.defaultSite ?? sites[0].name;
+  if (!sites.some((site) => site.name === defaultSite)) {
+    throw new Error(`defaultSite "${defaultSite}" is not one of the sites.`);
+  }
+  return { defaultSite, sites };
+}
+
+function stringsOf(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+// Project keys named by a call's arguments, directly or as the prefix of issue keys
+export function routingProjectKeys(args: Record<string, unknown>): string[] {
+  const keys = new Set<string>();
+  for (const arg of PROJECT_ARGS) {
+    for (const key of stringsOf(args[arg])) {
+      if (key.trim()) keys.add(key.trim().toUpperCase());
+    }
+  }
+  for (const arg of ISSUE_ARGS) {
+    for (const issueKey of stringsOf(args[arg])) {
+      const key = projectKeyOf(issueKey);
+      if (key) keys.add(key);
+    }
+  }
+  return [...keys];
+}
+
+// The site a call goes to: the requested one, else the one owning its projects, else the default
+export function selectSite(
+  config: SitesConfig,
+  requested: unknown,
+  projectKeys: string[] = []
+): string {
+  if (requested !== undefined) {
+    if (
+      typeof requested !== "string" ||
+      !config.sites.some((site) => site.name === requested)
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown site "${requested}". Configured sites: ${config.sites
+          .map((site) => site.name)
+          .join(", ")}.`
+      );
+    }
+    return requested;
+  }
+
+  const owners = new Set<string>();
+  for (const key of projectKeys) {
+    const owner = config.sites.find((site) => site.projects.includes(key));
+    if (owner) owners.add(owner.name);
+  }
+  if (owners.size > 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `The projects ${projectKeys.join(", ")} belong to different sites (${[
+        ...owners,
+      ].join(", ")}); one call can only use one site.`
+    );
+  }
+  return owners.size === 1 ? [...owners][0] : config.defaultSite;
+}
+
+// The sites a session can use. Credentials sent by a session only stand in for the default site;
+// the other sites' credentials belong to the operator, so such a session gets the default alone.
+export function sessionSites<T>(
+  config: SitesConfig,
+  configured: Map<string, T>,
+  own?: T
+): Map<string, T> {
+  return own === undefined ? configured : new Map([[config.defaultSite, own]]);
+}
@@ -0,0 +1,555 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { jira } from "../context.js";
+import { IssueView } from "../projection.js";
+import {
+  deepPruneEmpty,
+  pick,
+  sanitizeAgilePage,
+  sanitizeBoard,
+  sanitizeIssuesResponse,
+  sanitizeSprint,
+} from "../sanitize.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_AGILE_BATCH,
+  MAX_PAGE_SIZE,
+  PlannedRequest,
+  agileIssueKeysProperty,
+  boardIdProperty,
+  dryRunProperty,
+  dryRunResult,
+  issueProjection,
+  issueViewProperties,
+  parseBoardId,
+} from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Boards, sprints and ranking (Jira Software agile API)
+
+export const listBoards = defineTool<{
+  projectKey?: string;
+  type?: "scrum" | "kanban" | "simple";
+  name?: string;
+  startAt?: number;
+  maxResults?: number;
+}>({
+  name: "list_boards",
+  description:
+    "List agile boards, optionally filtered by project, type or name",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectKey: {
+        type: "string",
+        description: 'Only boards for this project (e.g., "PROJ")',
+      },
+      type: {
+        type: "string",
+        description: "Board type",
+        enum: ["scrum", "kanban", "simple"],
+      },
+      name: {
+        type: "string",
+        description: "Only boards whose name contains this text",
+      },
+      startAt: { type: "integer", minimum: 0 },
+      maxResults: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE },
+    },
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { projectKey, type, name, startAt, maxResults } = args;
+    const boards = await jira().agile.board.getAllBoards({
+      projectKeyOrId: projectKey,
+      type,
+      name,
+      startAt: startAt ?? 0,
+      maxResults: maxResults ?? DEFAULT_PAGE_SIZE,
+    });
+    return sanitizeAgilePage(boards, sanitizeBoard);
+  },
+});
+
+export const listSprints = defineTool<{
+  boardId: number | string;
+  state?: ("active" | "future" | "closed")[];
+  startAt?: number;
+  maxResults?: number;
+}>({
+  name: "list_sprints",
+  description: "List the sprints of a board",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      boardId: boardIdProperty,
+      state: {
+        type: "array",
+        items: { type: "string", enum: ["active", "future", "closed"] },
+        description:
+          'Sprint states to include (e.g., ["active", "future"]); all states when omitted',
+      },
+      startAt: { type: "integer", minimum: 0 },
+      maxResults: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE },
+    },
+    required: ["boardId"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { state, startAt, maxResults } = args;
+    const sprints = await jira().agile.board.getAllSprints({
+      boardId: parseBoardId(args.boardId),
+      state: state?.length ? state.join(",") : undefined,
+      startAt: startAt ?? 0,
+      maxResults: maxResults ?? DEFAULT_PAGE_SIZE,
+    });
+    return sanitizeAgilePage(sprints, sanitizeSprint);
+  },
+});
+
+export const getSprintIssues = defineTool<{
+  sprintId: number;
+  jql?: string;
+  startAt?: number;
+  maxResults?: number;
+  view?: IssueView;
+  fields?: string[];
+}>({
+  name: "get_sprint_issues",
+  description: "Get the issues in a sprint",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      sprintId: { type: "integer", minimum: 1, description: "Sprint ID" },
+      jql: {
+        type: "string",
+        description: "Optional JQL to filter the sprint issues",
+      },
+      startAt: { type: "integer", minimum: 0 },
+      maxResults: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE },
+      ...issueViewProperties,
+    },
+    required: ["sprintId"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { sprintId, jql, startAt = 0, maxResults } = args;
+    const projection = await issueProjection(args);
+    const raw = await jira().agile.sprint.getIssuesForSprint({
+      sprintId,
+      jql,
+      startAt,
+      maxResults: maxResults ?? DEFAULT_PAGE_SIZE,
+      fields: projection.request,
+    });
+    const returned = raw.issues?.length ?? 0;
+    const nextStartAt = startAt + returned;
+    return {
+      ...sanitizeIssuesResponse(raw, projection),
+      returned,
+      isLast: returned === 0 || nextStartAt >= (raw.total ?? 0),
+      nextStartAt:
+        returned > 0 && nextStartAt < (raw.total ?? 0)
+          ? nextStartAt
+          : undefined,
+    };
+  },
+});
+
+export const moveIssuesToSprint = defineTool<{
+  sprintId: number;
+  issueKeys: string[];
+  rankBeforeIssue?: string;
+  rankAfterIssue?: string;
+  dryRun?: boolean;
+}>({
+  name: "move_issues_to_sprint",
+  description:
+    "Move issues into a sprint, optionally ranking them before or after another issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      sprintId: { type: "integer", minimum: 1, description: "Sprint ID" },
+      issueKeys: agileIssueKeysProperty,
+      rankBeforeIssue: {
+        type: "string",
+        description: "Rank the moved issues before this issue",
+      },
+      rankAfterIssue: {
+        type: "string",
+        description: "Rank the moved issues after this issue",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["sprintId", "issueKeys"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { sprintId, issueKeys, rankBeforeIssue, rankAfterIssue } = args;
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `/rest/agile/1.0/sprint/${sprintId}/issue`,
+            body: { issues: issueKeys, rankBeforeIssue, rankAfterIssue },
+          },
+        ],
+        warnings
+      );
+    }
+    await jira().agile.sprint.moveIssuesToSprintAndRank({
+      sprintId,
+      issues: issueKeys,
+      rankBeforeIssue,
+      rankAfterIssue,
+    });
+    return {
+      success: true,
+      message: `Moved ${issueKeys.join(", ")} to sprint ${sprintId}.`,
+    };
+  },
+});
+
+export const moveIssuesToBacklog = defineTool<{
+  issueKeys: string[];
+  dryRun?: boolean;
+}>({
+  name: "move_issues_to_backlog",
+  description: "Move issues out of their sprint and back to the backlog",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKeys: agileIssueKeysProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKeys"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { issueKeys } = args;
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: "/rest/agile/1.0/backlog/issue",
+            body: { issues: issueKeys },
+          },
+        ],
+        warnings
+      );
+    }
+    await jira().agile.backlog.moveIssuesToBacklog({ issues: issueKeys });
+    return {
+      success: true,
+      message: `Moved ${issueKeys.join(", ")} to the backlog.`,
+    };
+  },
+});
+
+export const rankIssues = defineTool<{
+  issueKeys: string[];
+  rankBeforeIssue?: string;
+  rankAfterIssue?: string;
+  dryRun?: boolean;
+}>({
+  name: "rank_issues",
+  description: "Rank issues before or after another issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKeys: agileIssueKeysProperty,
+      rankBeforeIssue: {
+        type: "string",
+        description: "Rank the issues before this issue",
+      },
+      rankAfterIssue: {
+        type: "string",
+        description: "Rank the issues after this issue",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKeys"],
+    oneOf: [
+      { required: ["rankBeforeIssue"] },
+      { required: ["rankAfterIssue"] },
+    ],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { issueKeys, rankBeforeIssue, rankAfterIssue } = args;
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "PUT",
+            path: "/rest/agile/1.0/issue/rank",
+            body: { issues: issueKeys, rankBeforeIssue, rankAfterIssue },
+          },
+        ],
+        warnings
+      );
+    }
+    const response: any = await jira().agile.issue.rankIssues({
+      issues: issueKeys,
+      rankBeforeIssue,
+      rankAfterIssue,
+    });
+    // Ranking returns 204 when everything succeeded and 207 with per-issue entries otherwise
+    const failed = (response?.entries || []).filter(
+      (entry: any) => entry.status && entry.status >= 400
+    );
+    return deepPruneEmpty({
+      success: failed.length === 0,
+      message:
+        failed.length === 0
+          ? `Ranked ${issueKeys.join(", ")} ${
+              rankBeforeIssue
+                ? `before ${rankBeforeIssue}`
+                : `after ${rankAfterIssue}`
+            }.`
+          : `Failed to rank ${failed.length} issue(s).`,
+      failures: failed.map((entry: any) =>
+        pick(entry, ["issueKey", "status", "errors"])
+      ),
+    });
+  },
+});
+
+export const createSprint = defineTool<{
+  boardId: number | string;
+  name: string;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+  dryRun?: boolean;
+}>({
+  name: "create_sprint",
+  description: "Create a new (future) sprint on a board",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      boardId: boardIdProperty,
+      name: { type: "string", description: "Sprint name" },
+      goal: { type: "string", description: "Sprint goal" },
+      startDate: {
+        type: "string",
+        description:
+          'Planned start date (ISO 8601, e.g., "2024-05-06T09:00:00.000Z")',
+      },
+      endDate: {
+        type: "string",
+        description: "Planned end date (ISO 8601)",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["boardId", "name"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { name, goal, startDate, endDate } = args;
+    const sprintRequest = {
+      originBoardId: parseBoardId(args.boardId),
+      name,
+      goal,
+      startDate,
+      endDate,
+    };
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: "/rest/agile/1.0/sprint",
+            body: sprintRequest,
+          },
+        ],
+        warnings
+      );
+    }
+    const sprint = await jira().agile.sprint.createSprint(sprintRequest);
+    return sanitizeSprint(sprint);
+  },
+});
+
+export const startSprint = defineTool<{
+  sprintId: number;
+  startDate?: string;
+  endDate?: string;
+  goal?: string;
+  dryRun?: boolean;
+}>({
+  name: "start_sprint",
+  description: "Start a future sprint",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      sprintId: { type: "integer", minimum: 1, description: "Sprint ID" },
+      startDate: {
+        type: "string",
+        description:
+          "Start date (ISO 8601); defaults to the planned start date or now",
+      },
+      endDate: {
+        type: "string",
+        description:
+          "End date (ISO 8601); required if the sprint has no planned end date",
+      },
+      goal: { type: "string", description: "Sprint goal" },
+      dryRun: dryRunProperty,
+    },
+    required: ["sprintId"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { sprintId, goal } = args;
+    const sprint = await jira().agile.sprint.getSprint({ sprintId });
+    if (sprint.state !== "future") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Sprint ${sprintId} is ${sprint.state}; only future sprints can be started.`
+      );
+    }
+    const startDate =
+      args.startDate ?? sprint.startDate ?? new Date().toISOString();
+    const endDate = args.endDate ?? sprint.endDate;
+    if (!endDate) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Sprint ${sprintId} has no planned end date; provide endDate to start it.`
+      );
+    }
+    const update = { state: "active", startDate, endDate, goal };
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `/rest/agile/1.0/sprint/${sprintId}`,
+            body: update,
+          },
+        ],
+        warnings
+      );
+    }
+    const started = await jira().agile.sprint.partiallyUpdateSprint({
+      sprintId,
+      ...update,
+    });
+    return sanitizeSprint(started);
+  },
+});
+
+export const closeSprint = defineTool<{
+  sprintId: number;
+  moveOpenIssuesToSprintId?: number;
+  dryRun?: boolean;
+}>({
+  name: "close_sprint",
+  description:
+    "Close an active sprint, optionally moving its unfinished issues to another sprint first",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      sprintId: { type: "integer", minimum: 1, description: "Sprint ID" },
+      moveOpenIssuesToSprintId: {
+        type: "integer",
+        minimum: 1,
+        description:
+          "Sprint to receive issues that are not done; they go to the backlog when omitted",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["sprintId"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { sprintId, moveOpenIssuesToSprintId } = args;
+    const sprint = await jira().agile.sprint.getSprint({ sprintId });
+    if (sprint.state !== "active") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Sprint ${sprintId} is ${sprint.state}; only active sprints can be closed.`
+      );
+    }
+
+    const moved: string[] = [];
+    const planned: PlannedRequest[] = [];
+    if (moveOpenIssuesToSprintId) {
+      // Collect every unfinished issue first; moving while paging would shift the pages
+      const openKeys: string[] = [];
+      let startAt = 0;
+      while (true) {
+        const page = await jira().agile.sprint.getIssuesForSprint({
+          sprintId,
+          jql: "statusCategory != Done",
+          fields: ["key"],
+          startAt,
+          maxResults: MAX_PAGE_SIZE,
+        });
+        const issues = page.issues ?? [];
+        for (const issue of issues) {
+          if (issue.key) openKeys.push(issue.key);
+        }
+        startAt += issues.length;
+        if (issues.length === 0 || startAt >= (page.total ?? 0)) break;
+      }
+      for (let i = 0; i < openKeys.length; i += MAX_AGILE_BATCH) {
+        const batch = openKeys.slice(i, i + MAX_AGILE_BATCH);
+        if (args.dryRun) {
+          planned.push({
+            method: "POST",
+            path: `/rest/agile/1.0/sprint/${moveOpenIssuesToSprintId}/issue`,
+            body: { issues: batch },
+          });
+          continue;
+        }
+        await jira().agile.sprint.moveIssuesToSprintAndRank({
+          sprintId: moveOpenIssuesToSprintId,
+          issues: batch,
+        });
+        moved.push(...batch);
+      }
+    }
+
+    if (args.dryRun) {
+      planned.push({
+        method: "POST",
+        path: `/rest/agile/1.0/sprint/${sprintId}`,
+        body: { state: "closed" },
+      });
+      return dryRunResult(planned, warnings);
+    }
+
+    const closed = await jira().agile.sprint.partiallyUpdateSprint({
+      sprintId,
+      state: "closed",
+    });
+    return deepPruneEmpty({
+      ...sanitizeSprint(closed),
+      movedIssues: moved,
+      movedToSprintId: moved.length ? moveOpenIssuesToSprintId : undefined,
+    });
+  },
+});
+
+export const agileTools = [
+  listBoards,
+  listSprints,
+  getSprintIssues,
+  moveIssuesToSprint,
+  moveIssuesToBacklog,
+  rankIssues,
+  createSprint,
+  startSprint,
+  closeSprint,
+];
@@ -0,0 +1,218 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  LocalFile,
+  downloadRoot,
+  getAttachmentSettings,
+  isTextMimeType,
+  readLocalFile,
+  saveDownload,
+  uploadRoot,
+} from "../attachments.js";
+import { jira, session } from "../context.js";
+import { sanitizeAttachment } from "../sanitize.js";
+import { dryRunProperty, dryRunResult } from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Attachments: uploads from and downloads to the local file system (see attachments.ts)
+
+export const addAttachment = defineTool<{
+  issueKey: string;
+  filePaths: string[];
+  dryRun?: boolean;
+}>({
+  name: "add_attachment",
+  description: "Upload one or more local files as attachments to a Jira issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  available: () =>
+    uploadRoot(getAttachmentSettings(), session().transport) !== undefined,
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+      filePaths: {
+        type: "array",
+        items: { type: "string" },
+        minItems: 1,
+        description:
+          "Paths of the local files to upload, inside the upload directory (JIRA_ATTACHMENT_UPLOAD_DIR, by default the server working directory); relative paths start there",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "filePaths"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { issueKey, filePaths } = args;
+    const settings = getAttachmentSettings();
+    const root = uploadRoot(settings, session().transport);
+    if (!root) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Uploading local files is disabled over HTTP. Set JIRA_ATTACHMENT_UPLOAD_DIR on the server to allow uploads from that directory."
+      );
+    }
+
+    // Read and check every file before uploading anything
+    const files: LocalFile[] = [];
+    for (const filePath of filePaths) {
+      try {
+        files.push(
+          await readLocalFile(filePath, settings.maxUploadBytes, root)
+        );
+      } catch (e: any) {
+        throw new McpError(ErrorCode.InvalidParams, e.message);
+      }
+    }
+
+    if (args.dryRun) {
+      // Multipart upload; the body lists the parts instead of their content
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `/rest/api/2/issue/${issueKey}/attachments`,
+            body: files.map((f) => ({
+              filename: f.filename,
+              size: f.size,
+              mimeType: f.mimeType,
+            })),
+          },
+        ],
+        warnings
+      );
+    }
+
+    const uploaded = await jira().v2.issueAttachments.addAttachment({
+      issueIdOrKey: issueKey,
+      attachment: files.map((f) => ({
+        filename: f.filename,
+        file: f.content,
+      })),
+    });
+    return {
+      success: true,
+      message: `Uploaded ${files.length} attachment(s) to issue ${issueKey}.`,
+      attachments: (uploaded as any[]).map((attachment) => ({
+        ...sanitizeAttachment(attachment),
+        detectedMimeType: files.find((f) => f.filename === attachment.filename)
+          ?.mimeType,
+      })),
+    };
+  },
+});
+
+export const listAttachments = defineTool<{ issueKey: string }>({
+  name: "list_attachments",
+  description: "List the attachments on a Jira issue",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+    },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey }) {
+    const issue = await jira().v2.issues.getIssue({
+      issueIdOrKey: issueKey,
+      fields: ["attachment"],
+    });
+    const attachments: any[] = (issue.fields as any)?.attachment || [];
+    return {
+      issueKey,
+      total: attachments.length,
+      attachments: attachments.map(sanitizeAttachment),
+    };
+  },
+});
+
+export const getAttachment = defineTool<{
+  attachmentId: string;
+  mode?: "auto" | "inline" | "save";
+}>({
+  name: "get_attachment",
+  description:
+    "Download an attachment, or return small text attachments inline. Other attachments are written to a file in the server's attachment directory (over HTTP, saving needs JIRA_ATTACHMENT_DIR on the server)",
+  // Read-only as far as Jira goes, so it stays available in read-only mode; saving does write a
+  // file, but only below the attachment directory the operator configured
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      attachmentId: {
+        type: "string",
+        pattern: "^\\d+$",
+        description: "ID of the attachment (use list_attachments to find)",
+      },
+      mode: {
+        type: "string",
+        description:
+          '"auto" (default: inline for small text files, otherwise saved to disk), "inline" (text only) or "save"',
+        enum: ["auto", "inline", "save"],
+      },
+    },
+    required: ["attachmentId"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { attachmentId, mode = "auto" } = args;
+    const settings = getAttachmentSettings();
+    const { maxInlineBytes, maxDownloadBytes } = settings;
+    const downloadDir = downloadRoot(settings, session().transport);
+    const meta = await jira().v2.issueAttachments.getAttachment({
+      id: attachmentId,
+    });
+    const isText = isTextMimeType(meta.mimeType);
+    const fitsInline = (meta.size ?? 0) <= maxInlineBytes;
+
+    if (mode === "inline" && (!isText || !fitsInline)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Attachment ${attachmentId} (${meta.mimeType}, ${meta.size} bytes) cannot be returned inline; only text attachments up to ${maxInlineBytes} bytes can. Use mode "save".`
+      );
+    }
+
+    const inline = mode !== "save" && isText && fitsInline;
+    if (!inline && !downloadDir) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Attachment ${attachmentId} (${meta.mimeType}, ${meta.size} bytes) cannot be returned inline, and saving attachments is disabled over HTTP. Set JIRA_ATTACHMENT_DIR on the server to allow it.`
+      );
+    }
+    if (!inline && (meta.size ?? 0) > maxDownloadBytes) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Attachment ${attachmentId} (${meta.size} bytes) exceeds the ${maxDownloadBytes} byte download limit (JIRA_ATTACHMENT_DOWNLOAD_MAX_BYTES).`
+      );
+    }
+
+    const content =
+      await jira().v2.issueAttachments.getAttachmentContent<Buffer>({
+        id: attachmentId,
+      });
+    const buffer = Buffer.from(content);
+
+    if (inline) {
+      return {
+        ...sanitizeAttachment(meta),
+        content: buffer.toString("utf8"),
+      };
+    }
+    const savedTo = await saveDownload(
+      downloadDir!,
+      attachmentId,
+      meta.filename || "attachment",
+      buffer
+    );
+    return { ...sanitizeAttachment(meta), savedTo };
+  },
+});
+
+export const attachmentTools = [addAttachment, listAttachments, getAttachment];
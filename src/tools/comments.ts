@@ -0,0 +1,273 @@
+import { jira } from "../context.js";
+import { MarkupFormat, toJiraRichText, toMarkdown } from "../markup.js";
+import { sanitizeComment, sanitizeCommentsResponse } from "../sanitize.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  confirmTokenProperty,
+  dryRunProperty,
+  dryRunResult,
+  readFormatProperty,
+  restApi,
+  visibilityProperty,
+  writeFormatProperty,
+} from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Comments on issues
+
+interface Visibility {
+  type: "role" | "group";
+  value: string;
+}
+
+export const listComments = defineTool<{
+  issueKey: string;
+  startAt?: number;
+  maxResults?: number;
+  orderBy?: "created" | "-created";
+  bodyFormat?: "markdown" | "raw";
+}>({
+  name: "list_comments",
+  description: "List the comments on a Jira issue",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+      startAt: {
+        type: "integer",
+        description: "Index of the first comment to return (default 0)",
+        minimum: 0,
+      },
+      maxResults: {
+        type: "integer",
+        description: `Number of comments to return (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`,
+        minimum: 1,
+        maximum: MAX_PAGE_SIZE,
+      },
+      orderBy: {
+        type: "string",
+        description:
+          'Sort order: "created" (oldest first, default) or "-created" (newest first)',
+        enum: ["created", "-created"],
+      },
+      bodyFormat: readFormatProperty,
+    },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { issueKey, startAt, maxResults, orderBy, bodyFormat } = args;
+    const comments = await jira().v2.issueComments.getComments({
+      issueIdOrKey: issueKey,
+      startAt: startAt ?? 0,
+      maxResults: maxResults ?? DEFAULT_PAGE_SIZE,
+      orderBy: orderBy ?? "created",
+    });
+    const result = sanitizeCommentsResponse(comments);
+    if (bodyFormat !== "raw") {
+      for (const comment of result.comments ?? []) {
+        comment.body = toMarkdown(comment.body);
+      }
+    }
+    return result;
+  },
+});
+
+export const addComment = defineTool<{
+  issueKey: string;
+  body: string;
+  bodyFormat?: MarkupFormat;
+  visibility?: Visibility;
+  dryRun?: boolean;
+}>({
+  name: "add_comment",
+  description: "Add a comment to a Jira issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue to comment on (e.g., "PROJ-123")',
+      },
+      body: {
+        type: "string",
+        description: "Comment text (Markdown by default, see bodyFormat)",
+      },
+      bodyFormat: writeFormatProperty,
+      visibility: visibilityProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "body"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { issueKey, body, bodyFormat, visibility } = args;
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `${restApi(bodyFormat)}/issue/${issueKey}/comment`,
+            body: { body: toJiraRichText(body, bodyFormat), visibility },
+          },
+        ],
+        warnings
+      );
+    }
+    const comment =
+      bodyFormat === "adf"
+        ? await jira().v3.issueComments.addComment({
+            issueIdOrKey: issueKey,
+            comment: toJiraRichText(body, "adf"),
+            visibility,
+          })
+        : await jira().v2.issueComments.addComment({
+            issueIdOrKey: issueKey,
+            comment: toJiraRichText(body, bodyFormat),
+            visibility,
+          });
+    return sanitizeComment(comment);
+  },
+});
+
+export const updateComment = defineTool<{
+  issueKey: string;
+  commentId: string;
+  body: string;
+  bodyFormat?: MarkupFormat;
+  visibility?: Visibility;
+  dryRun?: boolean;
+}>({
+  name: "update_comment",
+  description: "Edit an existing comment on a Jira issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+      commentId: {
+        type: "string",
+        description: "ID of the comment to edit (use list_comments to find)",
+      },
+      body: {
+        type: "string",
+        description: "New comment text (Markdown by default, see bodyFormat)",
+      },
+      bodyFormat: writeFormatProperty,
+      visibility: visibilityProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "commentId", "body"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { issueKey, commentId, body, bodyFormat, visibility } = args;
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "PUT",
+            path: `${restApi(
+              bodyFormat
+            )}/issue/${issueKey}/comment/${commentId}`,
+            body: { body: toJiraRichText(body, bodyFormat), visibility },
+          },
+        ],
+        warnings
+      );
+    }
+    const comment =
+      bodyFormat === "adf"
+        ? await jira().v3.issueComments.updateComment({
+            issueIdOrKey: issueKey,
+            id: commentId,
+            body: toJiraRichText(body, "adf"),
+            visibility,
+          })
+        : await jira().v2.issueComments.updateComment({
+            issueIdOrKey: issueKey,
+            id: commentId,
+            comment: toJiraRichText(body, bodyFormat),
+            visibility,
+          });
+    return sanitizeComment(comment);
+  },
+});
+
+export const deleteComment = defineTool<{
+  issueKey: string;
+  commentId: string;
+  confirmToken?: string;
+  dryRun?: boolean;
+}>({
+  name: "delete_comment",
+  description: "Delete a comment from a Jira issue",
+  annotations: { readOnlyHint: false, destructiveHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+      commentId: {
+        type: "string",
+        description: "ID of the comment to delete",
+      },
+      confirmToken: confirmTokenProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "commentId"],
+    additionalProperties: false,
+  },
+  async describeCall({ issueKey, commentId }) {
+    const comment: any = await jira().v2.issueComments.getComment({
+      issueIdOrKey: issueKey,
+      id: commentId,
+    });
+    const body = String(toMarkdown(comment.body) ?? "");
+    return `Delete comment ${commentId} by ${
+      comment.author?.displayName ?? "unknown"
+    } on ${issueKey}: "${
+      body.length > 200 ? `${body.slice(0, 200)}...` : body
+    }". This cannot be undone.`;
+  },
+  async handler(args, { warnings }) {
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "DELETE",
+            path: `/rest/api/2/issue/${args.issueKey}/comment/${args.commentId}`,
+          },
+        ],
+        warnings
+      );
+    }
+    await jira().v2.issueComments.deleteComment({
+      issueIdOrKey: args.issueKey,
+      id: args.commentId,
+    });
+    // Delete returns no content on success (204)
+    return {
+      success: true,
+      message: `Comment ${args.commentId} deleted from issue ${args.issueKey}.`,
+    };
+  },
+});
+
+export const commentTools = [
+  listComments,
+  addComment,
+  updateComment,
+  deleteComment,
+];
@@ -0,0 +1,416 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestConfig } from "jira.js";
+import { getDeployment, jira } from "../context.js";
+import { userReference } from "../auth.js";
+import { FieldMetadataMap, resolveCustomFields } from "../customFields.js";
+import { OUTPUT_FORMATS } from "../formatters.js";
+import { logger } from "../logger.js";
+import {
+  IssueView,
+  Projection,
+  fieldListProjection,
+  viewProjection,
+} from "../projection.js";
+import { sanitizeIssuesResponse } from "../sanitize.js";
+
+// Schema fragments and helpers shared by the built-in tools
+
+// --- Pagination Utilities ---
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+// Upper bound for fetchAll so a broad JQL cannot pull an entire instance into the context
+export const FETCH_ALL_HARD_CAP = 1000;
+
+export const paginationProperties = {
+  startAt: {
+    type: "integer",
+    description: "Index of the first issue to return (default 0)",
+    minimum: 0,
+  },
+  maxResults: {
+    type: "integer",
+    description: `Page size (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+  },
+  nextPageToken: {
+    type: "string",
+    description:
+      "Cursor returned by a previous call to continue the same search; takes precedence over startAt",
+  },
+  fetchAll: {
+    type: "boolean",
+    description: `Fetch every page up to maxIssues (hard cap ${FETCH_ALL_HARD_CAP} issues)`,
+  },
+  maxIssues: {
+    type: "integer",
+    description: `Maximum number of issues to collect when fetchAll is set (default and max ${FETCH_ALL_HARD_CAP})`,
+    minimum: 1,
+    maximum: FETCH_ALL_HARD_CAP,
+  },
+};
+
+// The cursor is bound to the JQL it was issued for, so it cannot silently continue a different search
+function encodePageToken(jql: string, startAt: number): string {
+  return Buffer.from(JSON.stringify({ jql, startAt }), "utf8").toString(
+    "base64url"
+  );
+}
+
+function decodePageToken(token: string, jql: string): number {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    decoded = undefined;
+  }
+  if (!decoded || !Number.isInteger(decoded.startAt) || decoded.startAt < 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid nextPageToken.");
+  }
+  if (decoded.jql !== jql) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "nextPageToken was issued for a different query; repeat the original arguments with the token."
+    );
+  }
+  return decoded.startAt;
+}
+
+// --- Shared Properties ---
+// Jira's agile API accepts at most 50 issues per move or rank request
+export const MAX_AGILE_BATCH = 50;
+
+export const agileIssueKeysProperty = {
+  type: "array",
+  items: { type: "string" },
+  minItems: 1,
+  maxItems: MAX_AGILE_BATCH,
+  description: `Issue keys (e.g., ["PROJ-1", "PROJ-2"]), at most ${MAX_AGILE_BATCH}`,
+};
+
+export const boardIdProperty = {
+  oneOf: [
+    { type: "number", description: "Board ID (e.g., 117)", minimum: 1 },
+    {
+      type: "string",
+      description: 'Board ID as string (e.g., "117")',
+      pattern: "^\\d+$",
+    },
+  ],
+};
+
+export const customFieldsProperty = {
+  type: "object",
+  description:
+    'Custom field values keyed by field name or ID, e.g. { "Story Points": 5, "Team": "Platform", "Epic Link": "PROJ-1", "Region": "EMEA -> Germany" }. Options, multi-selects, users, dates and cascading selects are converted to the shape Jira expects; use null to clear a field.',
+};
+
+export const writeFormatProperty = {
+  type: "string",
+  description:
+    'Format of the supplied text: "markdown" (default, converted to Jira wiki markup), "wiki" (Jira wiki markup, sent as is) or "adf" (Markdown or an ADF JSON document, sent through the REST API v3; Jira Cloud only)',
+  enum: ["markdown", "wiki", "adf"],
+};
+
+export const readFormatProperty = {
+  type: "string",
+  description:
+    'How to return rich text: "markdown" (default, converted from wiki markup or ADF) or "raw" (as stored by Jira)',
+  enum: ["markdown", "raw"],
+};
+
+export const visibilityProperty = {
+  type: "object",
+  description:
+    'Restrict who can see the comment, e.g. { "type": "role", "value": "Developers" } or { "type": "group", "value": "jira-users" }',
+  properties: {
+    type: { type: "string", enum: ["role", "group"] },
+    value: {
+      type: "string",
+      description: "Name of the project role or group",
+    },
+  },
+  required: ["type", "value"],
+  additionalProperties: false,
+};
+
+export function stringOrListProperty(description: string) {
+  return {
+    oneOf: [
+      { type: "string" },
+      { type: "array", items: { type: "string" }, minItems: 1 },
+    ],
+    description,
+  };
+}
+
+// Shared by every tool that returns issues
+export const issueViewProperties = {
+  view: {
+    type: "string",
+    enum: ["minimal", "standard", "full"],
+    description:
+      'Detail level: "minimal" (key, summary, status, type, priority, assignee, updated), "standard" (default; adds description, people, dates, components, versions, parent and subtasks) or "full" (every field, values as returned by Jira)',
+  },
+  fields: {
+    type: "array",
+    items: { type: "string" },
+    minItems: 1,
+    description:
+      'Return exactly these fields instead of a view, by id or name; custom fields can be given by name (e.g., ["summary", "status", "Story Points"])',
+  },
+};
+
+export const confirmTokenProperty = {
+  type: "string",
+  description:
+    "Confirmation token from a previous call without it. Destructive tools first return a preview and a token; call again with the token to run them",
+};
+
+export const dryRunProperty = {
+  type: "boolean",
+  description:
+    "Resolve and validate everything, then return the REST requests that would be sent and any warnings, without changing anything in Jira",
+};
+
+export const outputFormatProperty = {
+  type: "string",
+  enum: OUTPUT_FORMATS,
+  description:
+    "How to render the text result: json (default), markdown (tables for lists, sections for single issues), csv (lists) or compact (one line per issue). The JSON result is always returned as structuredContent.",
+};
+
+export const siteProperty = {
+  type: "string",
+  description:
+    "Name of the Jira site to use when several are configured. Defaults to the site owning the project of the issue or project keys given, else the default site",
+};
+
+// --- Dry Run ---
+export interface PlannedRequest {
+  method: "POST" | "PUT" | "DELETE";
+  path: string;
+  body?: unknown;
+}
+
+// ADF rich text is only accepted by the v3 API
+export function restApi(format?: string): string {
+  return format === "adf" ? "/rest/api/3" : "/rest/api/2";
+}
+
+export function dryRunResult(requests: PlannedRequest[], warnings: string[]) {
+  return {
+    dryRun: true,
+    message: `Dry run: ${requests.length} request(s) would be sent; nothing was changed in Jira.`,
+    requests,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+// --- Metadata Lookups ---
+// Loaders for cached metadata; keys are "priorities", "issueTypes", "fields", "linkTypes",
+// "components:<projectId>" and "createMeta:<projectKey>:<issueTypeId>"
+export const metadataLoaders = {
+  priorities: () => jira().v2.issuePriorities.getPriorities(),
+  issueTypes: () => jira().v2.issueTypes.getIssueAllTypes(),
+  fields: () => jira().v2.issueFields.getFields(),
+  linkTypes: () =>
+    jira()
+      .v2.issueLinkTypes.getIssueLinkTypes()
+      .then((response) => response.issueLinkTypes ?? []),
+};
+
+export function loadProjectComponents(projectId: string) {
+  return () =>
+    jira().v2.projectComponents.getProjectComponents({
+      projectIdOrKey: projectId,
+    });
+}
+
+export function byName(name: string) {
+  return (item: { name?: string }) =>
+    item.name?.toLowerCase() === name.toLowerCase();
+}
+
+// The field list, reloaded once when one of the names is missing from the cached copy: the
+// field may have been created since. Other errors are left to the caller.
+async function loadFieldsKnowing(names: string[]): Promise<any[]> {
+  const load = () => jira().metadataCache.get("fields", metadataLoaders.fields);
+  const cached = jira().metadataCache.keys().includes("fields");
+  const fields: any[] = await load();
+  const known = (name: string) => {
+    const wanted = name.trim().toLowerCase();
+    return fields.some(
+      (f) => f.id?.toLowerCase() === wanted || f.name?.toLowerCase() === wanted
+    );
+  };
+  if (!cached || names.every(known)) return fields;
+  jira().metadataCache.invalidate("fields");
+  return load();
+}
+
+export async function resolveCustomFieldsCached(
+  input: Record<string, unknown>,
+  meta: FieldMetadataMap | undefined
+): Promise<Record<string, any>> {
+  const deployment = await getDeployment();
+  const fields = await loadFieldsKnowing(Object.keys(input));
+  return resolveCustomFields(input, fields, meta, {
+    userReference: (id: string) => userReference(deployment, id),
+  });
+}
+
+// Projection for the view/fields arguments of issue-returning tools
+export async function issueProjection(args: any): Promise<Projection> {
+  const view: IssueView | undefined = args.view;
+  if (!args.fields?.length) return viewProjection(view);
+  const fields = await loadFieldsKnowing(args.fields);
+  return fieldListProjection(args.fields, fields, view);
+}
+
+// --- Users ---
+// Server/Data Center searches by username/email via "username"; Cloud uses "query"
+export async function findUserByEmail(email: string): Promise<any> {
+  const users: any[] =
+    (await getDeployment()) === "cloud"
+      ? await jira().v2.userSearch.findUsers({ query: email, maxResults: 1 })
+      : await jira().v2.userSearch.findUsers({
+          username: email,
+          maxResults: 1,
+        });
+  if (users[0]?.emailAddress?.toLowerCase() === email.toLowerCase()) {
+    return users[0];
+  }
+  // Use InvalidRequest for resource not found type errors
+  throw new McpError(
+    ErrorCode.InvalidRequest,
+    `User with email "${email}" not found.`
+  );
+}
+
+// How endpoints that take a bare user identifier (watchers) name a user
+export async function userIdOf(user: any): Promise<string> {
+  return (await getDeployment()) === "cloud" ? user.accountId : user.name;
+}
+
+// --- Raw Requests ---
+// A REST API v2 call for which jira.js has no (usable) method. It still goes through the client,
+// so it gets the retries and rate limiting, and Jira's errors surface like those of other calls.
+export function sendV2Request<T = unknown>(config: RequestConfig): Promise<T> {
+  // The overload that returns the body declares its unused callback as `never`
+  return jira().v2.sendRequest<T>(config, undefined as never);
+}
+
+// --- Search ---
+// Check a query with Jira's JQL parser so syntax errors and unknown fields are reported clearly
+export async function validateJql(jql: string): Promise<void> {
+  const context = jira();
+  if (!context.jqlParseSupported || !jql.trim()) return;
+  let parsed;
+  try {
+    parsed = await context.v2.jql.parseJqlQueries({
+      queries: [jql],
+      validation: "strict",
+    });
+  } catch (error: any) {
+    if (error?.status === 404 || error?.status === 405) {
+      context.jqlParseSupported = false;
+    } else {
+      logger.warn("Failed to validate JQL, running the search anyway", {
+        error,
+        errorMessages: error?.errorMessages,
+      });
+    }
+    return;
+  }
+  const errors = parsed.queries?.[0]?.errors ?? [];
+  if (errors.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid JQL: ${errors.join("; ")} (query: ${jql})`
+    );
+  }
+}
+
+// Run a JQL search honouring startAt/maxResults/nextPageToken/fetchAll and describe
+// in the response whether more results exist and how to continue
+export async function searchIssuesPaged(jql: string, args: any): Promise<any> {
+  // Continuation pages reuse a query that was already validated
+  if (!args.nextPageToken) await validateJql(jql);
+  const projection = await issueProjection(args);
+  const startAt = args.nextPageToken
+    ? decodePageToken(args.nextPageToken, jql)
+    : args.startAt ?? 0;
+
+  if (!args.fetchAll) {
+    const pageSize = args.maxResults ?? DEFAULT_PAGE_SIZE;
+    const raw = await jira().v2.issueSearch.searchForIssuesUsingJql({
+      jql,
+      startAt,
+      maxResults: pageSize,
+      fields: projection.request,
+    });
+    const returned = raw.issues?.length ?? 0;
+    const total = raw.total ?? startAt + returned;
+    const nextStartAt = startAt + returned;
+    const hasMore = returned > 0 && nextStartAt < total;
+    return {
+      ...sanitizeIssuesResponse(raw, projection),
+      returned,
+      isLast: !hasMore,
+      truncated: hasMore,
+      nextPageToken: hasMore ? encodePageToken(jql, nextStartAt) : undefined,
+    };
+  }
+
+  const limit = Math.min(
+    args.maxIssues ?? FETCH_ALL_HARD_CAP,
+    FETCH_ALL_HARD_CAP
+  );
+  const pageSize = args.maxResults ?? MAX_PAGE_SIZE;
+  const collected: any[] = [];
+  let first: any;
+  let total: number | undefined;
+  let cursor = startAt;
+
+  while (collected.length < limit) {
+    const page = await jira().v2.issueSearch.searchForIssuesUsingJql({
+      jql,
+      startAt: cursor,
+      maxResults: Math.min(pageSize, limit - collected.length),
+      fields: projection.request,
+    });
+    first ??= page;
+    const issues = page.issues ?? [];
+    collected.push(...issues);
+    cursor += issues.length;
+    total = page.total ?? total;
+    if (issues.length === 0 || (total !== undefined && cursor >= total)) break;
+  }
+
+  const hasMore =
+    total === undefined ? collected.length >= limit : cursor < total;
+  return {
+    ...sanitizeIssuesResponse(
+      { ...first, startAt, issues: collected },
+      projection
+    ),
+    maxResults: limit,
+    returned: collected.length,
+    isLast: !hasMore,
+    truncated: hasMore,
+    nextPageToken: hasMore ? encodePageToken(jql, cursor) : undefined,
+  };
+}
+
+// --- Argument Parsing ---
+export function parseBoardId(value: number | string): number {
+  const boardId = typeof value === "string" ? parseInt(value, 10) : value;
+  if (!Number.isInteger(boardId) || boardId <= 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid board ID: ${value}. Must be a positive integer.`
+    );
+  }
+  return boardId;
+}
@@ -0,0 +1,181 @@
+import { readdir, readFile } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { quoteJql } from "../jql.js";
+import {
+  confirmTokenProperty,
+  issueViewProperties,
+  paginationProperties,
+  searchIssuesPaged,
+} from "./common.js";
+import { ToolDefinition, defineTool, toolAccess } from "./registry.js";
+
+// Tools added without forking: every .js/.mjs module and .json JQL macro in JIRA_TOOLS_DIR is
+// loaded at startup. Modules export a tool definition (or a list of them) as default or as
+// `tools`; macros describe a search with {placeholders} filled from the call's arguments.
+
+export interface JqlMacro {
+  name: string;
+  description: string;
+  // JQL with {parameter} placeholders, e.g. "project = {project} AND labels = {team}"
+  jql: string;
+  parameters?: Record<string, MacroParameter>;
+}
+
+export interface MacroParameter {
+  type?: "string" | "number";
+  description?: string;
+  // Parameters without a default are required
+  default?: string | number;
+  enum?: (string | number)[];
+}
+
+const TOOL_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+const PLACEHOLDER = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Fill the placeholders of a macro's JQL; values are quoted so they cannot change the query
+export function expandMacroJql(
+  macro: JqlMacro,
+  args: Record<string, unknown>
+): string {
+  return macro.jql.replace(PLACEHOLDER, (_, name: string) => {
+    const value = args[name] ?? macro.parameters?.[name]?.default;
+    if (value === undefined) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing value for parameter "${name}".`
+      );
+    }
+    return quoteJql(value as string | number);
+  });
+}
+
+function parseMacro(raw: any, source: string): JqlMacro {
+  const where = `JQL macro ${raw?.name ?? "without a name"} in ${source}`;
+  if (typeof raw?.name !== "string" || !TOOL_NAME.test(raw.name)) {
+    throw new Error(`${where}: name must be 1-64 letters, digits, "_" or "-".`);
+  }
+  if (typeof raw.description !== "string" || typeof raw.jql !== "string") {
+    throw new Error(`${where}: description and jql must be strings.`);
+  }
+  const parameters: Record<string, MacroParameter> = raw.parameters ?? {};
+  for (const [, name] of raw.jql.matchAll(PLACEHOLDER)) {
+    if (!parameters[name]) {
+      throw new Error(`${where}: {${name}} is not a declared parameter.`);
+    }
+  }
+  return {
+    name: raw.name,
+    description: raw.description,
+    jql: raw.jql,
+    parameters,
+  };
+}
+
+// A read-only search tool for a macro; it pages and projects like search_issues
+export function jqlMacroTool(macro: JqlMacro): ToolDefinition {
+  const parameters = macro.parameters ?? {};
+  const properties: Record<string, unknown> = {};
+  for (const [name, parameter] of Object.entries(parameters)) {
+    const { type = "string", ...rest } = parameter;
+    properties[name] = { type, ...rest };
+  }
+  return defineTool<Record<string, any>>({
+    name: macro.name,
+    description: `${macro.description} (JQL: ${macro.jql})`,
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...properties,
+        ...paginationProperties,
+        ...issueViewProperties,
+      },
+      required: Object.keys(parameters).filter(
+        (name) => parameters[name].default === undefined
+      ),
+      additionalProperties: false,
+    },
+    async handler(args) {
+      const jql = expandMacroJql(macro, args);
+      return { jql, ...(await searchIssuesPaged(jql, args)) };
+    },
+  });
+}
+
+function checkTool(tool: any, source: string): ToolDefinition {
+  const where = `Tool ${tool?.name ?? "without a name"} in ${source}`;
+  if (typeof tool?.name !== "string" || !TOOL_NAME.test(tool.name)) {
+    throw new Error(`${where}: name must be 1-64 letters, digits, "_" or "-".`);
+  }
+  if (typeof tool.description !== "string") {
+    throw new Error(`${where}: description must be a string.`);
+  }
+  if (tool.inputSchema?.type !== "object") {
+    throw new Error(`${where}: inputSchema must be an object schema.`);
+  }
+  if (typeof tool.handler !== "function") {
+    throw new Error(`${where}: handler must be a function.`);
+  }
+  const definition: ToolDefinition = {
+    ...tool,
+    inputSchema: { ...tool.inputSchema },
+    // Without annotations the tool counts as destructive (see toolAccess)
+    annotations: tool.annotations ?? {},
+  };
+  definition.inputSchema.properties = { ...tool.inputSchema.properties };
+  if (toolAccess(definition) === "destructive") {
+    // Needed to run it once confirmed, whatever the schema allows
+    definition.inputSchema.properties.confirmToken = confirmTokenProperty;
+  }
+  return definition;
+}
+
+async function loadFile(file: string): Promise<ToolDefinition[]> {
+  if (extname(file) === ".json") {
+    const content = JSON.parse(await readFile(file, "utf8"));
+    const macros = Array.isArray(content) ? content : [content];
+    return macros.map((macro) => jqlMacroTool(parseMacro(macro, file)));
+  }
+  const module = await import(pathToFileURL(file).href);
+  const exported = module.tools ?? module.default;
+  if (!exported) {
+    throw new Error(
+      `${file} must export a tool definition as default or a list of them as "tools".`
+    );
+  }
+  return (Array.isArray(exported) ? exported : [exported]).map((tool) =>
+    checkTool(tool, file)
+  );
+}
+
+// Tools defined in a directory, in file name order
+export async function loadCustomTools(
+  dir: string | undefined = process.env.JIRA_TOOLS_DIR
+): Promise<ToolDefinition[]> {
+  if (!dir) return [];
+  const root = resolve(dir);
+  let entries: string[];
+  try {
+    entries = (await readdir(root)).sort();
+  } catch (error: any) {
+    throw new Error(`Failed to read JIRA_TOOLS_DIR ${root}: ${error.message}`);
+  }
+
+  const tools: ToolDefinition[] = [];
+  for (const entry of entries) {
+    if (![".js", ".mjs", ".json"].includes(extname(entry))) continue;
+    const file = join(root, entry);
+    try {
+      tools.push(...(await loadFile(file)));
+    } catch (error: any) {
+      throw new Error(
+        error.message.includes(file)
+          ? error.message
+          : `Failed to load custom tools from ${file}: ${error.message}`
+      );
+    }
+  }
+  return tools;
+}
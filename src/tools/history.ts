@@ -0,0 +1,219 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { jira } from "../context.js";
+import { compactHistory, sumTimeInStatus, timeInStatus } from "../history.js";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, validateJql } from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Change history of issues and the time they spent in each status
+
+// Each issue's changelog is fetched separately, so keep JQL sets for time-in-status small
+const MAX_TIME_IN_STATUS_ISSUES = 200;
+
+// One page of an issue's changelog. Server/Data Center has no changelog endpoint, so fall back
+// to the changelog embedded in the issue and page through it locally.
+async function getChangelogPage(
+  issueKey: string,
+  startAt: number,
+  maxResults: number
+): Promise<{ histories: any[]; total: number }> {
+  try {
+    const page = await jira().v2.issues.getChangeLogs({
+      issueIdOrKey: issueKey,
+      startAt,
+      maxResults,
+    });
+    return {
+      histories: page.values ?? [],
+      total: page.total ?? startAt + (page.values?.length ?? 0),
+    };
+  } catch (error: any) {
+    if (error?.status !== 404) throw error;
+    const issue = await jira().v2.issues.getIssue({
+      issueIdOrKey: issueKey,
+      fields: ["created"],
+      expand: "changelog",
+    });
+    const histories = issue.changelog?.histories ?? [];
+    return {
+      histories: histories.slice(startAt, startAt + maxResults),
+      total: histories.length,
+    };
+  }
+}
+
+async function getFullChangelog(issueKey: string): Promise<any[]> {
+  const histories: any[] = [];
+  while (true) {
+    const page = await getChangelogPage(
+      issueKey,
+      histories.length,
+      MAX_PAGE_SIZE
+    );
+    histories.push(...page.histories);
+    if (page.histories.length === 0 || histories.length >= page.total) break;
+  }
+  return histories;
+}
+
+async function issueTimeInStatus(issue: any) {
+  const histories = await getFullChangelog(issue.key);
+  return {
+    key: issue.key,
+    summary: issue.fields?.summary,
+    currentStatus: issue.fields?.status?.name,
+    ...timeInStatus({
+      created: issue.fields?.created,
+      status: issue.fields?.status?.name,
+      assignee: issue.fields?.assignee?.displayName,
+      resolved: issue.fields?.resolutiondate ?? undefined,
+      histories,
+    }),
+  };
+}
+
+export const getIssueHistory = defineTool<{
+  issueKey: string;
+  fields?: string[];
+  startAt?: number;
+  maxResults?: number;
+}>({
+  name: "get_issue_history",
+  description:
+    "Get the change history of an issue, oldest first: who changed which field from what to what, and when",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+      fields: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Only include changes to these fields (e.g., ["status", "assignee"])',
+      },
+      startAt: {
+        type: "integer",
+        minimum: 0,
+        description: "Index of the first history entry to return (default 0)",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_PAGE_SIZE,
+        description: `History entries per page (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`,
+      },
+    },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { issueKey, fields } = args;
+    const startAt = args.startAt ?? 0;
+    const maxResults = args.maxResults ?? DEFAULT_PAGE_SIZE;
+    const page = await getChangelogPage(issueKey, startAt, maxResults);
+    const nextStartAt = startAt + page.histories.length;
+    const hasMore = page.histories.length > 0 && nextStartAt < page.total;
+    return {
+      issueKey,
+      total: page.total,
+      startAt,
+      returned: page.histories.length,
+      isLast: !hasMore,
+      nextStartAt: hasMore ? nextStartAt : undefined,
+      // With a field filter a page can hold fewer entries than returned
+      histories: page.histories
+        .map((history) => compactHistory(history, fields))
+        .filter(Boolean),
+    };
+  },
+});
+
+export const getTimeInStatus = defineTool<{
+  issueKey?: string;
+  jql?: string;
+  maxIssues?: number;
+}>({
+  name: "get_time_in_status",
+  description:
+    "Compute how long issues spent in each status and with each assignee, from their change history up to now, or up to the resolution date for resolved issues. Give one issueKey or a JQL query; for several issues the totals and averages are included",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+      jql: {
+        type: "string",
+        description:
+          'JQL selecting the issues (e.g., "project = PROJ AND resolved >= -14d")',
+      },
+      maxIssues: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_TIME_IN_STATUS_ISSUES,
+        description: `Maximum number of issues to analyse for a JQL query (default ${DEFAULT_PAGE_SIZE}, max ${MAX_TIME_IN_STATUS_ISSUES})`,
+      },
+    },
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { issueKey, jql } = args;
+    const issueFields = [
+      "summary",
+      "status",
+      "assignee",
+      "created",
+      "resolutiondate",
+    ];
+    if (!issueKey === !jql) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Provide either issueKey or jql."
+      );
+    }
+
+    if (issueKey) {
+      const issue = await jira().v2.issues.getIssue({
+        issueIdOrKey: issueKey,
+        fields: issueFields,
+      });
+      return issueTimeInStatus(issue);
+    }
+
+    await validateJql(jql!);
+    const limit = args.maxIssues ?? DEFAULT_PAGE_SIZE;
+    const issues: any[] = [];
+    let total = 0;
+    while (issues.length < limit) {
+      const page = await jira().v2.issueSearch.searchForIssuesUsingJql({
+        jql,
+        fields: issueFields,
+        startAt: issues.length,
+        maxResults: Math.min(MAX_PAGE_SIZE, limit - issues.length),
+      });
+      total = page.total ?? total;
+      issues.push(...(page.issues ?? []));
+      if (!page.issues?.length || issues.length >= total) break;
+    }
+
+    const perIssue = [];
+    for (const issue of issues) {
+      perIssue.push(await issueTimeInStatus(issue));
+    }
+    return {
+      jql,
+      total,
+      analysed: perIssue.length,
+      truncated: perIssue.length < total,
+      totals: sumTimeInStatus(perIssue),
+      issues: perIssue,
+    };
+  },
+});
+
+export const historyTools = [getIssueHistory, getTimeInStatus];
@@ -0,0 +1,24 @@
+import { agileTools } from "./agile.js";
+import { attachmentTools } from "./attachments.js";
+import { commentTools } from "./comments.js";
+import { historyTools } from "./history.js";
+import { issueTools } from "./issues.js";
+import { linkTools } from "./links.js";
+import { metadataTools } from "./metadata.js";
+import { searchTools } from "./search.js";
+import { watcherTools } from "./watchers.js";
+import { workflowTools } from "./workflow.js";
+import type { ToolDefinition } from "./registry.js";
+
+export const builtinTools: ToolDefinition[] = [
+  ...issueTools,
+  ...searchTools,
+  ...historyTools,
+  ...commentTools,
+  ...watcherTools,
+  ...workflowTools,
+  ...linkTools,
+  ...attachmentTools,
+  ...agileTools,
+  ...metadataTools,
+];
@@ -0,0 +1,916 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  BULK_CHUNK_SIZE,
+  BulkItem,
+  BulkItemResult,
+  MAX_BULK_ISSUES,
+  bulkResponseOutcomes,
+  planBulkCreate,
+} from "../bulkCreate.js";
+import { getDeployment, jira, toUserReference } from "../context.js";
+import { FieldMetadataMap } from "../customFields.js";
+import { logger } from "../logger.js";
+import { MarkupFormat, toJiraRichText, toMarkdown } from "../markup.js";
+import { IssueView } from "../projection.js";
+import { describeToolError } from "../errors.js";
+import {
+  deepPruneEmpty,
+  describeTransitions,
+  sanitizeIssue,
+} from "../sanitize.js";
+import {
+  PlannedRequest,
+  byName,
+  confirmTokenProperty,
+  customFieldsProperty,
+  dryRunProperty,
+  dryRunResult,
+  findUserByEmail,
+  issueProjection,
+  issueViewProperties,
+  loadProjectComponents,
+  metadataLoaders,
+  readFormatProperty,
+  resolveCustomFieldsCached,
+  restApi,
+  userIdOf,
+  writeFormatProperty,
+} from "./common.js";
+import { defineTool } from "./registry.js";
+import { addIssueWatcher } from "./watchers.js";
+
+// Reading, creating, updating and deleting issues
+
+// --- Issue Creation ---
+export interface IssueInput {
+  summary: string;
+  issueType: string;
+  description?: string;
+  descriptionFormat?: MarkupFormat;
+  assignee?: string;
+  labels?: string[];
+  components?: string[];
+  priority?: string;
+  customFields?: Record<string, unknown>;
+}
+
+// An item of bulk_create_issues; parent is the ref of another item or an existing issue key
+type BulkIssueInput = IssueInput & { ref?: string; parent?: string };
+
+async function getProjectRef(
+  projectKey: string
+): Promise<{ id: string; key: string }> {
+  const project = await jira().v2.projects.getProject({
+    projectIdOrKey: projectKey,
+  });
+  if (!project.id) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Could not find project with key "${projectKey}".`
+    );
+  }
+  return { id: project.id, key: project.key ?? projectKey };
+}
+
+// Build the create payload for one issue, resolving names to ids. Optional values that cannot
+// be resolved (priority, components) are left out and reported through warn.
+async function buildIssueFields(
+  project: { id: string; key: string },
+  input: IssueInput,
+  warn: (message: string) => void
+): Promise<{ fields: any; issueType: any }> {
+  const {
+    summary,
+    issueType,
+    description,
+    descriptionFormat,
+    assignee,
+    labels,
+    components,
+    priority,
+    customFields,
+  } = input;
+  const projectKey = project.key;
+
+  // Find issue type ID
+  const foundType = await jira().metadataCache.find(
+    "issueTypes",
+    metadataLoaders.issueTypes,
+    byName(issueType)
+  );
+  if (!foundType || !foundType.id) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Issue type "${issueType}" not found.`
+    );
+  }
+
+  // Find Priority ID (if provided)
+  let priorityId: string | undefined;
+  if (priority) {
+    try {
+      const foundPriority = await jira().metadataCache.find(
+        "priorities",
+        metadataLoaders.priorities,
+        byName(priority)
+      );
+      if (!foundPriority || !foundPriority.id) {
+        warn(
+          `Priority "${priority}" not found, issue will be created without priority.`
+        );
+        // Don't throw, just skip setting priority
+      } else {
+        priorityId = foundPriority.id;
+      }
+    } catch (e: any) {
+      warn(
+        `Failed to resolve priority ID for "${priority}", issue will be created without priority: ${e.message}`
+      );
+    }
+  }
+
+  // Find Component IDs (if provided)
+  let componentObjects: { id: string }[] = []; // Initialize as empty array
+  if (components && components.length > 0 && project.id) {
+    try {
+      for (const compName of components as string[]) {
+        const foundComp = await jira().metadataCache.find(
+          `components:${project.id}`,
+          loadProjectComponents(project.id),
+          byName(compName)
+        );
+        if (!foundComp || !foundComp.id) {
+          warn(
+            `Component "${compName}" not found in project ${projectKey}, skipping.`
+          );
+          continue;
+        }
+        componentObjects.push({ id: foundComp.id });
+      }
+    } catch (e: any) {
+      warn(
+        `Failed to resolve component IDs for project ${projectKey}, issue will be created without components: ${e.message}`
+      );
+    }
+  }
+
+  // Construct fields object step-by-step
+  const fields: any = {
+    project: { id: project.id },
+    summary,
+    issuetype: { id: foundType.id },
+  };
+
+  // Add optional fields conditionally
+  if (description)
+    fields.description = toJiraRichText(description, descriptionFormat);
+  if (assignee) fields.assignee = await toUserReference(assignee);
+  if (labels) fields.labels = labels;
+  if (componentObjects.length > 0) fields.components = componentObjects;
+  if (priorityId) fields.priority = { id: priorityId };
+
+  // Resolve custom fields by name against the create screen of the project and issue type
+  if (customFields && Object.keys(customFields).length > 0) {
+    let createMeta: FieldMetadataMap | undefined;
+    try {
+      const typeId = foundType.id;
+      const meta = await jira().metadataCache.get(
+        `createMeta:${projectKey}:${typeId}`,
+        () =>
+          jira().v2.issues.getCreateIssueMeta({
+            projectKeys: [projectKey],
+            issuetypeIds: [typeId],
+            expand: "projects.issuetypes.fields",
+          })
+      );
+      createMeta = meta.projects?.[0]?.issuetypes?.[0]?.fields as
+        | FieldMetadataMap
+        | undefined;
+    } catch (e: any) {
+      warn(
+        `Failed to load create metadata for project ${projectKey}, custom field values will not be checked against allowed values: ${e.message}`
+      );
+    }
+    Object.assign(
+      fields,
+      await resolveCustomFieldsCached(customFields, createMeta)
+    );
+  }
+
+  return { fields, issueType: foundType };
+}
+
+// Epics and subtasks are linked through "parent" on Cloud; Server/DC stories use the Epic Link field
+async function parentFields(
+  parentKey: string,
+  issueType: { subtask?: boolean }
+): Promise<Record<string, any>> {
+  if (issueType.subtask || (await getDeployment()) === "cloud") {
+    return { parent: { key: parentKey } };
+  }
+  const fields = await jira().metadataCache.get(
+    "fields",
+    metadataLoaders.fields
+  );
+  const epicLink = fields.find((f) =>
+    f.schema?.custom?.endsWith(":gh-epic-link")
+  );
+  return epicLink?.id
+    ? { [epicLink.id]: parentKey }
+    : { parent: { key: parentKey } };
+}
+
+// --- Tools ---
+export const getIssue = defineTool<{
+  issueKey: string;
+  descriptionFormat?: "markdown" | "raw";
+  view?: IssueView;
+  fields?: string[];
+}>({
+  name: "get_issue",
+  description: "Get a specific Jira issue by key",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue to retrieve (e.g., "PROJ-123")',
+      },
+      descriptionFormat: readFormatProperty,
+      ...issueViewProperties,
+    },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { issueKey, descriptionFormat } = args;
+    const projection = await issueProjection(args);
+    const issue = await jira().v2.issues.getIssue({
+      issueIdOrKey: issueKey,
+      fields: projection.request,
+    });
+    if (descriptionFormat !== "raw" && issue.fields?.description) {
+      issue.fields.description = toMarkdown(issue.fields.description);
+    }
+    return sanitizeIssue(issue, projection);
+  },
+});
+
+export const createIssue = defineTool<
+  IssueInput & {
+    projectKey: string;
+    parentKey?: string;
+    watch?: string[];
+    dryRun?: boolean;
+  }
+>({
+  name: "create_issue",
+  description: "Create a new Jira issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectKey: {
+        type: "string",
+        description: 'Project key (e.g., "PROJ")',
+      },
+      summary: { type: "string", description: "Issue summary/title" },
+      issueType: {
+        type: "string",
+        description: 'Name of the issue type (e.g., "Task", "Bug")',
+      },
+      description: {
+        type: "string",
+        description:
+          "Detailed description (Markdown by default, see descriptionFormat)",
+      },
+      descriptionFormat: writeFormatProperty,
+      assignee: {
+        type: "string",
+        description:
+          "Account ID (Jira Cloud) or username (Server/Data Center) of the assignee (use get_user to find)",
+      },
+      labels: {
+        type: "array",
+        items: { type: "string" },
+        description: "Array of labels",
+      },
+      components: {
+        type: "array",
+        items: { type: "string" },
+        description: "Array of component names",
+      },
+      priority: { type: "string", description: "Issue priority name" },
+      parentKey: {
+        type: "string",
+        description:
+          'Key of the parent issue: the epic for a story, or the issue a subtask belongs to (e.g., "PROJ-10")',
+      },
+      customFields: customFieldsProperty,
+      watch: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Email addresses of users to add as watchers once the issue is created",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["projectKey", "summary", "issueType"],
+    additionalProperties: false,
+  },
+  async handler(args, { warn, warnings }) {
+    const { projectKey, parentKey, descriptionFormat } = args;
+
+    const project = await getProjectRef(projectKey);
+    const { fields, issueType: foundType } = await buildIssueFields(
+      project,
+      args,
+      warn
+    );
+    if (parentKey) {
+      Object.assign(fields, await parentFields(parentKey, foundType));
+    }
+    // Resolved up front so an unknown email fails before anything is created
+    const watchers: { email: string; userId: string }[] = [];
+    for (const email of args.watch ?? []) {
+      watchers.push({
+        email,
+        userId: await userIdOf(await findUserByEmail(email)),
+      });
+    }
+
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `${restApi(descriptionFormat)}/issue`,
+            body: { fields },
+          },
+          ...watchers.map(({ userId }) => ({
+            method: "POST" as const,
+            path: "/rest/api/2/issue/{new issue key}/watchers",
+            body: userId,
+          })),
+        ],
+        warnings
+      );
+    }
+
+    // Create issue
+    const created =
+      descriptionFormat === "adf"
+        ? await jira().v3.issues.createIssue({ fields })
+        : await jira().v2.issues.createIssue({ fields });
+    if (watchers.length === 0) return created;
+
+    // The issue exists at this point, so failures are reported instead of failing the call
+    const watching: string[] = [];
+    const watcherErrors: { email: string; error: string }[] = [];
+    for (const { email, userId } of watchers) {
+      try {
+        await addIssueWatcher(created.key, userId);
+        watching.push(email);
+      } catch (error: any) {
+        warn(`Failed to add ${email} as a watcher of ${created.key}`);
+        watcherErrors.push({ email, error: describeToolError(error).message });
+      }
+    }
+    return {
+      ...created,
+      watchers: watching,
+      watcherErrors: watcherErrors.length > 0 ? watcherErrors : undefined,
+    };
+  },
+});
+
+export const updateIssue = defineTool<{
+  issueKey: string;
+  summary?: string;
+  description?: string;
+  descriptionFormat?: MarkupFormat;
+  assignee?: string | null;
+  status?: string;
+  priority?: string;
+  customFields?: Record<string, unknown>;
+  dryRun?: boolean;
+  view?: IssueView;
+  fields?: string[];
+}>({
+  name: "update_issue",
+  description: "Update an existing Jira issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue to update (e.g., "PROJ-123")',
+      },
+      summary: { type: "string", description: "New summary/title" },
+      description: {
+        type: "string",
+        description:
+          "New description (Markdown by default, see descriptionFormat)",
+      },
+      descriptionFormat: writeFormatProperty,
+      assignee: {
+        type: "string",
+        description:
+          'Account ID (Jira Cloud) or username (Server/Data Center) of the new assignee (use get_user to find); "null" unassigns',
+      },
+      status: {
+        type: "string",
+        description:
+          "New status name (requires transition ID internally). Use transition_issue for transitions that need a resolution or other screen fields.",
+      },
+      priority: { type: "string", description: "New priority name" },
+      customFields: customFieldsProperty,
+      dryRun: dryRunProperty,
+      ...issueViewProperties,
+    },
+    required: ["issueKey"],
+    minProperties: 2, // Must provide issueKey and at least one field to update
+    additionalProperties: false,
+  },
+  async handler(args, { warn, warnings }) {
+    const {
+      issueKey,
+      summary,
+      description,
+      descriptionFormat,
+      assignee,
+      status,
+      priority,
+      customFields,
+    } = args;
+
+    const fieldsToUpdate: any = {};
+
+    if (summary) fieldsToUpdate.summary = summary;
+    if (description)
+      fieldsToUpdate.description = toJiraRichText(
+        description,
+        descriptionFormat
+      );
+
+    // Handle assignee separately - try different approaches
+    if (assignee !== undefined) {
+      try {
+        if (assignee === null || assignee === "null") {
+          // For unassigning, try setting to null in the field update
+          logger.debug(`Unassigning issue ${issueKey}`);
+          fieldsToUpdate.assignee = null;
+        } else {
+          logger.debug(`Assigning issue ${issueKey}`, { assignee });
+
+          // Cloud expects accountId, Server/Data Center expects the username
+          fieldsToUpdate.assignee = await toUserReference(assignee);
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to prepare assignee for issue ${issueKey}`, {
+          error,
+        });
+      }
+    }
+
+    // Resolve Priority ID if name provided
+    if (priority) {
+      try {
+        const foundPriority = await jira().metadataCache.find(
+          "priorities",
+          metadataLoaders.priorities,
+          byName(priority)
+        );
+        if (foundPriority?.id) {
+          fieldsToUpdate.priority = { id: foundPriority.id };
+        } else {
+          warn(`Priority "${priority}" not found, skipping update.`);
+        }
+      } catch (e: any) {
+        warn(
+          `Failed to resolve priority ID for "${priority}", skipping update: ${e.message}`
+        );
+      }
+    }
+
+    // --- Status Change (Transition) ---
+    // Look the transition up before writing anything, so an unreachable status fails the whole
+    // update instead of applying the field changes alone
+    let transitionId: string | undefined;
+    if (status) {
+      const response = await jira().v2.issues.getTransitions({
+        issueIdOrKey: issueKey,
+      });
+      const transitions: any[] = response.transitions || [];
+      const target = transitions.find(
+        (t) => t.to?.name?.toLowerCase() === status.toLowerCase()
+      );
+      if (!target?.id) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Status "${status}" cannot be reached from the current status of issue ${issueKey}. Available transitions: ${
+            describeTransitions(transitions) || "none"
+          }`
+        );
+      }
+      transitionId = target.id;
+    }
+
+    // Resolve custom fields by name against the edit screen of this issue
+    if (customFields && Object.keys(customFields).length > 0) {
+      let editMeta: FieldMetadataMap | undefined;
+      try {
+        const meta = await jira().v2.issues.getEditIssueMeta({
+          issueIdOrKey: issueKey,
+        });
+        editMeta = meta.fields as FieldMetadataMap;
+      } catch (e: any) {
+        warn(
+          `Failed to load edit metadata for issue ${issueKey}, custom field values will not be checked against allowed values: ${e.message}`
+        );
+      }
+      Object.assign(
+        fieldsToUpdate,
+        await resolveCustomFieldsCached(customFields, editMeta)
+      );
+    }
+
+    if (args.dryRun) {
+      const requests: PlannedRequest[] = [];
+      if (Object.keys(fieldsToUpdate).length > 0) {
+        requests.push({
+          method: "PUT",
+          path: `${restApi(descriptionFormat)}/issue/${issueKey}`,
+          body: { fields: fieldsToUpdate },
+        });
+      }
+      if (transitionId) {
+        requests.push({
+          method: "POST",
+          path: `/rest/api/2/issue/${issueKey}/transitions`,
+          body: { transition: { id: transitionId } },
+        });
+      }
+      return dryRunResult(requests, warnings);
+    }
+
+    // Perform field updates first (if any)
+    if (Object.keys(fieldsToUpdate).length > 0) {
+      logger.debug(`Updating issue ${issueKey}`, {
+        fields: fieldsToUpdate,
+      });
+      try {
+        // ADF descriptions can only be written through the v3 API
+        if (descriptionFormat === "adf") {
+          await jira().v3.issues.editIssue({
+            issueIdOrKey: issueKey,
+            fields: fieldsToUpdate,
+          });
+        } else {
+          await jira().v2.issues.editIssue({
+            issueIdOrKey: issueKey,
+            fields: fieldsToUpdate,
+          });
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to update issue ${issueKey}`, {
+          error,
+          errorMessages: error?.errorMessages,
+          errors: error?.errors,
+        });
+        throw error;
+      }
+    } else if (!transitionId) {
+      // Nothing to update and no transition found
+      return {
+        success: true,
+        message: `No valid fields or status transition provided for issue ${issueKey}. No update performed.`,
+      };
+    }
+
+    // Perform transition if found
+    if (transitionId) {
+      logger.debug(
+        `Transitioning issue ${issueKey} to status "${status}" (transition ${transitionId})`
+      );
+      await jira().v2.issues.doTransition({
+        issueIdOrKey: issueKey,
+        transition: { id: transitionId },
+      });
+    }
+
+    // Fetch the updated issue to return its current state
+    const projection = await issueProjection(args);
+    const updated = await jira().v2.issues.getIssue({
+      issueIdOrKey: issueKey,
+      fields: projection.request,
+    });
+    return sanitizeIssue(updated, projection);
+  },
+});
+
+export const deleteIssue = defineTool<{
+  issueKey: string;
+  confirmToken?: string;
+  dryRun?: boolean;
+}>({
+  name: "delete_issue",
+  description: "Delete a Jira issue or subtask",
+  annotations: { readOnlyHint: false, destructiveHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue to delete (e.g., "PROJ-123")',
+      },
+      confirmToken: confirmTokenProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async describeCall({ issueKey }) {
+    const issue = await jira().v2.issues.getIssue({
+      issueIdOrKey: issueKey,
+      fields: ["summary", "issuetype", "subtasks"],
+    });
+    const subtasks = issue.fields?.subtasks?.length ?? 0;
+    return `Delete ${issue.fields?.issuetype?.name ?? "issue"} ${issue.key} "${
+      issue.fields?.summary
+    }"${
+      subtasks > 0 ? ` and its ${subtasks} subtask(s)` : ""
+    }. This cannot be undone.`;
+  },
+  async handler(args, { warnings }) {
+    if (args.dryRun) {
+      return dryRunResult(
+        [{ method: "DELETE", path: `/rest/api/2/issue/${args.issueKey}` }],
+        warnings
+      );
+    }
+    await jira().v2.issues.deleteIssue({
+      issueIdOrKey: args.issueKey,
+    });
+    // Delete returns no content on success (204)
+    return {
+      success: true,
+      message: `Issue ${args.issueKey} deleted successfully.`,
+    };
+  },
+});
+
+export const bulkCreateIssues = defineTool<{
+  projectKey: string;
+  issues: BulkIssueInput[];
+  descriptionFormat?: MarkupFormat;
+  onError?: "continue" | "rollback";
+  resumeFrom?: Record<string, string>;
+  dryRun?: boolean;
+}>({
+  name: "bulk_create_issues",
+  description:
+    "Create a tree of issues (e.g. epic -> stories -> subtasks) in one project using Jira's bulk create endpoint. Issues refer to their parent by the ref of another issue in the batch or by an existing issue key. Reports the result per issue; pass the returned refs as resumeFrom to retry only the issues that were not created",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectKey: {
+        type: "string",
+        description: 'Project key (e.g., "PROJ")',
+      },
+      issues: {
+        type: "array",
+        minItems: 1,
+        maxItems: MAX_BULK_ISSUES,
+        description: `Issues to create, up to ${MAX_BULK_ISSUES}. Parents may appear anywhere in the list`,
+        items: {
+          type: "object",
+          properties: {
+            ref: {
+              type: "string",
+              description:
+                'Local reference other issues can use as parent (e.g., "epic"). Defaults to the 1-based position in the list',
+            },
+            parent: {
+              type: "string",
+              description:
+                'Ref of another issue in the batch, or key of an existing issue (e.g., "PROJ-10")',
+            },
+            summary: { type: "string", description: "Issue summary/title" },
+            issueType: {
+              type: "string",
+              description:
+                'Name of the issue type (e.g., "Epic", "Story", "Sub-task")',
+            },
+            description: {
+              type: "string",
+              description: "Detailed description, in descriptionFormat",
+            },
+            assignee: {
+              type: "string",
+              description:
+                "Account ID (Jira Cloud) or username (Server/Data Center) of the assignee",
+            },
+            labels: { type: "array", items: { type: "string" } },
+            components: {
+              type: "array",
+              items: { type: "string" },
+              description: "Component names",
+            },
+            priority: { type: "string", description: "Priority name" },
+            customFields: customFieldsProperty,
+          },
+          required: ["summary", "issueType"],
+          additionalProperties: false,
+        },
+      },
+      descriptionFormat: writeFormatProperty,
+      onError: {
+        type: "string",
+        enum: ["continue", "rollback"],
+        description:
+          'What to do when an issue fails: "continue" (default) creates everything else except the children of failed issues; "rollback" stops and deletes the issues created by this call',
+      },
+      resumeFrom: {
+        type: "object",
+        additionalProperties: { type: "string" },
+        description:
+          "Map of ref to issue key from a previous call (its refs field). Those issues are not created again and are used as parents",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["projectKey", "issues"],
+    additionalProperties: false,
+  },
+  async handler(args, { warn, warnings }) {
+    const {
+      projectKey,
+      issues,
+      descriptionFormat,
+      onError = "continue",
+      resumeFrom = {},
+    } = args;
+    const levels = planBulkCreate(issues);
+    const project = await getProjectRef(projectKey);
+
+    const keys: Record<string, string> = {};
+    const outcomes = new Map<string, BulkItemResult>();
+    const created: { ref: string; key: string }[] = [];
+    const planned: PlannedRequest[] = [];
+    const outcome = (
+      item: BulkItem,
+      status: BulkItemResult["status"],
+      extra: Partial<BulkItemResult> = {}
+    ) =>
+      outcomes.set(item.ref, {
+        ref: item.ref,
+        summary: item.input.summary,
+        status,
+        parent: item.parentKey ?? item.parentRef,
+        ...extra,
+      });
+    const stopped = () =>
+      onError === "rollback" &&
+      [...outcomes.values()].some((o) => o.status === "failed");
+
+    for (const level of levels) {
+      const ready: { item: BulkItem; fields: any }[] = [];
+      for (const item of level) {
+        const existing = resumeFrom[item.ref];
+        if (existing) {
+          keys[item.ref] = existing;
+          outcome(item, "existing", { key: existing });
+          continue;
+        }
+        const parent =
+          item.parentKey ?? (item.parentRef ? keys[item.parentRef] : undefined);
+        if (item.parentRef && !parent) {
+          outcome(item, "skipped", {
+            error: `Parent "${item.parentRef}" was not created`,
+          });
+          continue;
+        }
+        try {
+          const { fields, issueType } = await buildIssueFields(
+            project,
+            { ...item.input, descriptionFormat },
+            (message) => warn(`${item.ref}: ${message}`)
+          );
+          if (parent) {
+            Object.assign(fields, await parentFields(parent, issueType));
+          }
+          ready.push({ item, fields });
+        } catch (e: any) {
+          outcome(item, "failed", { error: e.message });
+        }
+      }
+      if (stopped()) break;
+
+      for (let i = 0; i < ready.length; i += BULK_CHUNK_SIZE) {
+        const chunk = ready.slice(i, i + BULK_CHUNK_SIZE);
+        const issueUpdates = chunk.map(({ fields }) => ({ fields }));
+        if (args.dryRun) {
+          planned.push({
+            method: "POST",
+            path: `${restApi(descriptionFormat)}/issue/bulk`,
+            body: { issueUpdates },
+          });
+          for (const { item } of chunk) {
+            // Placeholder so children show where the parent key goes
+            keys[item.ref] = `<key of ${item.ref}>`;
+            outcome(item, "planned");
+          }
+          continue;
+        }
+
+        let response: any;
+        try {
+          response =
+            descriptionFormat === "adf"
+              ? await jira().v3.issues.createIssues({ issueUpdates })
+              : await jira().v2.issues.createIssues({ issueUpdates });
+        } catch (e: any) {
+          // When every issue fails Jira answers 400 with the same per-issue errors
+          if (!Array.isArray(e?.errors)) throw e;
+          response = e;
+        }
+        bulkResponseOutcomes(chunk.length, response).forEach((result, n) => {
+          const { item } = chunk[n];
+          if ("key" in result) {
+            keys[item.ref] = result.key;
+            created.push({ ref: item.ref, key: result.key });
+            outcome(item, "created", { key: result.key });
+          } else {
+            outcome(item, "failed", { error: result.error });
+          }
+        });
+      }
+      if (stopped()) break;
+    }
+
+    // Children are deleted before their parents
+    if (stopped() && !args.dryRun) {
+      for (const { ref, key } of [...created].reverse()) {
+        try {
+          await jira().v2.issues.deleteIssue({
+            issueIdOrKey: key,
+            deleteSubtasks: true,
+          });
+          outcomes.get(ref)!.status = "rolledBack";
+          delete keys[ref];
+        } catch (e: any) {
+          warn(`Failed to roll back ${key}: ${e.message}`);
+        }
+      }
+    }
+
+    const items = levels
+      .flat()
+      .sort((a, b) => a.index - b.index)
+      .map(
+        (item) =>
+          outcomes.get(item.ref) ?? {
+            ref: item.ref,
+            summary: item.input.summary,
+            status: "skipped" as const,
+            error: "Not attempted after an earlier failure",
+          }
+      );
+    if (args.dryRun) {
+      return { ...dryRunResult(planned, warnings), items };
+    }
+
+    const count = (status: string) =>
+      items.filter((item) => item.status === status).length;
+    const incomplete = count("failed") + count("skipped");
+    return deepPruneEmpty({
+      success: incomplete === 0 && count("rolledBack") === 0,
+      message:
+        `Created ${count("created")} of ${items.length} issue(s)` +
+        (count("existing") ? `, ${count("existing")} already existed` : "") +
+        (incomplete
+          ? `; ${count("failed")} failed and ${count("skipped")} were skipped`
+          : "") +
+        (count("rolledBack")
+          ? `; rolled back ${count("rolledBack")} issue(s)`
+          : "") +
+        (incomplete && onError === "continue"
+          ? ". Fix the failed issues and call again with resumeFrom set to refs to create only what is missing."
+          : "."),
+      items,
+      refs: keys,
+      warnings,
+    });
+  },
+});
+
+export const issueTools = [
+  getIssue,
+  createIssue,
+  updateIssue,
+  deleteIssue,
+  bulkCreateIssues,
+];
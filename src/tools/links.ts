@@ -0,0 +1,306 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { jira } from "../context.js";
+import {
+  LinkTypeMatch,
+  describeIssueLink,
+  describeLinkTypes,
+  findLinkType,
+  sanitizeRemoteLink,
+} from "../links.js";
+import {
+  confirmTokenProperty,
+  dryRunProperty,
+  dryRunResult,
+  metadataLoaders,
+} from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Links between issues, and remote links from an issue to a URL (pull requests, builds, docs)
+
+const issueKeyProperty = {
+  type: "string",
+  description: 'The Jira issue key (e.g., "PROJ-123")',
+};
+
+// Resolve a link type from the cache, reloading once in case it was created since
+async function resolveLinkType(ref: string): Promise<LinkTypeMatch> {
+  const load = () =>
+    jira().metadataCache.get("linkTypes", metadataLoaders.linkTypes);
+  let linkTypes = await load();
+  let match = findLinkType(linkTypes, ref);
+  if (!match) {
+    jira().metadataCache.invalidate("linkTypes");
+    linkTypes = await load();
+    match = findLinkType(linkTypes, ref);
+  }
+  if (!match) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown link type "${ref}". Available link types: ${
+        describeLinkTypes(linkTypes) || "none"
+      }`
+    );
+  }
+  return match;
+}
+
+export const listLinkTypes = defineTool<{}>({
+  name: "list_link_types",
+  description: "List all available issue link types",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: [],
+    additionalProperties: false,
+  },
+  async handler() {
+    return jira().v2.issueLinkTypes.getIssueLinkTypes();
+  },
+});
+
+export const getIssueLinks = defineTool<{ issueKey: string }>({
+  name: "get_issue_links",
+  description:
+    'List the links of an issue to other issues, each read from this issue (e.g., "PROJ-1 is blocked by PROJ-2")',
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: { issueKey: issueKeyProperty },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey }) {
+    const issue = await jira().v2.issues.getIssue({
+      issueIdOrKey: issueKey,
+      fields: ["issuelinks"],
+    });
+    return {
+      issueKey: issue.key,
+      links: (issue.fields?.issuelinks || []).map((link: any) =>
+        describeIssueLink(issue.key, link)
+      ),
+    };
+  },
+});
+
+export const createIssueLink = defineTool<{
+  inwardIssueKey: string;
+  outwardIssueKey: string;
+  linkType: string;
+  dryRun?: boolean;
+}>({
+  name: "create_issue_link",
+  description:
+    'Create a link between two issues; it reads "inwardIssueKey linkType outwardIssueKey"',
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      inwardIssueKey: {
+        type: "string",
+        description: 'Key of the inward issue (e.g., "PROJ-123")',
+      },
+      outwardIssueKey: {
+        type: "string",
+        description: 'Key of the outward issue (e.g., "PROJ-456")',
+      },
+      linkType: {
+        type: "string",
+        description:
+          'Name of the link type (e.g., "Blocks") or its description in either direction (e.g., "blocks" or "is blocked by"; see list_link_types)',
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["inwardIssueKey", "outwardIssueKey", "linkType"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { name, reversed } = await resolveLinkType(args.linkType);
+    // "A is blocked by B" is sent as "B blocks A"
+    const [from, to] = reversed
+      ? [args.outwardIssueKey, args.inwardIssueKey]
+      : [args.inwardIssueKey, args.outwardIssueKey];
+    const link = {
+      type: { name },
+      inwardIssue: { key: from },
+      outwardIssue: { key: to },
+    };
+    if (args.dryRun) {
+      return dryRunResult(
+        [{ method: "POST", path: "/rest/api/2/issueLink", body: link }],
+        warnings
+      );
+    }
+    await jira().v2.issueLinks.linkIssues(link);
+    // Link returns no content on success (201)
+    return {
+      success: true,
+      message: `Link created: ${args.inwardIssueKey} ${args.linkType} ${args.outwardIssueKey}.`,
+    };
+  },
+});
+
+export const deleteIssueLink = defineTool<{
+  linkId: string;
+  confirmToken?: string;
+  dryRun?: boolean;
+}>({
+  name: "delete_issue_link",
+  description:
+    "Delete a link between two issues (find its id with get_issue_links)",
+  annotations: { readOnlyHint: false, destructiveHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      linkId: { type: "string", description: "ID of the issue link" },
+      confirmToken: confirmTokenProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["linkId"],
+    additionalProperties: false,
+  },
+  async handler({ linkId, dryRun }, { warnings }) {
+    if (dryRun) {
+      return dryRunResult(
+        [{ method: "DELETE", path: `/rest/api/2/issueLink/${linkId}` }],
+        warnings
+      );
+    }
+    await jira().v2.issueLinks.deleteIssueLink({ linkId });
+    // Delete returns no content on success (204)
+    return { success: true, message: `Issue link ${linkId} deleted.` };
+  },
+  async describeCall({ linkId }) {
+    const link = await jira().v2.issueLinks.getIssueLink({ linkId });
+    return `Delete the link "${link.inwardIssue?.key} ${link.type?.outward} ${link.outwardIssue?.key}" (id ${linkId}).`;
+  },
+});
+
+export const addRemoteLink = defineTool<{
+  issueKey: string;
+  url: string;
+  title: string;
+  summary?: string;
+  relationship?: string;
+  globalId?: string;
+  iconUrl?: string;
+  dryRun?: boolean;
+}>({
+  name: "add_remote_link",
+  description:
+    "Link an issue to a URL such as a pull request, CI run or document. Adding the same URL (or globalId) again updates the existing link",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: issueKeyProperty,
+      url: {
+        type: "string",
+        pattern: "^https?://",
+        description: "URL the link points to",
+      },
+      title: {
+        type: "string",
+        description: 'Link text (e.g., "PR #42: Fix login redirect")',
+      },
+      summary: {
+        type: "string",
+        description: "Short description shown next to the link",
+      },
+      relationship: {
+        type: "string",
+        description:
+          'Heading the link is grouped under on the issue (e.g., "pull requests", "builds")',
+      },
+      globalId: {
+        type: "string",
+        description:
+          "Identifier of the linked object, unique per issue. Defaults to the URL",
+      },
+      iconUrl: {
+        type: "string",
+        pattern: "^https?://",
+        description: "URL of a 16x16 icon shown with the link",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "url", "title"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { issueKey, url, title, summary, relationship, iconUrl } = args;
+    const body = {
+      globalId: args.globalId ?? url,
+      relationship,
+      object: {
+        url,
+        title,
+        summary,
+        icon: iconUrl ? { url16x16: iconUrl, title } : undefined,
+      },
+    };
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `/rest/api/2/issue/${issueKey}/remotelink`,
+            body,
+          },
+        ],
+        warnings
+      );
+    }
+    const created =
+      await jira().v2.issueRemoteLinks.createOrUpdateRemoteIssueLink({
+        issueIdOrKey: issueKey,
+        ...body,
+      });
+    return {
+      success: true,
+      id: created.id,
+      message: `${url} linked to ${issueKey}.`,
+    };
+  },
+});
+
+export const listRemoteLinks = defineTool<{
+  issueKey: string;
+  globalId?: string;
+}>({
+  name: "list_remote_links",
+  description:
+    "List the remote links of an issue: URLs of pull requests, builds, documents and other web pages",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: issueKeyProperty,
+      globalId: {
+        type: "string",
+        description: "Only return the link with this globalId",
+      },
+    },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey, globalId }) {
+    const links = await jira().v2.issueRemoteLinks.getRemoteIssueLinks({
+      issueIdOrKey: issueKey,
+      globalId,
+    });
+    // A globalId filter returns the single link instead of a list
+    const list = Array.isArray(links) ? links : [links];
+    return { issueKey, remoteLinks: list.map(sanitizeRemoteLink) };
+  },
+});
+
+export const linkTools = [
+  listLinkTypes,
+  getIssueLinks,
+  createIssueLink,
+  deleteIssueLink,
+  addRemoteLink,
+  listRemoteLinks,
+];
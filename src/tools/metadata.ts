@@ -0,0 +1,158 @@
+import { jira } from "../context.js";
+import {
+  findUserByEmail,
+  loadProjectComponents,
+  metadataLoaders,
+} from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Fields, issue types and users, most of them served from the metadata cache
+
+export const listFields = defineTool<{}>({
+  name: "list_fields",
+  description: "List all available fields in the Jira instance",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: [],
+    additionalProperties: false,
+  },
+  async handler() {
+    return jira().metadataCache.get("fields", metadataLoaders.fields);
+  },
+});
+
+export const listIssueTypes = defineTool<{}>({
+  name: "list_issue_types",
+  description: "List all available issue types",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: [],
+    additionalProperties: false,
+  },
+  async handler() {
+    return jira().metadataCache.get("issueTypes", metadataLoaders.issueTypes);
+  },
+});
+
+export const getUser = defineTool<{ email: string }>({
+  name: "get_user",
+  description:
+    "Get a user by email address, including the account ID (Jira Cloud) or username (Server/Data Center) used to assign issues",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      email: { type: "string", description: "User's email address" },
+    },
+    required: ["email"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    return findUserByEmail(args.email); // Full user object, including accountId
+  },
+});
+
+export const refreshMetadata = defineTool<{
+  scope?:
+    | "all"
+    | "priorities"
+    | "issueTypes"
+    | "fields"
+    | "linkTypes"
+    | "components"
+    | "createMeta";
+  projectKey?: string;
+}>({
+  name: "refresh_metadata",
+  description:
+    "Clear and reload cached Jira metadata (priorities, issue types, fields, link types, project components and create screens)",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      scope: {
+        type: "string",
+        description:
+          'What to refresh: "all" (default), "priorities", "issueTypes", "fields", "linkTypes", "components" or "createMeta"',
+        enum: [
+          "all",
+          "priorities",
+          "issueTypes",
+          "fields",
+          "linkTypes",
+          "components",
+          "createMeta",
+        ],
+      },
+      projectKey: {
+        type: "string",
+        description:
+          'Limit "components" and "createMeta" to one project (e.g., "PROJ"); required to reload components',
+      },
+    },
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { scope = "all", projectKey } = args;
+    const refreshed: Record<string, number> = {};
+
+    if (scope === "all") jira().metadataCache.invalidate();
+    for (const key of [
+      "priorities",
+      "issueTypes",
+      "fields",
+      "linkTypes",
+    ] as const) {
+      if (scope === "all" || scope === key) {
+        jira().metadataCache.invalidate(key);
+        const values = await jira().metadataCache.get(
+          key,
+          metadataLoaders[key]
+        );
+        refreshed[key] = values.length;
+      }
+    }
+
+    if (scope === "createMeta") {
+      // Cached under the key Jira returns for the project, which is upper case
+      jira().metadataCache.invalidate(
+        projectKey ? `createMeta:${projectKey.toUpperCase()}` : "createMeta"
+      );
+    }
+
+    if (scope === "all" || scope === "components") {
+      if (projectKey) {
+        const project = await jira().v2.projects.getProject({
+          projectIdOrKey: projectKey,
+        });
+        if (project.id) {
+          jira().metadataCache.invalidate(`components:${project.id}`);
+          const values = await jira().metadataCache.get(
+            `components:${project.id}`,
+            loadProjectComponents(project.id)
+          );
+          refreshed.components = values.length;
+        }
+      } else {
+        jira().metadataCache.invalidate("components");
+      }
+    }
+
+    return {
+      success: true,
+      message: `Metadata cache refreshed (${scope}).`,
+      refreshed,
+    };
+  },
+});
+
+export const metadataTools = [
+  listFields,
+  listIssueTypes,
+  getUser,
+  refreshMetadata,
+];
@@ -0,0 +1,104 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { Ajv, ValidateFunction } from "ajv";
+import type { JiraContext } from "../context.js";
+import type { ToolAccess } from "../policy.js";
+
+// Every tool is a definition with its schema, annotations and handler. Built-in tools live in the
+// modules next to this one; more can be loaded from a directory at startup (see custom.ts).
+
+export interface ToolContext {
+  // Clients of the Jira site the call was routed to
+  jira: JiraContext;
+  // Report something the caller should know about without failing the call
+  warn(message: string): void;
+  warnings: string[];
+}
+
+export interface ToolInputSchema {
+  type: "object";
+  properties: Record<string, unknown>;
+  required?: string[];
+  [keyword: string]: unknown;
+}
+
+export interface ToolDefinition<Args = any> {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  // readOnlyHint marks tools that only read; destructiveHint tools need confirmation (see policy.ts)
+  annotations: ToolAnnotations;
+  handler(args: Args, context: ToolContext): Promise<unknown>;
+  // What a destructive call is about to do, shown when asking for confirmation
+  describeCall?(args: Args): Promise<string>;
+  // False when the calling session cannot use the tool (e.g. local files over HTTP); it is then
+  // hidden and refused like a tool disabled by the policy
+  available?(): boolean;
+}
+
+// Identity function that lets TypeScript check the handler against its argument type
+export function defineTool<Args>(
+  tool: ToolDefinition<Args>
+): ToolDefinition<Args> {
+  return tool;
+}
+
+// Without annotations a tool is treated as destructive, as MCP clients do
+export function toolAccess(tool: ToolDefinition): ToolAccess {
+  if (tool.annotations.readOnlyHint) return "read";
+  return tool.annotations.destructiveHint === false ? "write" : "destructive";
+}
+
+export function createToolRegistry(
+  // Arguments every tool accepts in addition to its own
+  commonProperties: Record<string, unknown> = {}
+) {
+  const ajv = new Ajv();
+  const tools = new Map<string, ToolDefinition>();
+  const validators = new Map<string, ValidateFunction>();
+
+  function register(tool: ToolDefinition) {
+    if (tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is defined more than once.`);
+    }
+    const definition = {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...tool.inputSchema.properties, ...commonProperties },
+      },
+    };
+    try {
+      validators.set(tool.name, ajv.compile(definition.inputSchema));
+    } catch (error: any) {
+      throw new Error(
+        `Tool "${tool.name}" has an invalid inputSchema: ${error.message}`
+      );
+    }
+    tools.set(tool.name, definition);
+  }
+
+  function get(name: string): ToolDefinition | undefined {
+    return tools.get(name);
+  }
+
+  function list(): ToolDefinition[] {
+    return [...tools.values()];
+  }
+
+  function validate(name: string, args: unknown) {
+    const validator = validators.get(name);
+    if (validator && !validator(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for tool ${name}: ${ajv.errorsText(
+          validator.errors
+        )}`
+      );
+    }
+  }
+
+  return { register, get, list, validate };
+}
+
+export type ToolRegistry = ReturnType<typeof createToolRegistry>;
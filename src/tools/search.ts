@@ -0,0 +1,247 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { jira } from "../context.js";
+import {
+  SearchFilters,
+  andJql,
+  buildSearchJql,
+  quoteJql,
+  splitOrderBy,
+} from "../jql.js";
+import {
+  issueViewProperties,
+  paginationProperties,
+  searchIssuesPaged,
+  stringOrListProperty,
+} from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Issue searches; all of them page the same way (see searchIssuesPaged)
+
+// Arguments of searchIssuesPaged, accepted by every search tool
+interface PageArgs {
+  startAt?: number;
+  maxResults?: number;
+  nextPageToken?: string;
+  fetchAll?: boolean;
+  maxIssues?: number;
+  view?: string;
+  fields?: string[];
+}
+
+export const getIssues = defineTool<
+  PageArgs & { projectKey?: string; rapidView?: number | string; jql?: string }
+>({
+  name: "get_issues",
+  description: "Get all issues and subtasks for a project or rapid view",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectKey: {
+        type: "string",
+        description: 'Project key (e.g., "PROJ")',
+      },
+      rapidView: {
+        oneOf: [
+          {
+            type: "number",
+            description: "Rapid view ID (e.g., 117)",
+            minimum: 1,
+          },
+          {
+            type: "string",
+            description: 'Rapid view ID as string (e.g., "117")',
+            pattern: "^\\d+$",
+          },
+        ],
+      },
+      jql: {
+        type: "string",
+        description: "Optional JQL query to filter issues",
+      },
+      ...paginationProperties,
+      ...issueViewProperties,
+    },
+    additionalProperties: false,
+  },
+  async handler(args) {
+    let jql = "";
+    if (args.rapidView) {
+      // Get issues from rapid view
+      // Get board details
+      // Convert to number if string, or use directly if already number
+      const boardId =
+        typeof args.rapidView === "string"
+          ? parseInt(args.rapidView, 10)
+          : args.rapidView;
+
+      if (!Number.isInteger(boardId) || boardId <= 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid rapidView ID: ${args.rapidView}. Must be a positive integer.`
+        );
+      }
+
+      const board = await jira().agile.board.getBoard({ boardId });
+
+      // Get board configuration to find the filter ID
+      const config = await jira().agile.board.getConfiguration({ boardId });
+      if (!config.filter?.id) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Board ${boardId} has no filter configured`
+        );
+      }
+
+      // Get the filter to extract the JQL
+      const filterResponse = await jira().v2.filters.getFilter({
+        id: Number(config.filter.id),
+      });
+      const filter = filterResponse as unknown as { jql: string };
+      if (!filter.jql) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Filter ${config.filter.id} has no JQL configured`
+        );
+      }
+      // Combine board JQL with user-provided JQL
+      jql = andJql(filter.jql, args.jql);
+    } else if (args.projectKey) {
+      // Get issues from project
+      jql = andJql(`project = ${quoteJql(args.projectKey)}`, args.jql);
+    } else {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Either projectKey or rapidView must be provided"
+      );
+    }
+    // Paginated search; the payload is sanitized to keep main fields only
+    return searchIssuesPaged(jql, args);
+  },
+});
+
+export const getAssignedIssues = defineTool<
+  PageArgs & {
+    accountId: string;
+    status?: "current" | "past" | "all";
+    additionalJql?: string;
+  }
+>({
+  name: "get_assigned_issues",
+  description:
+    "Get issues assigned to a user, with options to filter by assignment status (current, past, or all).",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      accountId: {
+        type: "string",
+        description:
+          "The account ID (Jira Cloud) or username (Server/Data Center) of the user to find issues for. Use get_user to find this.",
+      },
+      status: {
+        type: "string",
+        description:
+          'Filter by assignment status: "current" (default), "past", or "all".',
+        enum: ["current", "past", "all"],
+      },
+      additionalJql: {
+        type: "string",
+        description:
+          'Optional additional JQL query to combine with the assignee search (e.g., "project = PROJ").',
+      },
+      ...paginationProperties,
+      ...issueViewProperties,
+    },
+    required: ["accountId"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const { accountId, status, additionalJql } = args;
+    const user = quoteJql(accountId);
+    let baseJql: string;
+
+    switch (status) {
+      case "past":
+        baseJql = `assignee WAS ${user}`;
+        break;
+      case "all":
+        baseJql = `assignee = ${user} OR assignee WAS ${user}`;
+        break;
+      default: // 'current' or undefined
+        baseJql = `assignee = ${user}`;
+    }
+
+    const jql = andJql(baseJql, additionalJql);
+    // Paginate and sanitize similarly for assigned issues list
+    return searchIssuesPaged(jql, args);
+  },
+});
+
+export const searchIssues = defineTool<PageArgs & SearchFilters>({
+  name: "search_issues",
+  description:
+    "Search issues with structured filters instead of hand-written JQL. Filters are combined with AND; the generated JQL is returned with the results",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      project: stringOrListProperty('Project key(s) (e.g., "PROJ")'),
+      issueType: stringOrListProperty('Issue type name(s) (e.g., "Bug")'),
+      status: stringOrListProperty('Status name(s) (e.g., "In Progress")'),
+      assignee: {
+        type: "string",
+        description:
+          'Account ID (Jira Cloud) or username (Server/Data Center), "currentUser" or "unassigned"',
+      },
+      labels: {
+        type: "array",
+        items: { type: "string" },
+        description: "Labels the issues must all have",
+      },
+      updatedSince: {
+        type: "string",
+        description:
+          'Only issues updated since a date ("2024-05-01", "2024-05-01 14:30") or a relative period ("-7d", "-12h")',
+      },
+      text: {
+        type: "string",
+        description: "Free text searched in summary, description and comments",
+      },
+      sprint: {
+        oneOf: [
+          { type: "integer", minimum: 1, description: "Sprint ID" },
+          {
+            type: "string",
+            description: 'Sprint name, or "open" for the open sprints',
+          },
+        ],
+      },
+      jql: {
+        type: "string",
+        description:
+          "Additional raw JQL, combined with the filters above (an ORDER BY in it is kept)",
+      },
+      orderBy: {
+        type: "string",
+        description:
+          'Sort order, e.g. "updated DESC" or "priority DESC, key ASC"',
+      },
+      ...paginationProperties,
+      ...issueViewProperties,
+    },
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const jql = buildSearchJql(args);
+    if (!splitOrderBy(jql).where) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Provide at least one filter (project, status, assignee, labels, updatedSince, text, sprint, issueType or jql)."
+      );
+    }
+    return { jql, ...(await searchIssuesPaged(jql, args)) };
+  },
+});
+
+export const searchTools = [getIssues, getAssignedIssues, searchIssues];
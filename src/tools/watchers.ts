@@ -0,0 +1,204 @@
+import { getDeployment, jira } from "../context.js";
+import { sanitizeUser } from "../sanitize.js";
+import {
+  dryRunProperty,
+  dryRunResult,
+  findUserByEmail,
+  sendV2Request,
+  userIdOf,
+} from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Watchers and votes of an issue; users are given by email and resolved like get_user
+
+const issueKeyProperty = {
+  type: "string",
+  description: 'The Jira issue key (e.g., "PROJ-123")',
+};
+
+const emailProperty = {
+  type: "string",
+  description: "Email address of the user",
+};
+
+// Add a user (account ID on Cloud, username on Server/Data Center) as a watcher
+export async function addIssueWatcher(issueKey: string, userId: string) {
+  // jira.js sends the identifier as the JSON string body both deployments expect
+  await jira().v2.issueWatchers.addWatcher({
+    issueIdOrKey: issueKey,
+    accountId: userId,
+  });
+}
+
+// Query parameter naming the watcher to remove
+async function watcherParam() {
+  return (await getDeployment()) === "cloud" ? "accountId" : "username";
+}
+
+export const getWatchers = defineTool<{ issueKey: string }>({
+  name: "get_watchers",
+  description:
+    "List the users watching an issue, with its vote count and whether you watch or voted for it",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: { issueKey: issueKeyProperty },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey }) {
+    const [watchers, votes] = await Promise.all([
+      jira().v2.issueWatchers.getIssueWatchers({ issueIdOrKey: issueKey }),
+      jira().v2.issueVotes.getVotes({ issueIdOrKey: issueKey }),
+    ]);
+    return {
+      issueKey,
+      watchCount: watchers.watchCount,
+      isWatching: watchers.isWatching,
+      watchers: (watchers.watchers || []).map(sanitizeUser),
+      votes: votes.votes,
+      hasVoted: votes.hasVoted,
+    };
+  },
+});
+
+export const addWatcher = defineTool<{
+  issueKey: string;
+  email: string;
+  dryRun?: boolean;
+}>({
+  name: "add_watcher",
+  description: "Add a user, given by email address, as a watcher of an issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: issueKeyProperty,
+      email: emailProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "email"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey, email, dryRun }, { warnings }) {
+    const userId = await userIdOf(await findUserByEmail(email));
+    if (dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `/rest/api/2/issue/${issueKey}/watchers`,
+            body: userId,
+          },
+        ],
+        warnings
+      );
+    }
+    await addIssueWatcher(issueKey, userId);
+    // Returns no content on success (204)
+    return {
+      success: true,
+      message: `${email} is now watching ${issueKey}.`,
+    };
+  },
+});
+
+export const removeWatcher = defineTool<{
+  issueKey: string;
+  email: string;
+  dryRun?: boolean;
+}>({
+  name: "remove_watcher",
+  description:
+    "Remove a user, given by email address, from the watchers of an issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: issueKeyProperty,
+      email: emailProperty,
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "email"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey, email, dryRun }, { warnings }) {
+    const userId = await userIdOf(await findUserByEmail(email));
+    const param = await watcherParam();
+    const path = `/rest/api/2/issue/${issueKey}/watchers`;
+    if (dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "DELETE",
+            path: `${path}?${param}=${encodeURIComponent(userId)}`,
+          },
+        ],
+        warnings
+      );
+    }
+    // jira.js removeWatcher only sends accountId, and Server/Data Center needs username
+    await sendV2Request({
+      url: path,
+      method: "DELETE",
+      params: { [param]: userId },
+    });
+    return {
+      success: true,
+      message: `${email} no longer watches ${issueKey}.`,
+    };
+  },
+});
+
+export const addVote = defineTool<{ issueKey: string; dryRun?: boolean }>({
+  name: "add_vote",
+  description:
+    "Vote for an issue as the configured user (you cannot vote for issues you reported)",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: { issueKey: issueKeyProperty, dryRun: dryRunProperty },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey, dryRun }, { warnings }) {
+    if (dryRun) {
+      return dryRunResult(
+        [{ method: "POST", path: `/rest/api/2/issue/${issueKey}/votes` }],
+        warnings
+      );
+    }
+    await jira().v2.issueVotes.addVote({ issueIdOrKey: issueKey });
+    return { success: true, message: `Voted for ${issueKey}.` };
+  },
+});
+
+export const removeVote = defineTool<{ issueKey: string; dryRun?: boolean }>({
+  name: "remove_vote",
+  description: "Withdraw the configured user's vote for an issue",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: { issueKey: issueKeyProperty, dryRun: dryRunProperty },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey, dryRun }, { warnings }) {
+    if (dryRun) {
+      return dryRunResult(
+        [{ method: "DELETE", path: `/rest/api/2/issue/${issueKey}/votes` }],
+        warnings
+      );
+    }
+    await jira().v2.issueVotes.removeVote({ issueIdOrKey: issueKey });
+    return { success: true, message: `Vote for ${issueKey} withdrawn.` };
+  },
+});
+
+export const watcherTools = [
+  getWatchers,
+  addWatcher,
+  removeWatcher,
+  addVote,
+  removeVote,
+];
@@ -0,0 +1,193 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { jira } from "../context.js";
+import { logger } from "../logger.js";
+import { toJiraRichText } from "../markup.js";
+import {
+  deepPruneEmpty,
+  describeAllowedValue,
+  describeTransitions,
+  findTransition,
+  sanitizeTransition,
+} from "../sanitize.js";
+import { dryRunProperty, dryRunResult } from "./common.js";
+import { defineTool } from "./registry.js";
+
+// Workflow transitions
+
+export const listTransitions = defineTool<{ issueKey: string }>({
+  name: "list_transitions",
+  description:
+    "List the workflow transitions currently available for an issue, with each target status and the fields the transition screen requires",
+  annotations: { readOnlyHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue (e.g., "PROJ-123")',
+      },
+    },
+    required: ["issueKey"],
+    additionalProperties: false,
+  },
+  async handler({ issueKey }) {
+    const response = await jira().v2.issues.getTransitions({
+      issueIdOrKey: issueKey,
+      expand: "transitions.fields",
+    });
+    return {
+      issueKey,
+      transitions: (response.transitions || []).map(sanitizeTransition),
+    };
+  },
+});
+
+export const transitionIssue = defineTool<{
+  issueKey: string;
+  transition: string;
+  resolution?: string;
+  fields?: Record<string, unknown>;
+  comment?: string;
+  dryRun?: boolean;
+}>({
+  name: "transition_issue",
+  description:
+    "Move an issue through its workflow, optionally setting a resolution, screen fields and a comment",
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      issueKey: {
+        type: "string",
+        description: 'Key of the issue to transition (e.g., "PROJ-123")',
+      },
+      transition: {
+        type: "string",
+        description:
+          'Transition ID, transition name, or target status name (e.g., "31", "Resolve Issue", "Done"). Use list_transitions to see options.',
+      },
+      resolution: {
+        type: "string",
+        description: 'Resolution name (e.g., "Fixed", "Won\'t Do")',
+      },
+      fields: {
+        type: "object",
+        description:
+          'Additional screen fields keyed by field ID (e.g., { "fixVersions": [{ "name": "1.2" }] })',
+      },
+      comment: {
+        type: "string",
+        description: "Comment (Markdown) to add as part of the transition",
+      },
+      dryRun: dryRunProperty,
+    },
+    required: ["issueKey", "transition"],
+    additionalProperties: false,
+  },
+  async handler(args, { warnings }) {
+    const { issueKey, transition, resolution, fields, comment } = args;
+
+    const response = await jira().v2.issues.getTransitions({
+      issueIdOrKey: issueKey,
+      expand: "transitions.fields",
+    });
+    const transitions: any[] = response.transitions || [];
+    const target = findTransition(transitions, transition);
+    if (!target?.id) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Transition "${transition}" is not available for issue ${issueKey}. Available transitions: ${
+          describeTransitions(transitions) || "none"
+        }`
+      );
+    }
+
+    const transitionFields: any = { ...(fields || {}) };
+    if (resolution) {
+      const allowed: any[] | undefined =
+        target.fields?.resolution?.allowedValues;
+      if (!target.fields?.resolution) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Transition "${target.name}" does not set a resolution on issue ${issueKey}.`
+        );
+      }
+      const found = allowed?.find(
+        (r) => r.name?.toLowerCase() === resolution.toLowerCase()
+      );
+      if (allowed && !found) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resolution "${resolution}" is not allowed. Allowed values: ${allowed
+            .map(describeAllowedValue)
+            .join(", ")}`
+        );
+      }
+      transitionFields.resolution = found?.id
+        ? { id: found.id }
+        : { name: resolution };
+    }
+
+    // Check required screen fields up front so the caller gets the full list at once
+    const missing = sanitizeTransition(target).requiredFields?.filter(
+      (f: any) => !(f.id in transitionFields)
+    );
+    if (missing?.length) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Transition "${target.name}" requires fields: ${missing
+          .map((f: any) =>
+            f.allowedValues
+              ? `${f.id} (${f.name}; allowed: ${f.allowedValues.join(", ")})`
+              : `${f.id} (${f.name})`
+          )
+          .join("; ")}`
+      );
+    }
+
+    const transitionRequest = {
+      transition: { id: target.id },
+      fields:
+        Object.keys(transitionFields).length > 0 ? transitionFields : undefined,
+      update: comment
+        ? { comment: [{ add: { body: toJiraRichText(comment) } }] }
+        : undefined,
+    };
+    if (args.dryRun) {
+      return dryRunResult(
+        [
+          {
+            method: "POST",
+            path: `/rest/api/2/issue/${issueKey}/transitions`,
+            body: transitionRequest,
+          },
+        ],
+        warnings
+      );
+    }
+
+    logger.debug(
+      `Transitioning issue ${issueKey} via "${target.name}" (transition ${target.id})`
+    );
+    await jira().v2.issues.doTransition({
+      issueIdOrKey: issueKey,
+      ...transitionRequest,
+    });
+
+    const issue = await jira().v2.issues.getIssue({
+      issueIdOrKey: issueKey,
+      fields: ["status", "resolution", "resolutiondate"],
+    });
+    return {
+      success: true,
+      message: `Issue ${issueKey} transitioned via "${target.name}".`,
+      ...deepPruneEmpty({
+        status: issue.fields?.status?.name,
+        resolution: issue.fields?.resolution?.name,
+        resolutiondate: issue.fields?.resolutiondate,
+      }),
+    };
+  },
+});
+
+export const workflowTools = [listTransitions, transitionIssue];
@@ -0,0 +1,215 @@
+import {
+  closeSprint,
+  moveIssuesToBacklog,
+  moveIssuesToSprint,
+  rankIssues,
+  startSprint,
+} from '../src/tools/agile.js';
+import { MAX_AGILE_BATCH } from '../src/tools/common.js';
+import { fakeJira, resolves, runTool } from './toolHarness.js';
+
+const keys = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => `PROJ-${from + i}`);
+
+describe('move_issues_to_sprint', () => {
+  it('moves and ranks the issues', async () => {
+    const agile = { sprint: { moveIssuesToSprintAndRank: resolves() } };
+    const { result } = await runTool(
+      moveIssuesToSprint,
+      {
+        sprintId: 7,
+        issueKeys: ['PROJ-1', 'PROJ-2'],
+        rankAfterIssue: 'PROJ-9',
+      },
+      fakeJira({ agile })
+    );
+    expect(agile.sprint.moveIssuesToSprintAndRank).toHaveBeenCalledWith({
+      sprintId: 7,
+      issues: ['PROJ-1', 'PROJ-2'],
+      rankBeforeIssue: undefined,
+      rankAfterIssue: 'PROJ-9',
+    });
+    expect(result.message).toBe('Moved PROJ-1, PROJ-2 to sprint 7.');
+  });
+});
+
+describe('move_issues_to_backlog', () => {
+  it('moves the issues to the backlog', async () => {
+    const agile = { backlog: { moveIssuesToBacklog: resolves() } };
+    const { result } = await runTool(
+      moveIssuesToBacklog,
+      { issueKeys: ['PROJ-1'] },
+      fakeJira({ agile })
+    );
+    expect(agile.backlog.moveIssuesToBacklog).toHaveBeenCalledWith({
+      issues: ['PROJ-1'],
+    });
+    expect(result.message).toBe('Moved PROJ-1 to the backlog.');
+  });
+});
+
+describe('rank_issues', () => {
+  it('ranks the issues before another one', async () => {
+    const agile = { issue: { rankIssues: resolves() } };
+    const { result } = await runTool(
+      rankIssues,
+      { issueKeys: ['PROJ-1', 'PROJ-2'], rankBeforeIssue: 'PROJ-3' },
+      fakeJira({ agile })
+    );
+    expect(agile.issue.rankIssues).toHaveBeenCalledWith({
+      issues: ['PROJ-1', 'PROJ-2'],
+      rankBeforeIssue: 'PROJ-3',
+      rankAfterIssue: undefined,
+    });
+    expect(result).toEqual({
+      success: true,
+      message: 'Ranked PROJ-1, PROJ-2 before PROJ-3.',
+    });
+  });
+
+  it('reports the issues a partial (207) response failed to rank', async () => {
+    const agile = {
+      issue: {
+        rankIssues: resolves({
+          entries: [
+            { issueId: 1, issueKey: 'PROJ-1', status: 200 },
+            {
+              issueId: 2,
+              issueKey: 'PROJ-2',
+              status: 403,
+              errors: ['No permission to rank'],
+            },
+          ],
+        }),
+      },
+    };
+    const { result } = await runTool(
+      rankIssues,
+      { issueKeys: ['PROJ-1', 'PROJ-2'], rankAfterIssue: 'PROJ-3' },
+      fakeJira({ agile })
+    );
+    expect(result).toEqual({
+      success: false,
+      message: 'Failed to rank 1 issue(s).',
+      failures: [
+        { issueKey: 'PROJ-2', status: 403, errors: ['No permission to rank'] },
+      ],
+    });
+  });
+});
+
+describe('start_sprint', () => {
+  function sprints(sprint: any) {
+    return {
+      sprint: {
+        getSprint: resolves(sprint),
+        partiallyUpdateSprint: resolves({ ...sprint, state: 'active' }),
+      },
+    };
+  }
+
+  it('starts a future sprint with its planned dates', async () => {
+    const agile = sprints({
+      id: 1,
+      state: 'future',
+      startDate: '2024-05-06T09:00:00.000Z',
+      endDate: '2024-05-20T09:00:00.000Z',
+    });
+    const { result } = await runTool(
+      startSprint,
+      { sprintId: 1, goal: 'Ship it' },
+      fakeJira({ agile })
+    );
+    expect(agile.sprint.partiallyUpdateSprint).toHaveBeenCalledWith({
+      sprintId: 1,
+      state: 'active',
+      startDate: '2024-05-06T09:00:00.000Z',
+      endDate: '2024-05-20T09:00:00.000Z',
+      goal: 'Ship it',
+    });
+    expect(result.state).toBe('active');
+  });
+
+  it('refuses sprints that are not future', async () => {
+    const agile = sprints({ id: 2, state: 'active' });
+    await expect(
+      runTool(startSprint, { sprintId: 2 }, fakeJira({ agile }))
+    ).rejects.toThrow(
+      'Sprint 2 is active; only future sprints can be started.'
+    );
+    expect(agile.sprint.partiallyUpdateSprint).not.toHaveBeenCalled();
+  });
+
+  it('needs an end date when the sprint has none', async () => {
+    const agile = sprints({ id: 1, state: 'future' });
+    await expect(
+      runTool(startSprint, { sprintId: 1 }, fakeJira({ agile }))
+    ).rejects.toThrow('provide endDate');
+  });
+});
+
+describe('close_sprint', () => {
+  // An active sprint whose unfinished issues PROJ-1..PROJ-open are paged like Jira
+  function activeSprint(open: number) {
+    return {
+      sprint: {
+        getSprint: resolves({ id: 2, state: 'active' }),
+        getIssuesForSprint: resolves().mockImplementation(
+          async ({ startAt, maxResults }: any) => ({
+            total: open,
+            issues: keys(startAt + 1, Math.min(open, startAt + maxResults)).map(
+              (key) => ({ key })
+            ),
+          })
+        ),
+        moveIssuesToSprintAndRank: resolves(),
+        partiallyUpdateSprint: resolves({ id: 2, state: 'closed' }),
+      },
+    };
+  }
+
+  it(`moves the open issues in batches of ${MAX_AGILE_BATCH}`, async () => {
+    const agile = activeSprint(120);
+    const { result } = await runTool(
+      closeSprint,
+      { sprintId: 2, moveOpenIssuesToSprintId: 3 },
+      fakeJira({ agile })
+    );
+    const move = agile.sprint.moveIssuesToSprintAndRank;
+    expect(move.mock.calls.map(([request]: any) => request)).toEqual([
+      { sprintId: 3, issues: keys(1, 50) },
+      { sprintId: 3, issues: keys(51, 100) },
+      { sprintId: 3, issues: keys(101, 120) },
+    ]);
+    expect(agile.sprint.getIssuesForSprint).toHaveBeenCalledWith(
+      expect.objectContaining({ sprintId: 2, jql: 'statusCategory != Done' })
+    );
+    expect(agile.sprint.partiallyUpdateSprint).toHaveBeenCalledWith({
+      sprintId: 2,
+      state: 'closed',
+    });
+    expect(result.movedIssues).toHaveLength(120);
+    expect(result.movedToSprintId).toBe(3);
+  });
+
+  it('leaves the open issues to Jira without a target sprint', async () => {
+    const agile = activeSprint(5);
+    const { result } = await runTool(
+      closeSprint,
+      { sprintId: 2 },
+      fakeJira({ agile })
+    );
+    expect(agile.sprint.getIssuesForSprint).not.toHaveBeenCalled();
+    expect(agile.sprint.moveIssuesToSprintAndRank).not.toHaveBeenCalled();
+    expect(result).toEqual({ id: 2, state: 'closed' });
+  });
+
+  it('refuses sprints that are not active', async () => {
+    const agile = activeSprint(0);
+    agile.sprint.getSprint.mockResolvedValue({ id: 2, state: 'closed' });
+    await expect(
+      runTool(closeSprint, { sprintId: 2 }, fakeJira({ agile }))
+    ).rejects.toThrow('Sprint 2 is closed; only active sprints can be closed.');
+    expect(agile.sprint.partiallyUpdateSprint).not.toHaveBeenCalled();
+  });
+});
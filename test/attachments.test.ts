@@ -0,0 +1,245 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AttachmentSettings,
+  downloadRoot,
+  readLocalFile,
+  saveDownload,
+  uploadRoot,
+} from '../src/attachments.js';
+import { addAttachment, getAttachment } from '../src/tools/attachments.js';
+import { createToolRegistry } from '../src/tools/registry.js';
+import { fakeJira, inSession, resolves, runTool } from './toolHarness.js';
+
+// <tmp>/root/notes.txt is uploadable; <tmp>/.env is not
+function fixture() {
+  const base = mkdtempSync(join(tmpdir(), 'attachments-'));
+  const root = join(base, 'root');
+  mkdirSync(join(root, 'logs'), { recursive: true });
+  writeFileSync(join(root, 'notes.txt'), 'hello');
+  writeFileSync(join(root, 'logs', 'app.log'), 'line');
+  writeFileSync(join(base, '.env'), 'JIRA_API_TOKEN=secret');
+  return { base, root };
+}
+
+describe('readLocalFile', () => {
+  it('reads files below the root, relative paths starting there', async () => {
+    const { root } = fixture();
+    const file = await readLocalFile('notes.txt', 1024, root);
+    expect(file).toMatchObject({
+      filename: 'notes.txt',
+      size: 5,
+      mimeType: 'text/plain',
+    });
+    expect(file.content.toString()).toBe('hello');
+    await expect(
+      readLocalFile(join(root, 'logs', 'app.log'), 1024, root)
+    ).resolves.toMatchObject({ filename: 'app.log' });
+  });
+
+  it('rejects path traversal out of the root', async () => {
+    const { base, root } = fixture();
+    await expect(readLocalFile('../.env', 1024, root)).rejects.toThrow(
+      'is outside the upload directory'
+    );
+    await expect(readLocalFile('logs/../../.env', 1024, root)).rejects.toThrow(
+      'is outside the upload directory'
+    );
+    await expect(readLocalFile(join(base, '.env'), 1024, root)).rejects.toThrow(
+      'is outside the upload directory'
+    );
+  });
+
+  it('rejects symbolic links that lead out of the root', async () => {
+    const { base, root } = fixture();
+    symlinkSync(join(base, '.env'), join(root, 'innocent.txt'));
+    await expect(readLocalFile('innocent.txt', 1024, root)).rejects.toThrow(
+      'is outside the upload directory'
+    );
+  });
+
+  it('rejects missing files, directories and files over the limit', async () => {
+    const { root } = fixture();
+    await expect(readLocalFile('missing.txt', 1024, root)).rejects.toThrow(
+      'File not found: missing.txt'
+    );
+    await expect(readLocalFile('logs', 1024, root)).rejects.toThrow(
+      'Not a regular file'
+    );
+    await expect(readLocalFile('notes.txt', 2, root)).rejects.toThrow(
+      'exceeds the 2 byte upload limit'
+    );
+  });
+});
+
+describe('saveDownload', () => {
+  it('writes the attachment into the download directory', async () => {
+    const dir = join(mkdtempSync(join(tmpdir(), 'downloads-')), 'saved');
+    const target = await saveDownload(
+      dir,
+      '10000',
+      '../report 1.pdf',
+      Buffer.from('pdf')
+    );
+    expect(target).toBe(join(dir, '10000-report 1.pdf'));
+    expect(existsSync(target)).toBe(true);
+  });
+
+  it('refuses attachment ids that are not numeric', async () => {
+    const base = mkdtempSync(join(tmpdir(), 'downloads-'));
+    const dir = join(base, 'saved');
+    await expect(
+      saveDownload(
+        dir,
+        '10000?x=/../../evil',
+        'notes.txt',
+        Buffer.from('owned')
+      )
+    ).rejects.toThrow('Invalid attachment id');
+    expect(readdirSync(base)).toEqual([]);
+  });
+
+  it('is only reached with numeric ids from get_attachment', () => {
+    const registry = createToolRegistry();
+    registry.register(getAttachment);
+    expect(() =>
+      registry.validate('get_attachment', {
+        attachmentId: '10000?x=/../../evil',
+      })
+    ).toThrow();
+    expect(() =>
+      registry.validate('get_attachment', { attachmentId: '10000' })
+    ).not.toThrow();
+  });
+});
+
+describe('uploadRoot', () => {
+  const settings: AttachmentSettings = {
+    maxUploadBytes: 1024,
+    maxInlineBytes: 1024,
+  };
+
+  it('defaults to the working directory over stdio only', () => {
+    expect(uploadRoot(settings, 'stdio')).toBe(process.cwd());
+    expect(uploadRoot(settings, 'http')).toBeUndefined();
+  });
+
+  it('uses the configured directory for both transports', () => {
+    const configured = { ...settings, uploadDir: '/srv/uploads' };
+    expect(uploadRoot(configured, 'stdio')).toBe('/srv/uploads');
+    expect(uploadRoot(configured, 'http')).toBe('/srv/uploads');
+  });
+});
+
+describe('downloadRoot', () => {
+  const settings: AttachmentSettings = { maxUploadBytes: 1, maxInlineBytes: 1 };
+
+  it('defaults to ./jira-attachments over stdio only', () => {
+    expect(downloadRoot(settings, 'stdio')).toBe(
+      join(process.cwd(), 'jira-attachments')
+    );
+    expect(downloadRoot(settings, 'http')).toBeUndefined();
+    expect(
+      downloadRoot({ ...settings, downloadDir: '/srv/jira' }, 'http')
+    ).toBe('/srv/jira');
+  });
+});
+
+describe('attachment tools over HTTP', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('hides add_attachment unless an upload directory is configured', () => {
+    delete process.env.JIRA_ATTACHMENT_UPLOAD_DIR;
+    const context = fakeJira();
+    expect(inSession(context, () => addAttachment.available!(), 'http')).toBe(
+      false
+    );
+    expect(inSession(context, () => addAttachment.available!(), 'stdio')).toBe(
+      true
+    );
+    process.env.JIRA_ATTACHMENT_UPLOAD_DIR = fixture().root;
+    expect(inSession(context, () => addAttachment.available!(), 'http')).toBe(
+      true
+    );
+  });
+
+  it('refuses to save attachments without JIRA_ATTACHMENT_DIR', async () => {
+    delete process.env.JIRA_ATTACHMENT_DIR;
+    const getAttachmentContent = resolves(Buffer.from([0x89, 0x50]));
+    const context = fakeJira({
+      v2: {
+        issueAttachments: {
+          getAttachment: resolves({
+            id: '10',
+            filename: 'screen.png',
+            mimeType: 'image/png',
+            size: 2,
+          }),
+          getAttachmentContent,
+        },
+      },
+    });
+    await expect(
+      runTool(getAttachment, { attachmentId: '10' }, context, 'http')
+    ).rejects.toThrow('saving attachments is disabled over HTTP');
+    expect(getAttachmentContent).not.toHaveBeenCalled();
+  });
+
+  it('still returns small text attachments inline', async () => {
+    delete process.env.JIRA_ATTACHMENT_DIR;
+    const context = fakeJira({
+      v2: {
+        issueAttachments: {
+          getAttachment: resolves({
+            id: '11',
+            filename: 'notes.txt',
+            mimeType: 'text/plain',
+            size: 5,
+          }),
+          getAttachmentContent: resolves(Buffer.from('hello')),
+        },
+      },
+    });
+    const { result } = await runTool(
+      getAttachment,
+      { attachmentId: '11' },
+      context,
+      'http'
+    );
+    expect(result.content).toBe('hello');
+  });
+
+  it('refuses attachments over the download limit before downloading them', async () => {
+    process.env.JIRA_ATTACHMENT_DIR = mkdtempSync(join(tmpdir(), 'downloads-'));
+    process.env.JIRA_ATTACHMENT_DOWNLOAD_MAX_BYTES = '1000';
+    const getAttachmentContent = resolves(Buffer.alloc(2000));
+    const context = fakeJira({
+      v2: {
+        issueAttachments: {
+          getAttachment: resolves({
+            id: '12',
+            filename: 'dump.bin',
+            mimeType: 'application/octet-stream',
+            size: 2000,
+          }),
+          getAttachmentContent,
+        },
+      },
+    });
+    await expect(
+      runTool(getAttachment, { attachmentId: '12' }, context, 'http')
+    ).rejects.toThrow('exceeds the 1000 byte download limit');
+    expect(getAttachmentContent).not.toHaveBeenCalled();
+  });
+});
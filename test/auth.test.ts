@@ -0,0 +1,90 @@
+import {
+  clientConfig,
+  deploymentFromServerInfo,
+  loadConnectionConfig,
+  userReference,
+} from '../src/auth.js';
+
+describe('loadConnectionConfig', () => {
+  it('uses basic auth for Cloud hosts with an email and adds the scheme', () => {
+    const connection = loadConnectionConfig({
+      JIRA_HOST: 'acme.atlassian.net/',
+      JIRA_EMAIL: 'me@acme.com',
+      JIRA_API_TOKEN: 'token',
+    });
+
+    expect(connection).toMatchObject({
+      host: 'https://acme.atlassian.net',
+      authType: 'basic',
+    });
+    expect(clientConfig(connection).authentication).toEqual({
+      basic: { email: 'me@acme.com', apiToken: 'token' },
+    });
+  });
+
+  it('uses a personal access token for self-hosted instances', () => {
+    const connection = loadConnectionConfig({
+      JIRA_HOST: 'https://jira.internal',
+      JIRA_API_TOKEN: 'pat',
+    });
+
+    expect(connection.authType).toBe('pat');
+    expect(connection.deployment).toBeUndefined();
+    expect(clientConfig(connection).authentication).toEqual({
+      personalAccessToken: 'pat',
+    });
+  });
+
+  it('routes OAuth through the API gateway and implies Cloud', () => {
+    const connection = loadConnectionConfig({
+      JIRA_OAUTH_ACCESS_TOKEN: 'access',
+      JIRA_CLOUD_ID: 'abc-123',
+    });
+
+    expect(connection).toMatchObject({
+      host: 'https://api.atlassian.com/ex/jira/abc-123',
+      authType: 'oauth',
+      deployment: 'cloud',
+    });
+  });
+
+  it('sends OAuth for a Cloud site host through the gateway of its cloud id', () => {
+    const env = {
+      JIRA_HOST: 'acme.atlassian.net',
+      JIRA_AUTH_TYPE: 'oauth',
+      JIRA_OAUTH_ACCESS_TOKEN: 'access',
+    };
+
+    expect(() => loadConnectionConfig(env)).toThrow(
+      'JIRA_CLOUD_ID environment variable is required for OAuth authentication with https://acme.atlassian.net'
+    );
+    const connection = loadConnectionConfig({ ...env, JIRA_CLOUD_ID: 'abc-123' });
+    expect(clientConfig(connection)).toEqual({
+      host: 'https://api.atlassian.com/ex/jira/abc-123',
+      authentication: { oauth2: { accessToken: 'access' } },
+    });
+  });
+
+  it('rejects missing credentials and unknown auth types', () => {
+    expect(() => loadConnectionConfig({})).toThrow(/JIRA_HOST/);
+    expect(() =>
+      loadConnectionConfig({ JIRA_HOST: 'acme.atlassian.net', JIRA_AUTH_TYPE: 'basic' })
+    ).toThrow(/JIRA_EMAIL and JIRA_API_TOKEN/);
+    expect(() =>
+      loadConnectionConfig({ JIRA_HOST: 'jira.internal', JIRA_AUTH_TYPE: 'kerberos' })
+    ).toThrow(/Unsupported JIRA_AUTH_TYPE/);
+  });
+});
+
+describe('user identifiers', () => {
+  it('detects the deployment and builds the matching user reference', () => {
+    expect(
+      deploymentFromServerInfo({ deploymentType: 'DataCenter' }, 'https://jira.internal')
+    ).toBe('server');
+    expect(deploymentFromServerInfo(undefined, 'https://acme.atlassian.net')).toBe('cloud');
+    expect(userReference('cloud', '5b10a2844c20165700ede21g')).toEqual({
+      accountId: '5b10a2844c20165700ede21g',
+    });
+    expect(userReference('server', 'jdoe')).toEqual({ name: 'jdoe' });
+  });
+});
@@ -0,0 +1,57 @@
+import { bulkResponseOutcomes, planBulkCreate } from '../src/bulkCreate.js';
+
+const refsOf = (levels: any[][]) =>
+  levels.map((level) => level.map((item) => item.ref));
+
+describe('planBulkCreate', () => {
+  it('orders issues so parents are created before their children', () => {
+    const levels = planBulkCreate([
+      { ref: 'sub', parent: 'story', summary: 'Sub', issueType: 'Sub-task' },
+      { ref: 'story', parent: 'epic', summary: 'Story', issueType: 'Story' },
+      { ref: 'epic', summary: 'Epic', issueType: 'Epic' },
+      { summary: 'Existing parent', issueType: 'Task', parent: 'proj-7' },
+    ]);
+
+    expect(refsOf(levels)).toEqual([['epic', '4'], ['story'], ['sub']]);
+    expect(levels[0][1].parentKey).toBe('PROJ-7');
+    expect(levels[2][0].parentRef).toBe('story');
+  });
+
+  it('rejects duplicate refs, unknown parents and cycles', () => {
+    expect(() =>
+      planBulkCreate([
+        { ref: 'a', summary: 'A', issueType: 'Task' },
+        { ref: 'a', summary: 'B', issueType: 'Task' },
+      ])
+    ).toThrow(/Duplicate ref "a"/);
+    expect(() =>
+      planBulkCreate([{ parent: 'nope', summary: 'A', issueType: 'Task' }])
+    ).toThrow(/neither the ref/);
+    expect(() =>
+      planBulkCreate([
+        { ref: 'a', parent: 'b', summary: 'A', issueType: 'Task' },
+        { ref: 'b', parent: 'a', summary: 'B', issueType: 'Task' },
+      ])
+    ).toThrow(/Circular parent references: a -> b -> a/);
+  });
+});
+
+describe('bulkResponseOutcomes', () => {
+  it('matches created issues and failures to their position', () => {
+    expect(
+      bulkResponseOutcomes(3, {
+        issues: [{ key: 'PROJ-1' }, { key: 'PROJ-2' }],
+        errors: [
+          {
+            failedElementNumber: 1,
+            elementErrors: { errors: { priority: 'Priority is invalid' } },
+          },
+        ],
+      })
+    ).toEqual([
+      { key: 'PROJ-1' },
+      { error: 'priority: Priority is invalid' },
+      { key: 'PROJ-2' },
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { deleteComment, updateComment } from '../src/tools/comments.js';
+import { fakeJira, inSession, resolves, runTool } from './toolHarness.js';
+
+const comment = {
+  id: '10',
+  body: 'Edited',
+  author: { accountId: 'acc-ana', displayName: 'Ana' },
+  updated: '2024-05-06T09:00:00.000+0000',
+};
+
+describe('update_comment', () => {
+  it('sends Markdown to the v2 API as wiki markup', async () => {
+    const v2 = { issueComments: { updateComment: resolves(comment) } };
+    const { result } = await runTool(
+      updateComment,
+      {
+        issueKey: 'PROJ-1',
+        commentId: '10',
+        body: '**Edited**',
+        visibility: { type: 'role', value: 'Developers' },
+      },
+      fakeJira({ v2 })
+    );
+    expect(v2.issueComments.updateComment).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      id: '10',
+      comment: '*Edited*',
+      visibility: { type: 'role', value: 'Developers' },
+    });
+    expect(result).toMatchObject({ id: '10', author: { displayName: 'Ana' } });
+  });
+
+  it('sends an ADF document to the v3 API', async () => {
+    const v2 = { issueComments: { updateComment: resolves() } };
+    const v3 = { issueComments: { updateComment: resolves(comment) } };
+    await runTool(
+      updateComment,
+      {
+        issueKey: 'PROJ-1',
+        commentId: '10',
+        body: 'Edited',
+        bodyFormat: 'adf',
+      },
+      fakeJira({ v2, v3 })
+    );
+    expect(v2.issueComments.updateComment).not.toHaveBeenCalled();
+    expect(v3.issueComments.updateComment).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      id: '10',
+      body: {
+        type: 'doc',
+        version: 1,
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'Edited' }] },
+        ],
+      },
+      visibility: undefined,
+    });
+  });
+});
+
+describe('delete_comment', () => {
+  it('deletes the comment', async () => {
+    const v2 = { issueComments: { deleteComment: resolves() } };
+    const { result } = await runTool(
+      deleteComment,
+      { issueKey: 'PROJ-1', commentId: '10' },
+      fakeJira({ v2 })
+    );
+    expect(v2.issueComments.deleteComment).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      id: '10',
+    });
+    expect(result.message).toBe('Comment 10 deleted from issue PROJ-1.');
+  });
+
+  it('describes the comment for confirmation', async () => {
+    const context = fakeJira({
+      v2: {
+        issueComments: {
+          getComment: resolves({ ...comment, body: 'Please *retry*' }),
+        },
+      },
+    });
+    await expect(
+      inSession(context, () =>
+        deleteComment.describeCall!({ issueKey: 'PROJ-1', commentId: '10' })
+      )
+    ).resolves.toBe(
+      'Delete comment 10 by Ana on PROJ-1: "Please **retry**". This cannot be undone.'
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  FETCH_ALL_HARD_CAP,
+  issueProjection,
+  resolveCustomFieldsCached,
+  searchIssuesPaged,
+} from '../src/tools/common.js';
+import { fakeJira, inSession, resolves } from './toolHarness.js';
+
+const summary = { id: 'summary', name: 'Summary', custom: false };
+const storyPoints = {
+  id: 'customfield_10016',
+  name: 'Story Points',
+  custom: true,
+  schema: { type: 'number' },
+};
+const team = {
+  id: 'customfield_10020',
+  name: 'Team',
+  custom: true,
+  schema: { type: 'option' },
+};
+
+// A context whose fields cache already holds the first list
+async function withCachedFields(...lists: any[][]) {
+  const getFields = resolves(lists[0]);
+  for (const list of lists.slice(1)) getFields.mockResolvedValueOnce(list);
+  const context = fakeJira({ v2: { issueFields: { getFields } } });
+  await context.metadataCache.get('fields', () => Promise.resolve(lists[0]));
+  return { context, getFields };
+}
+
+describe('resolveCustomFieldsCached', () => {
+  it('reloads the field list once for a field missing from the cache', async () => {
+    const { context, getFields } = await withCachedFields(
+      [storyPoints],
+      [storyPoints, team]
+    );
+    const resolved = await inSession(context, () =>
+      resolveCustomFieldsCached({ Team: 'Platform' }, undefined)
+    );
+    expect(resolved).toEqual({ customfield_10020: { value: 'Platform' } });
+    expect(getFields).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the cache for errors other than unknown fields', async () => {
+    const { context, getFields } = await withCachedFields([storyPoints]);
+    await expect(
+      inSession(context, () =>
+        resolveCustomFieldsCached({ 'Story Points': 'many' }, undefined)
+      )
+    ).rejects.toThrow('Story Points');
+    expect(getFields).not.toHaveBeenCalled();
+  });
+
+  it('does not retry when the field list cannot be loaded', async () => {
+    const getFields = resolves();
+    getFields.mockRejectedValue(new Error('Service unavailable'));
+    const context = fakeJira({ v2: { issueFields: { getFields } } });
+    await expect(
+      inSession(context, () =>
+        resolveCustomFieldsCached({ Team: 'Platform' }, undefined)
+      )
+    ).rejects.toThrow('Service unavailable');
+    expect(getFields).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('issueProjection', () => {
+  it('reloads the field list once for a field missing from the cache', async () => {
+    const { context, getFields } = await withCachedFields(
+      [summary, storyPoints],
+      [summary, storyPoints, team]
+    );
+    const projection = await inSession(context, () =>
+      issueProjection({ fields: ['summary', 'Team'] })
+    );
+    expect(projection.request).toEqual(['summary', 'customfield_10020']);
+    expect(getFields).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('searchIssuesPaged', () => {
+  // A search over `total` issues PROJ-1..PROJ-total, paged like Jira
+  function search(total: number) {
+    const searchForIssuesUsingJql = resolves().mockImplementation(
+      async ({ startAt, maxResults }: any) => ({
+        startAt,
+        maxResults,
+        total,
+        issues: Array.from(
+          { length: Math.max(0, Math.min(maxResults, total - startAt)) },
+          (_, i) => ({ key: `PROJ-${startAt + i + 1}`, fields: {} })
+        ),
+      })
+    );
+    const context = fakeJira({
+      v2: { issueSearch: { searchForIssuesUsingJql } },
+    });
+    const run = (jql: string, args: any) =>
+      inSession(context, () => searchIssuesPaged(jql, args));
+    return { run, searchForIssuesUsingJql };
+  }
+
+  it('continues a search from its nextPageToken', async () => {
+    const { run } = search(120);
+    const first = await run('project = PROJ', { maxResults: 50 });
+    expect(first).toMatchObject({
+      returned: 50,
+      isLast: false,
+      truncated: true,
+    });
+    const second = await run('project = PROJ', {
+      maxResults: 50,
+      nextPageToken: first.nextPageToken,
+    });
+    expect(second.issues[0].key).toBe('PROJ-51');
+  });
+
+  it('marks the last page as complete', async () => {
+    const { run } = search(30);
+    const page = await run('project = PROJ', { maxResults: 50 });
+    expect(page).toMatchObject({
+      returned: 30,
+      isLast: true,
+      truncated: false,
+    });
+    expect(page.nextPageToken).toBeUndefined();
+  });
+
+  it('rejects a nextPageToken issued for different JQL', async () => {
+    const { run, searchForIssuesUsingJql } = search(120);
+    const { nextPageToken } = await run('project = PROJ', { maxResults: 50 });
+    await expect(
+      run('project = OTHER', { maxResults: 50, nextPageToken })
+    ).rejects.toThrow('nextPageToken was issued for a different query');
+    await expect(
+      run('project = PROJ', { nextPageToken: 'not-a-token' })
+    ).rejects.toThrow('Invalid nextPageToken.');
+    expect(searchForIssuesUsingJql).toHaveBeenCalledTimes(1);
+  });
+
+  it('collects every page with fetchAll', async () => {
+    const { run, searchForIssuesUsingJql } = search(250);
+    const all = await run('project = PROJ', { fetchAll: true });
+    expect(all).toMatchObject({
+      returned: 250,
+      isLast: true,
+      truncated: false,
+    });
+    expect(searchForIssuesUsingJql).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops fetchAll at maxIssues and reports the rest as truncated', async () => {
+    const { run } = search(250);
+    const some = await run('project = PROJ', {
+      fetchAll: true,
+      maxIssues: 120,
+    });
+    expect(some).toMatchObject({ returned: 120, truncated: true });
+    const rest = await run('project = PROJ', {
+      fetchAll: true,
+      nextPageToken: some.nextPageToken,
+    });
+    expect(rest.issues[0].key).toBe('PROJ-121');
+    expect(rest).toMatchObject({ returned: 130, truncated: false });
+  });
+
+  it(`never collects more than ${FETCH_ALL_HARD_CAP} issues`, async () => {
+    const { run } = search(5000);
+    const capped = await run('project = PROJ', {
+      fetchAll: true,
+      maxIssues: 5000,
+    });
+    expect(capped.returned).toBe(FETCH_ALL_HARD_CAP);
+    expect(capped).toMatchObject({ truncated: true, isLast: false });
+    expect(capped.nextPageToken).toBeDefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { resolveCustomFields } from '../src/customFields.js';
+
+const fields = [
+  { id: 'summary', name: 'Summary', custom: false, schema: { type: 'string' } },
+  {
+    id: 'customfield_10016',
+    name: 'Story Points',
+    custom: true,
+    schema: { type: 'number' },
+  },
+  {
+    id: 'customfield_10100',
+    name: 'Team',
+    custom: true,
+    schema: { type: 'option' },
+  },
+  {
+    id: 'customfield_10200',
+    name: 'Platforms',
+    custom: true,
+    schema: { type: 'array', items: 'option' },
+  },
+  {
+    id: 'customfield_10300',
+    name: 'Region',
+    custom: true,
+    schema: { type: 'option-with-child' },
+  },
+  {
+    id: 'customfield_10400',
+    name: 'Go Live',
+    custom: true,
+    schema: { type: 'date' },
+  },
+];
+
+const meta = {
+  customfield_10016: { name: 'Story Points' },
+  customfield_10100: {
+    name: 'Team',
+    allowedValues: [
+      { id: '1', value: 'Platform' },
+      { id: '2', value: 'Mobile' },
+    ],
+  },
+  customfield_10200: {
+    name: 'Platforms',
+    allowedValues: [
+      { id: '10', value: 'iOS' },
+      { id: '11', value: 'Android' },
+    ],
+  },
+  customfield_10300: {
+    name: 'Region',
+    allowedValues: [
+      { id: '20', value: 'EMEA', children: [{ id: '21', value: 'Germany' }] },
+    ],
+  },
+  customfield_10400: { name: 'Go Live' },
+};
+
+describe('resolveCustomFields', () => {
+  it('resolves names to ids and coerces values by schema type', () => {
+    expect(
+      resolveCustomFields(
+        {
+          'story points': '5',
+          Team: 'platform',
+          Platforms: ['iOS', 'Android'],
+          Region: 'EMEA -> Germany',
+          'Go Live': '2024-06-01',
+        },
+        fields,
+        meta
+      )
+    ).toEqual({
+      customfield_10016: 5,
+      customfield_10100: { id: '1' },
+      customfield_10200: [{ id: '10' }, { id: '11' }],
+      customfield_10300: { id: '20', child: { id: '21' } },
+      customfield_10400: '2024-06-01',
+    });
+  });
+
+  it('rejects unknown field names with the available custom fields', () => {
+    expect(() => resolveCustomFields({ Squad: 'A' }, fields, meta)).toThrow(
+      /Unknown custom field "Squad".*Go Live, Platforms, Region, Story Points, Team/
+    );
+  });
+
+  it('rejects invalid option values with the allowed values', () => {
+    expect(() => resolveCustomFields({ Team: 'Web' }, fields, meta)).toThrow(
+      /Invalid value "Web" for field "Team". Allowed values: Platform, Mobile/
+    );
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(() =>
+      resolveCustomFields({ 'Story Points': 'many' }, fields, meta)
+    ).toThrow(/expects a number/);
+    expect(() =>
+      resolveCustomFields({ 'Go Live': 'next week' }, fields, meta)
+    ).toThrow(/YYYY-MM-DD/);
+  });
+
+  it('passes option values through when no metadata is available', () => {
+    expect(resolveCustomFields({ Team: 'Web' }, fields)).toEqual({
+      customfield_10100: { value: 'Web' },
+    });
+  });
+});
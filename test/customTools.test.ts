@@ -0,0 +1,119 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  JqlMacro,
+  expandMacroJql,
+  jqlMacroTool,
+  loadCustomTools,
+} from '../src/tools/custom.js';
+import { toolAccess } from '../src/tools/registry.js';
+
+const macro: JqlMacro = {
+  name: 'team_bugs',
+  description: 'Open bugs of a team',
+  jql: 'project = {project} AND labels = {team} AND status != Done',
+  parameters: {
+    project: { description: 'Project key' },
+    team: { default: 'platform' },
+  },
+};
+
+function toolsDir(files: Record<string, unknown>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'tools-'));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(
+      join(dir, name),
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+  }
+  return dir;
+}
+
+describe('expandMacroJql', () => {
+  it('quotes values and falls back to defaults', () => {
+    expect(expandMacroJql(macro, { project: 'WEB' })).toBe(
+      'project = "WEB" AND labels = "platform" AND status != Done'
+    );
+    expect(
+      expandMacroJql(macro, { project: 'WEB" OR project = X', team: 'ops' })
+    ).toBe(
+      'project = "WEB\\" OR project = X" AND labels = "ops" AND status != Done'
+    );
+  });
+
+  it('rejects a missing value', () => {
+    expect(() => expandMacroJql(macro, {})).toThrow(
+      'Missing value for parameter "project".'
+    );
+  });
+});
+
+describe('jqlMacroTool', () => {
+  it('is a read-only tool requiring the parameters without a default', () => {
+    const tool = jqlMacroTool(macro);
+    expect(toolAccess(tool)).toBe('read');
+    expect(tool.description).toBe(`Open bugs of a team (JQL: ${macro.jql})`);
+    expect(tool.inputSchema.required).toEqual(['project']);
+    expect(tool.inputSchema.properties.team).toEqual({
+      type: 'string',
+      default: 'platform',
+    });
+  });
+});
+
+describe('loadCustomTools', () => {
+  it('loads nothing without a directory', async () => {
+    expect(await loadCustomTools(undefined)).toEqual([]);
+  });
+
+  it('loads JQL macros from JSON files in name order', async () => {
+    const dir = toolsDir({
+      'b.json': macro,
+      'a.json': [
+        { name: 'mine', description: 'Mine', jql: 'assignee = currentUser()' },
+      ],
+      'notes.txt': 'ignored',
+    });
+    const tools = await loadCustomTools(dir);
+    expect(tools.map((t) => t.name)).toEqual(['mine', 'team_bugs']);
+  });
+
+  it('loads tool modules and treats them as destructive by default', async () => {
+    const dir = toolsDir({
+      'hello.mjs': `export const tools = [{
+        name: 'hello',
+        description: 'Say hello',
+        inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+        handler: async () => ({ hello: 'world' }),
+      }];`,
+    });
+    const [tool] = await loadCustomTools(dir);
+    expect(tool.name).toBe('hello');
+    expect(toolAccess(tool)).toBe('destructive');
+    expect(Object.keys(tool.inputSchema.properties)).toEqual(['confirmToken']);
+    expect(await tool.handler({}, {} as any)).toEqual({ hello: 'world' });
+  });
+
+  it('rejects a placeholder that is not a declared parameter', async () => {
+    const dir = toolsDir({
+      'bad.json': {
+        name: 'bad',
+        description: 'Bad',
+        jql: 'project = {project}',
+      },
+    });
+    await expect(loadCustomTools(dir)).rejects.toThrow(
+      '{project} is not a declared parameter.'
+    );
+  });
+
+  it('rejects an invalid tool name', async () => {
+    const dir = toolsDir({
+      'bad.json': { name: 'has spaces', description: 'Bad', jql: 'x = 1' },
+    });
+    await expect(loadCustomTools(dir)).rejects.toThrow(
+      'name must be 1-64 letters, digits, "_" or "-".'
+    );
+  });
+});
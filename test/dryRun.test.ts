@@ -0,0 +1,308 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { builtinTools } from '../src/tools/index.js';
+import { allMocks, fakeJira, resolves, runTool } from './toolHarness.js';
+
+// Every tool taking dryRun plans its requests from read-only lookups and returns them
+// without sending any write to Jira
+
+// Endpoints that change Jira; none may be called during a dry run
+function writeEndpoints() {
+  const issues = () => ({
+    createIssue: resolves(),
+    createIssues: resolves(),
+    editIssue: resolves(),
+    doTransition: resolves(),
+    deleteIssue: resolves(),
+  });
+  const comments = () => ({
+    addComment: resolves(),
+    updateComment: resolves(),
+    deleteComment: resolves(),
+  });
+  return {
+    v2: {
+      issues: issues(),
+      issueComments: comments(),
+      issueLinks: { linkIssues: resolves(), deleteIssueLink: resolves() },
+      issueRemoteLinks: { createOrUpdateRemoteIssueLink: resolves() },
+      issueWatchers: { addWatcher: resolves() },
+      issueVotes: { addVote: resolves(), removeVote: resolves() },
+      issueAttachments: { addAttachment: resolves() },
+      sendRequest: resolves(),
+    },
+    v3: { issues: issues(), issueComments: comments() },
+    agile: {
+      sprint: {
+        createSprint: resolves(),
+        moveIssuesToSprintAndRank: resolves(),
+        partiallyUpdateSprint: resolves(),
+      },
+      backlog: { moveIssuesToBacklog: resolves() },
+      issue: { rankIssues: resolves() },
+    },
+  };
+}
+
+// Lookups the tools make before planning; sprint 1 is future and sprint 2 active
+function fakeClients() {
+  const writes = writeEndpoints();
+  const clients = {
+    v2: {
+      ...writes.v2,
+      issues: {
+        ...writes.v2.issues,
+        getTransitions: resolves({
+          transitions: [{ id: '31', name: 'Resolve', to: { name: 'Done' } }],
+        }),
+      },
+      projects: { getProject: resolves({ id: '100', key: 'PROJ' }) },
+      issueTypes: { getIssueAllTypes: resolves([{ id: '1', name: 'Task' }]) },
+      issuePriorities: { getPriorities: resolves([{ id: '2', name: 'High' }]) },
+      issueLinkTypes: {
+        getIssueLinkTypes: resolves({
+          issueLinkTypes: [
+            {
+              id: '10000',
+              name: 'Blocks',
+              inward: 'is blocked by',
+              outward: 'blocks',
+            },
+          ],
+        }),
+      },
+      userSearch: {
+        findUsers: resolves([
+          { accountId: 'acc-ana', emailAddress: 'ana@example.com' },
+        ]),
+      },
+    },
+    v3: writes.v3,
+    agile: {
+      ...writes.agile,
+      sprint: {
+        ...writes.agile.sprint,
+        getSprint: resolves().mockImplementation(async ({ sprintId }: any) => ({
+          id: sprintId,
+          state: sprintId === 1 ? 'future' : 'active',
+          endDate: '2024-05-20T09:00:00.000Z',
+        })),
+        getIssuesForSprint: resolves({
+          total: 2,
+          issues: [{ key: 'PROJ-1' }, { key: 'PROJ-2' }],
+        }),
+      },
+    },
+  };
+  return { clients, writes };
+}
+
+const uploadDir = mkdtempSync(join(tmpdir(), 'dry-run-'));
+writeFileSync(join(uploadDir, 'notes.txt'), 'hello');
+
+interface DryRunCase {
+  tool: string;
+  args: Record<string, unknown>;
+  requests: [method: string, path: string][];
+  // Body of the first planned request, where the case checks it
+  body?: unknown;
+  warnings?: string[];
+}
+
+const cases: DryRunCase[] = [
+  {
+    tool: 'create_issue',
+    args: {
+      projectKey: 'PROJ',
+      summary: 'New',
+      issueType: 'Task',
+      priority: 'Urgent',
+      watch: ['ana@example.com'],
+    },
+    requests: [
+      ['POST', '/rest/api/2/issue'],
+      ['POST', '/rest/api/2/issue/{new issue key}/watchers'],
+    ],
+    warnings: [
+      'Priority "Urgent" not found, issue will be created without priority.',
+    ],
+  },
+  {
+    tool: 'update_issue',
+    args: { issueKey: 'PROJ-1', summary: 'Renamed', status: 'Done' },
+    requests: [
+      ['PUT', '/rest/api/2/issue/PROJ-1'],
+      ['POST', '/rest/api/2/issue/PROJ-1/transitions'],
+    ],
+    body: { fields: { summary: 'Renamed' } },
+  },
+  {
+    tool: 'delete_issue',
+    args: { issueKey: 'PROJ-1' },
+    requests: [['DELETE', '/rest/api/2/issue/PROJ-1']],
+  },
+  {
+    tool: 'bulk_create_issues',
+    args: {
+      projectKey: 'PROJ',
+      issues: [
+        { ref: 'a', summary: 'One', issueType: 'Task', priority: 'Urgent' },
+        { ref: 'b', summary: 'Two', issueType: 'Task' },
+      ],
+    },
+    requests: [['POST', '/rest/api/2/issue/bulk']],
+    warnings: [
+      'a: Priority "Urgent" not found, issue will be created without priority.',
+    ],
+  },
+  {
+    tool: 'transition_issue',
+    args: { issueKey: 'PROJ-1', transition: 'Resolve' },
+    requests: [['POST', '/rest/api/2/issue/PROJ-1/transitions']],
+  },
+  {
+    tool: 'add_comment',
+    args: { issueKey: 'PROJ-1', body: 'Hello', bodyFormat: 'adf' },
+    requests: [['POST', '/rest/api/3/issue/PROJ-1/comment']],
+  },
+  {
+    tool: 'update_comment',
+    args: { issueKey: 'PROJ-1', commentId: '10', body: 'Edited' },
+    requests: [['PUT', '/rest/api/2/issue/PROJ-1/comment/10']],
+  },
+  {
+    tool: 'delete_comment',
+    args: { issueKey: 'PROJ-1', commentId: '10' },
+    requests: [['DELETE', '/rest/api/2/issue/PROJ-1/comment/10']],
+  },
+  {
+    tool: 'create_issue_link',
+    args: {
+      inwardIssueKey: 'PROJ-1',
+      outwardIssueKey: 'PROJ-2',
+      linkType: 'is blocked by',
+    },
+    requests: [['POST', '/rest/api/2/issueLink']],
+    body: {
+      type: { name: 'Blocks' },
+      inwardIssue: { key: 'PROJ-2' },
+      outwardIssue: { key: 'PROJ-1' },
+    },
+  },
+  {
+    tool: 'delete_issue_link',
+    args: { linkId: '500' },
+    requests: [['DELETE', '/rest/api/2/issueLink/500']],
+  },
+  {
+    tool: 'add_remote_link',
+    args: {
+      issueKey: 'PROJ-1',
+      url: 'https://github.com/acme/app/pull/42',
+      title: 'PR #42',
+    },
+    requests: [['POST', '/rest/api/2/issue/PROJ-1/remotelink']],
+  },
+  {
+    tool: 'add_watcher',
+    args: { issueKey: 'PROJ-1', email: 'ana@example.com' },
+    requests: [['POST', '/rest/api/2/issue/PROJ-1/watchers']],
+  },
+  {
+    tool: 'remove_watcher',
+    args: { issueKey: 'PROJ-1', email: 'ana@example.com' },
+    requests: [
+      ['DELETE', '/rest/api/2/issue/PROJ-1/watchers?accountId=acc-ana'],
+    ],
+  },
+  {
+    tool: 'add_vote',
+    args: { issueKey: 'PROJ-1' },
+    requests: [['POST', '/rest/api/2/issue/PROJ-1/votes']],
+  },
+  {
+    tool: 'remove_vote',
+    args: { issueKey: 'PROJ-1' },
+    requests: [['DELETE', '/rest/api/2/issue/PROJ-1/votes']],
+  },
+  {
+    tool: 'add_attachment',
+    args: { issueKey: 'PROJ-1', filePaths: [join(uploadDir, 'notes.txt')] },
+    requests: [['POST', '/rest/api/2/issue/PROJ-1/attachments']],
+  },
+  {
+    tool: 'move_issues_to_sprint',
+    args: { sprintId: 2, issueKeys: ['PROJ-1'] },
+    requests: [['POST', '/rest/agile/1.0/sprint/2/issue']],
+  },
+  {
+    tool: 'move_issues_to_backlog',
+    args: { issueKeys: ['PROJ-1'] },
+    requests: [['POST', '/rest/agile/1.0/backlog/issue']],
+  },
+  {
+    tool: 'rank_issues',
+    args: { issueKeys: ['PROJ-1'], rankBeforeIssue: 'PROJ-2' },
+    requests: [['PUT', '/rest/agile/1.0/issue/rank']],
+  },
+  {
+    tool: 'create_sprint',
+    args: { boardId: 3, name: 'Sprint 3' },
+    requests: [['POST', '/rest/agile/1.0/sprint']],
+  },
+  {
+    tool: 'start_sprint',
+    args: { sprintId: 1 },
+    requests: [['POST', '/rest/agile/1.0/sprint/1']],
+  },
+  {
+    tool: 'close_sprint',
+    args: { sprintId: 2, moveOpenIssuesToSprintId: 1 },
+    requests: [
+      ['POST', '/rest/agile/1.0/sprint/1/issue'],
+      ['POST', '/rest/agile/1.0/sprint/2'],
+    ],
+    body: { issues: ['PROJ-1', 'PROJ-2'] },
+  },
+];
+
+describe('dryRun', () => {
+  const env = { ...process.env };
+  beforeAll(() => {
+    process.env.JIRA_ATTACHMENT_UPLOAD_DIR = uploadDir;
+  });
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('is covered for every tool that accepts it', () => {
+    const withDryRun = builtinTools
+      .filter((tool) => 'dryRun' in (tool.inputSchema.properties ?? {}))
+      .map((tool) => tool.name);
+    expect(cases.map((c) => c.tool).sort()).toEqual(withDryRun.sort());
+  });
+
+  it.each(cases)(
+    '$tool plans its requests without writing',
+    async ({ tool: name, args, requests, body, warnings }) => {
+      const tool = builtinTools.find((t) => t.name === name)!;
+      const { clients, writes } = fakeClients();
+      const { result } = await runTool(
+        tool,
+        { ...args, dryRun: true },
+        fakeJira(clients)
+      );
+
+      expect(result.dryRun).toBe(true);
+      expect(result.requests.map((r: any) => [r.method, r.path])).toEqual(
+        requests
+      );
+      if (body) expect(result.requests[0].body).toEqual(body);
+      expect(result.warnings).toEqual(warnings);
+      for (const write of allMocks(writes)) {
+        expect(write).not.toHaveBeenCalled();
+      }
+    }
+  );
+});
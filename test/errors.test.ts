@@ -0,0 +1,111 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  describeToolError,
+  fieldHints,
+  formatToolError,
+  labelFieldErrors,
+  toolErrorResult,
+} from '../src/errors.js';
+
+const jiraError = {
+  code: 'ERR_BAD_REQUEST',
+  status: 400,
+  statusText: 'Bad Request',
+  errorMessages: [],
+  errors: {
+    customfield_10016: 'Number value expected',
+    priority: 'Specify a valid value for priority',
+  },
+};
+
+const meta = {
+  summary: { name: 'Summary', required: true },
+  issuetype: { name: 'Issue Type', required: true },
+  customfield_10016: { name: 'Story Points' },
+  priority: {
+    name: 'Priority',
+    allowedValues: [
+      { id: '1', name: 'High' },
+      { id: '2', name: 'Low' },
+    ],
+  },
+};
+
+describe('describeToolError', () => {
+  it('keeps Jira field errors', () => {
+    expect(describeToolError(jiraError)).toEqual({
+      message: 'Jira API Error (400): Invalid field values',
+      status: 400,
+      errorMessages: undefined,
+      fieldErrors: jiraError.errors,
+      hints: [],
+    });
+  });
+
+  it('uses general messages and status hints', () => {
+    const details = describeToolError({
+      status: 404,
+      errorMessages: [
+        'Issue does not exist or you do not have permission to see it.',
+      ],
+    });
+    expect(details.message).toBe(
+      'Jira API Error (404): Issue does not exist or you do not have permission to see it.'
+    );
+    expect(details.hints).toEqual([expect.stringContaining('does not exist')]);
+  });
+
+  it('strips the protocol prefix from McpErrors', () => {
+    expect(
+      describeToolError(new McpError(ErrorCode.InvalidParams, 'Bad sprint'))
+    ).toEqual({ message: 'Bad sprint' });
+  });
+
+  it('describes network failures', () => {
+    expect(describeToolError(new Error('connect ECONNREFUSED'))).toEqual({
+      message: 'connect ECONNREFUSED',
+      status: undefined,
+      hints: [],
+    });
+  });
+});
+
+describe('fieldHints', () => {
+  it('lists allowed values of rejected fields', () => {
+    expect(fieldHints(jiraError.errors, meta)).toEqual([
+      'Allowed values for Priority (priority): High, Low',
+    ]);
+  });
+
+  it('lists required fields when one is missing', () => {
+    expect(fieldHints({ summary: 'Summary is required.' }, meta)).toEqual([
+      'Required fields: summary (Summary), issuetype (Issue Type)',
+    ]);
+  });
+});
+
+describe('toolErrorResult', () => {
+  it('returns an isError result with field errors and hints', () => {
+    const details = {
+      message: 'Jira API Error (400): Invalid field values',
+      fieldErrors: labelFieldErrors(
+        { customfield_10016: 'Number value expected' },
+        { customfield_10016: 'Story Points' }
+      ),
+      hints: ['Check the value'],
+    };
+    expect(formatToolError(details)).toBe(
+      [
+        'Jira API Error (400): Invalid field values',
+        'Field errors:',
+        '- customfield_10016 (Story Points): Number value expected',
+        'Hints:',
+        '- Check the value',
+      ].join('\n')
+    );
+    expect(toolErrorResult(details)).toMatchObject({
+      isError: true,
+      structuredContent: { error: details },
+    });
+  });
+});
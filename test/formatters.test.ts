@@ -0,0 +1,98 @@
+import {
+  cellText,
+  formatResult,
+  toStructuredContent,
+} from '../src/formatters.js';
+
+const page = {
+  total: 2,
+  nextPageToken: 'abc',
+  issues: [
+    {
+      key: 'PROJ-1',
+      fields: {
+        summary: 'Fix login',
+        status: 'In Progress',
+        assignee: { displayName: 'Ann', accountId: 'a1' },
+        labels: ['auth', 'web'],
+      },
+    },
+    {
+      key: 'PROJ-2',
+      fields: {
+        summary: 'Pipes | and "quotes", commas',
+        status: 'To Do',
+        description: 'Line one\nline two',
+      },
+    },
+  ],
+};
+
+describe('formatResult', () => {
+  it('defaults to pretty JSON', () => {
+    expect(formatResult(page)).toBe(JSON.stringify(page, null, 2));
+  });
+
+  it('renders issue lists as markdown tables', () => {
+    const text = formatResult(page, 'markdown');
+    const lines = text.split('\n');
+    expect(lines[0]).toBe(
+      '| key | summary | status | assignee | labels | description |'
+    );
+    expect(lines[2]).toBe(
+      '| PROJ-1 | Fix login | In Progress | Ann | auth, web |  |'
+    );
+    expect(lines[3]).toContain('Pipes \\| and');
+    expect(lines[3]).toContain('Line one line two');
+    expect(text).toContain('- **total**: 2');
+    expect(text).toContain('- **nextPageToken**: abc');
+  });
+
+  it('renders a single issue as a markdown section', () => {
+    const text = formatResult(page.issues[1], 'markdown');
+    expect(text).toBe(
+      '## PROJ-2: Pipes | and "quotes", commas\n\n- **status**: To Do\n\n### Description\n\nLine one\nline two'
+    );
+  });
+
+  it('quotes CSV cells that need it', () => {
+    const lines = formatResult(page, 'csv').split('\r\n');
+    expect(lines[0]).toBe('key,summary,status,assignee,labels,description');
+    expect(lines[1]).toBe('PROJ-1,Fix login,In Progress,Ann,"auth, web",');
+    expect(lines[2]).toBe(
+      'PROJ-2,"Pipes | and ""quotes"", commas",To Do,,,"Line one\nline two"'
+    );
+  });
+
+  it('renders one line per issue in compact mode', () => {
+    expect(formatResult(page, 'compact').split('\n')).toEqual([
+      'PROJ-1 [In Progress] Fix login · assignee: Ann · labels: auth, web',
+      'PROJ-2 [To Do] Pipes | and "quotes", commas',
+      'total: 2 · nextPageToken: abc',
+    ]);
+  });
+
+  it('uses the main list of other results', () => {
+    const comments = {
+      comments: [{ id: '1', author: 'Ann', body: 'Looks good' }],
+    };
+    expect(formatResult(comments, 'csv')).toBe(
+      'id,author,body\r\n1,Ann,Looks good'
+    );
+  });
+});
+
+describe('cellText', () => {
+  it('prefers display names for objects', () => {
+    expect(cellText({ name: 'High', id: '2' })).toBe('High');
+    expect(cellText({ a: 1 })).toBe('{"a":1}');
+    expect(cellText(undefined)).toBe('');
+  });
+});
+
+describe('toStructuredContent', () => {
+  it('wraps results that are not objects', () => {
+    expect(toStructuredContent([1, 2])).toEqual({ result: [1, 2] });
+    expect(toStructuredContent(page)).toBe(page);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  compactHistory,
+  formatDuration,
+  sumTimeInStatus,
+  timeInStatus,
+} from '../src/history.js';
+import { getIssueHistory, getTimeInStatus } from '../src/tools/history.js';
+import { fakeJira, resolves, runTool } from './toolHarness.js';
+
+const histories = [
+  {
+    id: '2',
+    created: '2024-05-03T00:00:00.000+0000',
+    author: { displayName: 'Bob' },
+    items: [
+      { field: 'status', fromString: 'In Progress', toString: 'Blocked' },
+      { field: 'assignee', fromString: 'Ann', toString: 'Bob' },
+    ],
+  },
+  {
+    id: '1',
+    created: '2024-05-02T00:00:00.000+0000',
+    author: { displayName: 'Ann' },
+    items: [{ field: 'status', fromString: 'To Do', toString: 'In Progress' }],
+  },
+  {
+    id: '3',
+    created: '2024-05-03T12:00:00.000+0000',
+    author: { displayName: 'Bob' },
+    items: [
+      { field: 'status', fromString: 'Blocked', toString: 'In Progress' },
+      { field: 'labels', fromString: '', toString: 'urgent' },
+    ],
+  },
+];
+
+describe('compactHistory', () => {
+  it('keeps display values and applies the field filter', () => {
+    expect(compactHistory(histories[2], ['Status'])).toEqual({
+      id: '3',
+      created: '2024-05-03T12:00:00.000+0000',
+      author: 'Bob',
+      changes: [{ field: 'status', from: 'Blocked', to: 'In Progress' }],
+    });
+    expect(compactHistory(histories[1], ['assignee'])).toBeUndefined();
+  });
+});
+
+describe('timeInStatus', () => {
+  it('splits the lifetime of an issue by status and assignee', () => {
+    const result = timeInStatus(
+      {
+        created: '2024-05-01T00:00:00.000+0000',
+        status: 'In Progress',
+        assignee: 'Bob',
+        histories,
+      },
+      new Date('2024-05-04T00:00:00.000Z')
+    );
+
+    expect(result.statuses['To Do']).toEqual({
+      seconds: 86400,
+      duration: '1d',
+      times: 1,
+    });
+    expect(result.statuses['In Progress']).toMatchObject({
+      seconds: 86400 + 43200,
+      times: 2,
+    });
+    expect(result.statuses['Blocked'].duration).toBe('12h');
+    expect(result.assignees['Ann'].duration).toBe('2d');
+    expect(result.assignees['Bob'].duration).toBe('1d');
+  });
+
+  it('stops the clock when the issue is resolved', () => {
+    const result = timeInStatus(
+      {
+        created: '2024-05-01T00:00:00.000+0000',
+        status: 'Done',
+        resolved: '2024-05-03T00:00:00.000+0000',
+        histories: [
+          {
+            created: '2024-05-02T00:00:00.000+0000',
+            items: [{ field: 'status', fromString: 'To Do', toString: 'Done' }],
+          },
+        ],
+      },
+      new Date('2024-05-10T00:00:00.000Z')
+    );
+    expect(result.statuses['Done'].duration).toBe('1d');
+    expect(result.assignees['Unassigned'].duration).toBe('2d');
+  });
+
+  it('sums several issues with averages', () => {
+    const one = timeInStatus(
+      { created: '2024-05-01T00:00:00Z', status: 'Open', histories: [] },
+      new Date('2024-05-02T00:00:00Z')
+    );
+    const two = timeInStatus(
+      { created: '2024-05-01T00:00:00Z', status: 'Open', histories: [] },
+      new Date('2024-05-04T00:00:00Z')
+    );
+    expect(sumTimeInStatus([one, two]).statuses['Open']).toMatchObject({
+      duration: '4d',
+      issues: 2,
+      averageDuration: '2d',
+    });
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats days, hours and minutes', () => {
+    expect(formatDuration(93784)).toBe('1d 2h 3m');
+    expect(formatDuration(42)).toBe('42s');
+  });
+});
+
+// A changelog of `total` status changes, served by the changelog endpoint in pages
+function changelog(total: number) {
+  const all = Array.from({ length: total }, (_, i) => ({
+    id: String(i + 1),
+    created: `2024-05-0${(i % 8) + 2}T00:00:00.000+0000`,
+    items: [
+      { field: 'status', fromString: 'To Do', toString: 'In Progress' },
+      { field: 'labels', fromString: '', toString: 'urgent' },
+    ],
+  }));
+  return {
+    all,
+    getChangeLogs: resolves().mockImplementation(
+      async ({ startAt, maxResults }: any) => ({
+        total,
+        values: all.slice(startAt, startAt + maxResults),
+      })
+    ),
+  };
+}
+
+describe('get_issue_history', () => {
+  it('pages through the changelog', async () => {
+    const { getChangeLogs } = changelog(5);
+    const context = fakeJira({ v2: { issues: { getChangeLogs } } });
+    const { result } = await runTool(
+      getIssueHistory,
+      { issueKey: 'PROJ-1', startAt: 2, maxResults: 2, fields: ['status'] },
+      context
+    );
+    expect(getChangeLogs).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      startAt: 2,
+      maxResults: 2,
+    });
+    expect(result).toMatchObject({
+      total: 5,
+      startAt: 2,
+      returned: 2,
+      isLast: false,
+      nextStartAt: 4,
+    });
+    expect(result.histories.map((h: any) => h.id)).toEqual(['3', '4']);
+    expect(result.histories[0].changes).toEqual([
+      { field: 'status', from: 'To Do', to: 'In Progress' },
+    ]);
+  });
+
+  it('falls back to the changelog embedded in the issue on Server', async () => {
+    const { all } = changelog(3);
+    const getChangeLogs = resolves();
+    getChangeLogs.mockRejectedValue({ status: 404 });
+    const getIssue = resolves({ changelog: { histories: all } });
+    const context = fakeJira({ v2: { issues: { getChangeLogs, getIssue } } });
+    const { result } = await runTool(
+      getIssueHistory,
+      { issueKey: 'PROJ-1', startAt: 2 },
+      context
+    );
+    expect(getIssue).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      fields: ['created'],
+      expand: 'changelog',
+    });
+    expect(result).toMatchObject({ total: 3, returned: 1, isLast: true });
+    expect(result.nextStartAt).toBeUndefined();
+    expect(result.histories[0].id).toBe('3');
+  });
+});
+
+describe('get_time_in_status', () => {
+  it('needs exactly one of issueKey and jql', async () => {
+    const context = fakeJira();
+    await expect(runTool(getTimeInStatus, {}, context)).rejects.toThrow(
+      'Provide either issueKey or jql.'
+    );
+    await expect(
+      runTool(
+        getTimeInStatus,
+        { issueKey: 'PROJ-1', jql: 'project = PROJ' },
+        context
+      )
+    ).rejects.toThrow('Provide either issueKey or jql.');
+  });
+
+  it('reads the whole changelog of one issue', async () => {
+    const { getChangeLogs } = changelog(150);
+    const getIssue = resolves({
+      key: 'PROJ-1',
+      fields: {
+        summary: 'Slow one',
+        status: { name: 'In Progress' },
+        created: '2024-05-01T00:00:00.000+0000',
+      },
+    });
+    const context = fakeJira({ v2: { issues: { getChangeLogs, getIssue } } });
+    const { result } = await runTool(
+      getTimeInStatus,
+      { issueKey: 'PROJ-1' },
+      context
+    );
+    expect(getChangeLogs).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({
+      key: 'PROJ-1',
+      currentStatus: 'In Progress',
+    });
+    expect(result.statuses['In Progress'].times).toBe(150);
+  });
+
+  it('analyses at most 200 issues of a JQL query and flags the rest', async () => {
+    const searchForIssuesUsingJql = resolves().mockImplementation(
+      async ({ startAt, maxResults }: any) => ({
+        total: 300,
+        issues: Array.from({ length: maxResults }, (_, i) => ({
+          key: `PROJ-${startAt + i + 1}`,
+          fields: {
+            status: { name: 'Done' },
+            created: '2024-05-01T00:00:00.000+0000',
+            resolutiondate: '2024-05-02T00:00:00.000+0000',
+          },
+        })),
+      })
+    );
+    const context = fakeJira({
+      v2: {
+        issueSearch: { searchForIssuesUsingJql },
+        issues: { getChangeLogs: changelog(0).getChangeLogs },
+      },
+    });
+    const { result } = await runTool(
+      getTimeInStatus,
+      { jql: 'project = PROJ', maxIssues: 200 },
+      context
+    );
+    expect(searchForIssuesUsingJql).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({
+      total: 300,
+      analysed: 200,
+      truncated: true,
+    });
+    expect(result.totals.statuses['Done']).toMatchObject({
+      issues: 200,
+      averageDuration: '1d',
+    });
+  });
+});
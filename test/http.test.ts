@@ -0,0 +1,177 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  HttpServerHandle,
+  bearerToken,
+  connectionFromHeaders,
+  isAuthorized,
+  loadTransportOptions,
+  startHttpServer,
+} from '../src/http.js';
+
+describe('loadTransportOptions', () => {
+  it('defaults to stdio on loopback', () => {
+    expect(loadTransportOptions([], {})).toEqual({
+      transport: 'stdio',
+      http: {
+        host: '127.0.0.1',
+        port: 3000,
+        authTokens: [],
+        sessionIdleMs: 1800000,
+      },
+    });
+  });
+
+  it('reads flags before environment variables', () => {
+    const options = loadTransportOptions(
+      ['--transport', 'http', '--port=8080', '--host', '0.0.0.0'],
+      {
+        MCP_TRANSPORT: 'stdio',
+        MCP_HTTP_PORT: '9000',
+        MCP_AUTH_TOKENS: 'a, b',
+        MCP_SESSION_IDLE_TIMEOUT_SECONDS: '600',
+      }
+    );
+    expect(options).toEqual({
+      transport: 'http',
+      http: {
+        host: '0.0.0.0',
+        port: 8080,
+        authTokens: ['a', 'b'],
+        sessionIdleMs: 600000,
+      },
+    });
+  });
+
+  it('requires auth tokens on non-loopback addresses', () => {
+    expect(() =>
+      loadTransportOptions([], {
+        MCP_TRANSPORT: 'http',
+        MCP_HTTP_HOST: '0.0.0.0',
+      })
+    ).toThrow(/MCP_AUTH_TOKENS/);
+    expect(() => loadTransportOptions(['--transport', 'ws'], {})).toThrow(
+      /Unsupported transport/
+    );
+    expect(() => loadTransportOptions(['--port', 'abc'], {})).toThrow(
+      /Invalid HTTP port/
+    );
+    expect(() =>
+      loadTransportOptions([], { MCP_SESSION_IDLE_TIMEOUT_SECONDS: '0' })
+    ).toThrow(/Invalid MCP_SESSION_IDLE_TIMEOUT_SECONDS/);
+  });
+});
+
+describe('bearer authentication', () => {
+  it('accepts only configured tokens', () => {
+    expect(bearerToken('Bearer abc')).toBe('abc');
+    expect(bearerToken('Basic abc')).toBeUndefined();
+    expect(isAuthorized('abc', ['abc', 'def'])).toBe(true);
+    expect(isAuthorized('abd', ['abc'])).toBe(false);
+    expect(isAuthorized(undefined, ['abc'])).toBe(false);
+    expect(isAuthorized(undefined, [])).toBe(true);
+  });
+});
+
+describe('connectionFromHeaders', () => {
+  const env = {
+    JIRA_HOST: 'example.atlassian.net',
+    JIRA_EMAIL: 'bot@example.com',
+    JIRA_API_TOKEN: 'bot-token',
+  };
+
+  it('uses the default credentials when the session sends none', () => {
+    expect(connectionFromHeaders({}, env)).toBeUndefined();
+  });
+
+  it('replaces the configured credentials and keeps the host', () => {
+    expect(
+      connectionFromHeaders(
+        { 'x-jira-email': 'ann@example.com', 'x-jira-api-token': 'ann-token' },
+        env
+      )
+    ).toMatchObject({
+      host: 'https://example.atlassian.net',
+      authType: 'basic',
+      email: 'ann@example.com',
+      apiToken: 'ann-token',
+    });
+    expect(
+      connectionFromHeaders(
+        { 'x-jira-access-token': 'oauth-token' },
+        { ...env, JIRA_CLOUD_ID: 'abc-123' }
+      )
+    ).toMatchObject({
+      host: 'https://api.atlassian.com/ex/jira/abc-123',
+      authType: 'oauth',
+      email: undefined,
+    });
+  });
+
+  it('rejects incomplete credentials', () => {
+    expect(() =>
+      connectionFromHeaders({ 'x-jira-email': 'ann@example.com' }, env)
+    ).toThrow(/JIRA_API_TOKEN/);
+  });
+});
+
+describe('startHttpServer', () => {
+  let http: HttpServerHandle;
+  afterEach(async () => {
+    await http?.close();
+  });
+
+  function open(sessionIdleMs = 60000) {
+    return startHttpServer(
+      { host: '127.0.0.1', port: 0, authTokens: [], sessionIdleMs },
+      () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} })
+    );
+  }
+
+  // Opens a Streamable HTTP session and returns the response
+  function initialize(url: string) {
+    return fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'client', version: '1.0.0' },
+        },
+      }),
+    });
+  }
+
+  it('accepts its own host name when listening on a random port', async () => {
+    http = await open();
+    const response = await initialize(http.url);
+    await response.text();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+  });
+
+  it('closes sessions that stay idle', async () => {
+    http = await open(50);
+    const opened = await initialize(http.url);
+    await opened.text();
+    const sessionId = opened.headers.get('mcp-session-id')!;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const response = await fetch(`${http.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,54 @@
+import { updateIssue } from '../src/tools/issues.js';
+import { fakeJira, resolves, runTool } from './toolHarness.js';
+
+describe('update_issue', () => {
+  const transitions = {
+    transitions: [
+      { id: '21', name: 'Start Progress', to: { name: 'In Progress' } },
+      { id: '31', name: 'Resolve', to: { name: 'Done' } },
+    ],
+  };
+
+  function client() {
+    return {
+      issues: {
+        getTransitions: resolves(transitions),
+        editIssue: resolves(),
+        doTransition: resolves(),
+        getIssue: resolves({ key: 'PROJ-1', fields: {} }),
+      },
+    };
+  }
+
+  it('transitions to the requested status after the field update', async () => {
+    const v2 = client();
+    await runTool(
+      updateIssue,
+      { issueKey: 'PROJ-1', summary: 'New title', status: 'in progress' },
+      fakeJira({ v2 })
+    );
+    expect(v2.issues.editIssue).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      fields: { summary: 'New title' },
+    });
+    expect(v2.issues.doTransition).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      transition: { id: '21' },
+    });
+  });
+
+  it('fails without writing when no transition reaches the status', async () => {
+    const v2 = client();
+    await expect(
+      runTool(
+        updateIssue,
+        { issueKey: 'PROJ-1', summary: 'New title', status: 'Closed' },
+        fakeJira({ v2 })
+      )
+    ).rejects.toThrow(
+      'Status "Closed" cannot be reached from the current status of issue PROJ-1. Available transitions: "Start Progress" (id 21) -> In Progress, "Resolve" (id 31) -> Done'
+    );
+    expect(v2.issues.editIssue).not.toHaveBeenCalled();
+    expect(v2.issues.doTransition).not.toHaveBeenCalled();
+  });
+});
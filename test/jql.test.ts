@@ -0,0 +1,69 @@
+import { andJql, buildSearchJql, quoteJql, splitOrderBy } from '../src/jql.js';
+
+describe('quoteJql', () => {
+  it('escapes quotes and backslashes', () => {
+    expect(quoteJql('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+  });
+});
+
+describe('splitOrderBy', () => {
+  it('ignores ORDER BY inside quotes and parentheses', () => {
+    expect(splitOrderBy('summary ~ "order by" ORDER BY created DESC')).toEqual({
+      where: 'summary ~ "order by"',
+      orderBy: 'created DESC',
+    });
+    expect(splitOrderBy('(a = 1 order by b)')).toEqual({
+      where: '(a = 1 order by b)',
+    });
+  });
+});
+
+describe('andJql', () => {
+  it('wraps clauses and hoists the last ORDER BY to the end', () => {
+    expect(
+      andJql(
+        'project = "A" ORDER BY Rank ASC',
+        'status = Done OR x = 1 order by updated'
+      )
+    ).toBe('(project = "A") AND (status = Done OR x = 1) ORDER BY updated');
+    expect(andJql('project = "A"', undefined, '')).toBe('project = "A"');
+    expect(andJql('ORDER BY key')).toBe('ORDER BY key');
+  });
+});
+
+describe('buildSearchJql', () => {
+  it('builds quoted clauses from structured filters', () => {
+    expect(
+      buildSearchJql({
+        project: ['PROJ', 'OPS'],
+        status: 'In Progress',
+        assignee: 'unassigned',
+        labels: ['backend'],
+        updatedSince: '7d',
+        text: 'login "timeout"',
+        sprint: 'open',
+        orderBy: 'updated DESC',
+      })
+    ).toBe(
+      'project in ("PROJ", "OPS") AND status = "In Progress" AND assignee is EMPTY AND labels = "backend" AND updated >= -7d AND text ~ "login \\"timeout\\"" AND sprint in openSprints() ORDER BY updated DESC'
+    );
+  });
+
+  it('combines raw JQL and rejects malformed dates', () => {
+    expect(
+      buildSearchJql({ project: 'PROJ', jql: 'priority = High ORDER BY key' })
+    ).toBe('(project = "PROJ") AND (priority = High) ORDER BY key');
+    expect(() => buildSearchJql({ updatedSince: 'last week' })).toThrow(
+      /updatedSince/
+    );
+  });
+
+  it('rejects lists without any value instead of writing "in ()"', () => {
+    expect(() => buildSearchJql({ status: ['', ''] })).toThrow(
+      'No value given for status'
+    );
+    expect(buildSearchJql({ status: [], project: 'PROJ' })).toBe(
+      'project = "PROJ"'
+    );
+  });
+});
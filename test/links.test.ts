@@ -0,0 +1,108 @@
+import {
+  describeIssueLink,
+  describeLinkTypes,
+  findLinkType,
+  sanitizeRemoteLink,
+} from '../src/links.js';
+
+const linkTypes = [
+  { id: '10000', name: 'Blocks', inward: 'is blocked by', outward: 'blocks' },
+  {
+    id: '10001',
+    name: 'Duplicate',
+    inward: 'is duplicated by',
+    outward: 'duplicates',
+  },
+];
+
+describe('findLinkType', () => {
+  it('matches the id, name or outward description as given', () => {
+    for (const ref of ['10000', 'Blocks', 'blocks', ' BLOCKS ']) {
+      expect(findLinkType(linkTypes, ref)).toEqual({
+        name: 'Blocks',
+        reversed: false,
+      });
+    }
+  });
+
+  it('reverses the link for the inward description', () => {
+    expect(findLinkType(linkTypes, 'Is Blocked By')).toEqual({
+      name: 'Blocks',
+      reversed: true,
+    });
+  });
+
+  it('returns undefined for unknown link types', () => {
+    expect(findLinkType(linkTypes, 'relates to')).toBeUndefined();
+  });
+});
+
+describe('describeLinkTypes', () => {
+  it('lists names with both descriptions', () => {
+    expect(describeLinkTypes(linkTypes)).toBe(
+      '"Blocks" (blocks / is blocked by), "Duplicate" (duplicates / is duplicated by)'
+    );
+  });
+});
+
+describe('describeIssueLink', () => {
+  const issue = (key: string) => ({
+    key,
+    fields: { summary: 'Other', status: { name: 'Open' } },
+  });
+
+  it('reads an outward link from the issue', () => {
+    expect(
+      describeIssueLink('PROJ-1', {
+        id: '1',
+        type: linkTypes[0],
+        outwardIssue: issue('PROJ-2'),
+      })
+    ).toEqual({
+      id: '1',
+      type: 'Blocks',
+      direction: 'outward',
+      relation: 'blocks',
+      issue: { key: 'PROJ-2', summary: 'Other', status: 'Open' },
+      text: 'PROJ-1 blocks PROJ-2',
+    });
+  });
+
+  it('reads an inward link from the issue', () => {
+    expect(
+      describeIssueLink('PROJ-1', {
+        id: '2',
+        type: linkTypes[0],
+        inwardIssue: issue('PROJ-3'),
+      })
+    ).toMatchObject({
+      direction: 'inward',
+      relation: 'is blocked by',
+      text: 'PROJ-1 is blocked by PROJ-3',
+    });
+  });
+});
+
+describe('sanitizeRemoteLink', () => {
+  it('keeps the link target and drops empty values', () => {
+    expect(
+      sanitizeRemoteLink({
+        id: 7,
+        self: 'https://example.atlassian.net/rest/api/2/issue/PROJ-1/remotelink/7',
+        globalId: 'https://github.com/acme/app/pull/42',
+        relationship: 'pull requests',
+        object: {
+          url: 'https://github.com/acme/app/pull/42',
+          title: 'PR #42',
+          icon: {},
+        },
+      })
+    ).toEqual({
+      id: 7,
+      globalId: 'https://github.com/acme/app/pull/42',
+      relationship: 'pull requests',
+      title: 'PR #42',
+      url: 'https://github.com/acme/app/pull/42',
+    });
+  });
+});
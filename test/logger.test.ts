@@ -0,0 +1,146 @@
+import {
+  DEFAULT_LOGGER_OPTIONS,
+  LogRecord,
+  createLogger,
+  formatRecord,
+  loggerOptionsFromEnv,
+  redact,
+} from '../src/logger.js';
+
+describe('loggerOptionsFromEnv', () => {
+  it('defaults to info text logs with personal data redacted', () => {
+    expect(loggerOptionsFromEnv({})).toEqual({
+      level: 'info',
+      format: 'text',
+      file: undefined,
+      redactPersonalData: true,
+      clientLevel: 'info',
+    });
+  });
+
+  it('reads levels, format, file and redaction', () => {
+    expect(
+      loggerOptionsFromEnv({
+        JIRA_LOG_LEVEL: 'warn',
+        JIRA_LOG_FORMAT: 'JSON',
+        JIRA_LOG_FILE: '/tmp/jira.log',
+        JIRA_LOG_REDACT_PERSONAL_DATA: 'false',
+        JIRA_LOG_CLIENT_LEVEL: 'debug',
+      })
+    ).toEqual({
+      level: 'warning',
+      format: 'json',
+      file: '/tmp/jira.log',
+      redactPersonalData: false,
+      clientLevel: 'debug',
+    });
+  });
+
+  it('rejects unknown levels and formats', () => {
+    expect(() => loggerOptionsFromEnv({ JIRA_LOG_LEVEL: 'verbose' })).toThrow(
+      'JIRA_LOG_LEVEL must be one of'
+    );
+    expect(() => loggerOptionsFromEnv({ JIRA_LOG_FORMAT: 'xml' })).toThrow(
+      'JIRA_LOG_FORMAT'
+    );
+  });
+});
+
+describe('redact', () => {
+  it('always removes credentials', () => {
+    expect(
+      redact(
+        {
+          apiToken: 'secret',
+          headers: { Authorization: 'Basic abc' },
+          note: 'sent Bearer abc.def and ATATT3xFfGF0',
+        },
+        false
+      )
+    ).toEqual({
+      apiToken: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]' },
+      note: 'sent Bearer [REDACTED] and [REDACTED]',
+    });
+  });
+
+  it('removes personal data unless disabled', () => {
+    const args = {
+      issueKey: 'PROJ-1',
+      assignee: 'jane@example.com',
+      summary: 'Login fails',
+      jql: 'reporter = "jane@example.com"',
+    };
+    expect(redact(args)).toEqual({
+      issueKey: 'PROJ-1',
+      assignee: '[REDACTED]',
+      summary: '[11 chars]',
+      jql: 'reporter = "[email]"',
+    });
+    expect(redact(args, false)).toEqual(args);
+  });
+
+  it('keeps only the useful parts of errors', () => {
+    const error = Object.assign(new Error('Request failed'), {
+      status: 401,
+      config: { headers: { Authorization: 'Basic abc' } },
+    });
+    expect(redact(error)).toEqual({
+      name: 'Error',
+      message: 'Request failed',
+      status: 401,
+      stack: expect.any(String),
+    });
+  });
+});
+
+describe('formatRecord', () => {
+  const record: LogRecord = {
+    time: '2024-01-01T00:00:00.000Z',
+    level: 'warning',
+    message: 'Retrying',
+    retry: 1,
+  };
+
+  it('writes text lines with the data as JSON', () => {
+    expect(formatRecord(record, 'text')).toBe(
+      '2024-01-01T00:00:00.000Z WARNING Retrying {"retry":1}'
+    );
+  });
+
+  it('writes one JSON object per line', () => {
+    expect(JSON.parse(formatRecord(record, 'json'))).toEqual(record);
+  });
+});
+
+describe('createLogger', () => {
+  it('writes records at or above the level and passes all to sinks', () => {
+    const lines: string[] = [];
+    const logger = createLogger(
+      { ...DEFAULT_LOGGER_OPTIONS, format: 'json' },
+      (line) => lines.push(line)
+    );
+    const records: LogRecord[] = [];
+    const remove = logger.addSink((record) => records.push(record));
+
+    logger.debug('Received call', { args: { apiToken: 'secret' } });
+    logger.warn('Retrying');
+    remove();
+    logger.error('Failed');
+
+    expect(lines.map((line) => JSON.parse(line).message)).toEqual([
+      'Retrying',
+      'Failed',
+    ]);
+    expect(records.map((record) => record.level)).toEqual(['debug', 'warning']);
+    expect(records[0].args).toEqual({ apiToken: '[REDACTED]' });
+  });
+
+  it('ignores failing sinks', () => {
+    const logger = createLogger(DEFAULT_LOGGER_OPTIONS, () => {});
+    logger.addSink(() => {
+      throw new Error('disconnected');
+    });
+    expect(() => logger.info('Still logged')).not.toThrow();
+  });
+});
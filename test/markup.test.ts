@@ -0,0 +1,108 @@
+import {
+  adfToMarkdown,
+  markdownToAdf,
+  markdownToWiki,
+  toJiraRichText,
+  toMarkdown,
+  wikiToMarkdown,
+} from '../src/markup.js';
+
+describe('markdownToWiki', () => {
+  it('converts headings, emphasis, code and links', () => {
+    const wiki = markdownToWiki(
+      '# Title\n\nSome **bold**, *italic*, ~~gone~~ and `code` with a [link](https://example.com).'
+    );
+    expect(wiki).toBe(
+      'h1. Title\n\nSome *bold*, _italic_, -gone- and {{code}} with a [link|https://example.com].'
+    );
+  });
+
+  it('converts fenced code blocks without touching their content', () => {
+    const wiki = markdownToWiki('```ts\nconst a = **b**;\n```');
+    expect(wiki).toBe('{code:ts}\nconst a = **b**;\n{code}');
+  });
+
+  it('converts nested and ordered lists', () => {
+    const wiki = markdownToWiki('- one\n  1. first\n  2. second\n- two');
+    expect(wiki).toBe('* one\n*# first\n*# second\n* two');
+  });
+
+  it('converts tables and quotes', () => {
+    expect(markdownToWiki('| a | b |\n|---|---|\n| 1 | 2 |')).toBe(
+      '||a||b||\n|1|2|'
+    );
+    expect(markdownToWiki('> quoted')).toBe('bq. quoted');
+  });
+
+  it('escapes characters that wiki markup would interpret', () => {
+    expect(markdownToWiki('use snake_case and {braces}')).toBe(
+      'use snake\\_case and \\{braces\\}'
+    );
+  });
+});
+
+describe('markdownToAdf', () => {
+  it('builds a document with marks and lists', () => {
+    const doc = markdownToAdf('Hello **world**\n\n- item');
+    expect(doc).toEqual({
+      type: 'doc',
+      version: 1,
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Hello ' },
+            { type: 'text', text: 'world', marks: [{ type: 'strong' }] },
+          ],
+        },
+        {
+          type: 'bulletList',
+          content: [
+            {
+              type: 'listItem',
+              content: [
+                { type: 'paragraph', content: [{ type: 'text', text: 'item' }] },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('round-trips through adfToMarkdown', () => {
+    const markdown =
+      '## Steps\n\n1. Open **settings**\n2. Click [save](https://example.com)\n\n```sh\nnpm test\n```';
+    expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+  });
+});
+
+describe('wikiToMarkdown', () => {
+  it('converts wiki markup back to Markdown', () => {
+    const markdown = wikiToMarkdown(
+      'h2. Summary\n*bold* and _italic_ see [docs|https://example.com/a_b]\n* one\n** nested\n{code:java}\nint x_y = 1;\n{code}'
+    );
+    expect(markdown).toBe(
+      '## Summary\n**bold** and *italic* see [docs](https://example.com/a_b)\n- one\n  - nested\n```java\nint x_y = 1;\n```'
+    );
+  });
+
+  it('converts tables with a header row', () => {
+    expect(wikiToMarkdown('||a||b||\n|1|[x|http://y]|')).toBe(
+      '| a | b |\n| --- | --- |\n| 1 | [x](http://y) |'
+    );
+  });
+});
+
+describe('format entry points', () => {
+  it('passes wiki through and accepts serialized ADF', () => {
+    expect(toJiraRichText('*as is*', 'wiki')).toBe('*as is*');
+    const doc = { type: 'doc', version: 1, content: [] };
+    expect(toJiraRichText(JSON.stringify(doc), 'adf')).toEqual(doc);
+  });
+
+  it('renders Jira values as Markdown', () => {
+    expect(toMarkdown('*bold*')).toBe('**bold**');
+    expect(toMarkdown(null)).toBeNull();
+  });
+});
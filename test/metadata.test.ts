@@ -0,0 +1,36 @@
+import { refreshMetadata } from '../src/tools/metadata.js';
+import { fakeJira, resolves, runTool } from './toolHarness.js';
+
+describe('refresh_metadata', () => {
+  it('reloads the link types', async () => {
+    const getIssueLinkTypes = resolves({
+      issueLinkTypes: [{ id: '10000', name: 'Blocks' }],
+    });
+    const context = fakeJira({ v2: { issueLinkTypes: { getIssueLinkTypes } } });
+    await context.metadataCache.get('linkTypes', async () => []);
+
+    const { result } = await runTool(
+      refreshMetadata,
+      { scope: 'linkTypes' },
+      context
+    );
+    expect(result.refreshed).toEqual({ linkTypes: 1 });
+    await expect(
+      context.metadataCache.get('linkTypes', async () => [])
+    ).resolves.toEqual([{ id: '10000', name: 'Blocks' }]);
+  });
+
+  it('drops the create screens of a project given in any case', async () => {
+    const context = fakeJira();
+    const cache = context.metadataCache;
+    await cache.get('createMeta:PROJ:1', async () => ({}));
+    await cache.get('createMeta:OTHER:1', async () => ({}));
+
+    await runTool(
+      refreshMetadata,
+      { scope: 'createMeta', projectKey: 'proj' },
+      context
+    );
+    expect(cache.keys()).toEqual(['createMeta:OTHER:1']);
+  });
+});
@@ -0,0 +1,57 @@
+import { jest } from '@jest/globals';
+import { createMetadataCache } from '../src/metadataCache.js';
+
+describe('createMetadataCache', () => {
+  it('loads once and serves cached values within the TTL', async () => {
+    const cache = createMetadataCache(60_000);
+    const loader = jest.fn(async () => ['High', 'Low']);
+
+    await cache.get('priorities', loader);
+    await cache.get('priorities', loader);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads after the TTL expires', async () => {
+    const cache = createMetadataCache(0);
+    const loader = jest.fn(async () => ['High']);
+
+    await cache.get('priorities', loader);
+    await cache.get('priorities', loader);
+
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads a stale list once when a lookup misses', async () => {
+    const cache = createMetadataCache(60_000);
+    let values = [{ name: 'Bug' }];
+    const loader = jest.fn(async () => values);
+
+    await cache.get('issueTypes', loader);
+    values = [{ name: 'Bug' }, { name: 'Spike' }];
+
+    const found = await cache.find('issueTypes', loader, (t) => t.name === 'Spike');
+    const missing = await cache.find('issueTypes', loader, (t) => t.name === 'Epic');
+
+    expect(found).toEqual({ name: 'Spike' });
+    expect(missing).toBeUndefined();
+    expect(loader).toHaveBeenCalledTimes(3);
+  });
+
+  it('invalidates keys by prefix and does not cache failures', async () => {
+    const cache = createMetadataCache(60_000);
+    await cache.get('components:1', async () => []);
+    await cache.get('components:2', async () => []);
+    await cache.get('fields', async () => []);
+
+    cache.invalidate('components');
+    expect(cache.keys()).toEqual(['fields']);
+
+    await expect(
+      cache.get('priorities', async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(cache.keys()).toEqual(['fields']);
+  });
+});
@@ -0,0 +1,111 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  assertWriteAllowed,
+  createConfirmationStore,
+  isToolEnabled,
+  loadPolicy,
+  projectKeyOf,
+} from '../src/policy.js';
+
+describe('loadPolicy', () => {
+  it('reads the policy file and lets the environment override it', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'policy-')), 'policy.json');
+    writeFileSync(
+      file,
+      JSON.stringify({
+        readOnly: true,
+        deniedTools: ['delete_issue'],
+        writeProjects: ['ops'],
+      })
+    );
+
+    expect(
+      loadPolicy({ JIRA_POLICY_FILE: file, JIRA_READ_ONLY: 'false' })
+    ).toEqual({
+      readOnly: false,
+      allowedTools: undefined,
+      deniedTools: ['delete_issue'],
+      writeProjects: ['OPS'],
+      confirmDestructive: true,
+    });
+  });
+
+  it('rejects invalid booleans', () => {
+    expect(() => loadPolicy({ JIRA_READ_ONLY: 'maybe' })).toThrow(
+      /JIRA_READ_ONLY/
+    );
+  });
+});
+
+describe('tool policy', () => {
+  it('applies read-only mode and allow/deny lists', () => {
+    const readOnly = loadPolicy({ JIRA_READ_ONLY: 'true' });
+    expect(isToolEnabled(readOnly, 'get_issue', 'read')).toBe(true);
+    expect(isToolEnabled(readOnly, 'create_issue', 'write')).toBe(false);
+
+    const lists = loadPolicy({
+      JIRA_ALLOWED_TOOLS: 'get_issue, add_comment',
+      JIRA_DENIED_TOOLS: 'add_comment',
+    });
+    expect(isToolEnabled(lists, 'get_issue', 'read')).toBe(true);
+    expect(isToolEnabled(lists, 'add_comment', 'write')).toBe(false);
+    expect(isToolEnabled(lists, 'get_issues', 'read')).toBe(false);
+  });
+
+  it('limits writes to the configured projects', () => {
+    const policy = loadPolicy({ JIRA_WRITE_PROJECTS: 'OPS,web' });
+    expect(() =>
+      assertWriteAllowed(policy, 'add_comment', ['ops', 'WEB'])
+    ).not.toThrow();
+    expect(() => assertWriteAllowed(policy, 'add_comment', ['HR'])).toThrow(
+      /not allowed in project HR/
+    );
+    expect(() =>
+      assertWriteAllowed(policy, 'create_sprint', undefined)
+    ).toThrow(/could not determine the target project/);
+    expect(projectKeyOf('ops-12')).toBe('OPS');
+    expect(projectKeyOf('10042')).toBeUndefined();
+  });
+});
+
+describe('createConfirmationStore', () => {
+  it('accepts a token once and only for the same call', () => {
+    const store = createConfirmationStore();
+    const token = store.issue('delete_issue', { issueKey: 'OPS-1' });
+
+    expect(
+      store.consume(token, 'delete_issue', {
+        issueKey: 'OPS-2',
+        confirmToken: token,
+      })
+    ).toBe(false);
+    expect(
+      store.consume(token, 'delete_issue', {
+        issueKey: 'OPS-1',
+        confirmToken: token,
+      })
+    ).toBe(true);
+    expect(
+      store.consume(token, 'delete_issue', {
+        issueKey: 'OPS-1',
+        confirmToken: token,
+      })
+    ).toBe(false);
+  });
+
+  it('expires tokens', () => {
+    const store = createConfirmationStore(0);
+    const token = store.issue('delete_comment', {
+      issueKey: 'OPS-1',
+      commentId: '1',
+    });
+    expect(
+      store.consume(token, 'delete_comment', {
+        issueKey: 'OPS-1',
+        commentId: '1',
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  compactValue,
+  fieldListProjection,
+  projectIssue,
+  viewProjection,
+} from '../src/projection.js';
+
+const issue = {
+  id: '10001',
+  key: 'PROJ-1',
+  self: 'https://example.atlassian.net/rest/api/2/issue/10001',
+  fields: {
+    summary: 'Fix login',
+    status: { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+    assignee: {
+      accountId: 'abc',
+      displayName: 'Ann',
+      avatarUrls: { '48x48': 'https://avatar' },
+    },
+    priority: { id: '2', name: 'High', iconUrl: 'https://icon' },
+    updated: '2024-05-01T10:00:00.000+0000',
+    customfield_10016: 5,
+    customfield_10100: { id: '1', value: 'Platform', self: 'https://option' },
+  },
+};
+
+const definitions = [
+  { id: 'summary', name: 'Summary', custom: false },
+  { id: 'customfield_10016', name: 'Story Points', custom: true },
+  { id: 'customfield_10100', name: 'Team', custom: true },
+];
+
+describe('projectIssue', () => {
+  it('keeps the minimal view fields with compact values', () => {
+    expect(projectIssue(issue, viewProjection('minimal'))).toEqual({
+      key: 'PROJ-1',
+      fields: {
+        summary: 'Fix login',
+        status: 'In Progress',
+        assignee: { displayName: 'Ann', accountId: 'abc' },
+        priority: 'High',
+        updated: '2024-05-01T10:00:00.000+0000',
+      },
+    });
+  });
+
+  it('returns custom fields requested by name under that name', () => {
+    const projection = fieldListProjection(
+      ['summary', 'story points', 'Team'],
+      definitions
+    );
+    expect(projection.request).toEqual([
+      'summary',
+      'customfield_10016',
+      'customfield_10100',
+    ]);
+    expect(projectIssue(issue, projection).fields).toEqual({
+      summary: 'Fix login',
+      'Story Points': 5,
+      Team: 'Platform',
+    });
+  });
+
+  it('rejects unknown fields', () => {
+    expect(() => fieldListProjection(['Squad'], definitions)).toThrow(
+      /Unknown field\(s\): Squad/
+    );
+  });
+
+  it('keeps raw values in the full view', () => {
+    const projected = projectIssue(issue, viewProjection('full'));
+    expect(viewProjection('full').request).toEqual(['*all']);
+    expect(projected.fields.priority).toEqual(issue.fields.priority);
+    expect(Object.keys(projected.fields)).toHaveLength(7);
+  });
+});
+
+describe('compactValue', () => {
+  it('flattens nested issues and cascading options', () => {
+    expect(
+      compactValue({
+        key: 'PROJ-2',
+        fields: { summary: 'Child', status: { name: 'Done' } },
+      })
+    ).toEqual({ key: 'PROJ-2', summary: 'Child', status: 'Done' });
+    expect(
+      compactValue({
+        id: '20',
+        value: 'EMEA',
+        child: { id: '21', value: 'Germany' },
+      })
+    ).toBe('EMEA -> Germany');
+  });
+});
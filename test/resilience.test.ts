@@ -0,0 +1,147 @@
+import { jest } from '@jest/globals';
+import { Readable } from 'node:stream';
+import {
+  createRateLimiter,
+  createResilience,
+  isReplayableBody,
+  parseRetryAfter,
+  retryDelay,
+} from '../src/resilience.js';
+
+const options = {
+  maxRetries: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 1000,
+  timeoutMs: 5000,
+  requestsPerSecond: 1000,
+  burst: 1000,
+  maxConcurrent: 2,
+};
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return { isAxiosError: true, response: { status, headers } };
+}
+
+describe('retryDelay', () => {
+  it('honours Retry-After on 429 for any method', () => {
+    expect(
+      retryDelay(httpError(429, { 'retry-after': '0.2' }), 'POST', 0, options)
+    ).toBe(200);
+  });
+
+  it('retries server errors and timeouts only for idempotent requests', () => {
+    expect(retryDelay(httpError(503), 'GET', 0, options)).toBeGreaterThan(0);
+    expect(
+      retryDelay(
+        { isAxiosError: true, code: 'ECONNABORTED' },
+        'PUT',
+        1,
+        options
+      )
+    ).toBeGreaterThan(0);
+    expect(retryDelay(httpError(502), 'POST', 0, options)).toBeUndefined();
+    expect(retryDelay(httpError(400), 'GET', 0, options)).toBeUndefined();
+  });
+
+  it('gives up after maxRetries or when Retry-After is too long', () => {
+    expect(retryDelay(httpError(429), 'GET', 3, options)).toBeUndefined();
+    expect(
+      retryDelay(httpError(429, { 'retry-after': '60' }), 'GET', 0, options)
+    ).toBeUndefined();
+  });
+
+  it('parses Retry-After as seconds or an HTTP date', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('createResilience', () => {
+  it('retries throttled requests and applies the default timeout', async () => {
+    const send = jest
+      .fn<(config: any) => Promise<any>>()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce({ data: 'ok' });
+    const client = createResilience(options).wrap(
+      { sendRequestFullResponse: send },
+      'https://example.atlassian.net'
+    );
+
+    await expect(
+      client.sendRequestFullResponse({
+        url: '/rest/api/2/issue/A-1',
+        method: 'POST',
+      })
+    ).resolves.toEqual({ data: 'ok' });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0][0]).toMatchObject({ timeout: 5000 });
+  });
+
+  it('rethrows errors that should not be retried', async () => {
+    const send = jest
+      .fn<(config: any) => Promise<any>>()
+      .mockRejectedValue(httpError(500));
+    const client = createResilience(options).wrap(
+      { sendRequestFullResponse: send },
+      'https://example.atlassian.net'
+    );
+
+    await expect(
+      client.sendRequestFullResponse({ url: '/x', method: 'POST' })
+    ).rejects.toEqual(httpError(500));
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createResilience with one-shot bodies', () => {
+  it('does not retry requests whose body is a stream or form', async () => {
+    for (const data of [Readable.from(['file']), new FormData()]) {
+      const send = jest
+        .fn<(config: any) => Promise<any>>()
+        .mockRejectedValue(httpError(429, { 'retry-after': '0' }));
+      const client = createResilience(options).wrap(
+        { sendRequestFullResponse: send },
+        'https://example.atlassian.net'
+      );
+      await expect(
+        client.sendRequestFullResponse({ url: '/x', method: 'POST', data })
+      ).rejects.toEqual(httpError(429, { 'retry-after': '0' }));
+      expect(send).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('tells replayable bodies apart', () => {
+    expect(isReplayableBody(undefined)).toBe(true);
+    expect(isReplayableBody('"5b10ac8d82e05b22cc7d4ef5"')).toBe(true);
+    expect(isReplayableBody({ fields: { summary: 'x' } })).toBe(true);
+    expect(isReplayableBody(Readable.from(['x']))).toBe(false);
+    expect(isReplayableBody(new FormData())).toBe(false);
+  });
+});
+
+describe('createResilience limiters', () => {
+  it('keeps one limiter per host', () => {
+    const resilience = createResilience(options);
+    const a = resilience.limiterFor('https://a.atlassian.net');
+    expect(resilience.limiterFor('https://a.atlassian.net')).toBe(a);
+    expect(resilience.limiterFor('https://b.atlassian.net')).not.toBe(a);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('caps the number of requests in flight', async () => {
+    const limiter = createRateLimiter(1000, 1000, 2);
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,222 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { session } from '../src/context.js';
+import {
+  listResources,
+  readResource,
+  rememberIssue,
+  rememberToolIssues,
+} from '../src/resources.js';
+import { fakeJira, inSession, resolves } from './toolHarness.js';
+
+// Every resource reads from the one fake site
+const sameSite = <T>(_args: Record<string, unknown>, fn: () => Promise<T>) =>
+  fn();
+
+async function read(uri: string, clients: Parameters<typeof fakeJira>[0]) {
+  const response: any = await inSession(fakeJira(clients), () =>
+    readResource({ params: { uri } }, sameSite)
+  );
+  return JSON.parse(response.contents[0].text);
+}
+
+describe('readResource', () => {
+  it('reads an issue with a Markdown description and remembers it', async () => {
+    const context = fakeJira({
+      v2: {
+        issues: {
+          getIssue: resolves({
+            key: 'PROJ-1',
+            fields: { summary: 'Login fails', description: '*bold*' },
+          }),
+        },
+      },
+    });
+    const { response, recent } = await inSession(context, async () => ({
+      response: await readResource(
+        { params: { uri: 'jira://issue/PROJ-1' } },
+        sameSite
+      ),
+      recent: session().recentIssues,
+    }));
+    expect(JSON.parse(response.contents[0].text)).toMatchObject({
+      key: 'PROJ-1',
+      fields: { summary: 'Login fails', description: '**bold**' },
+    });
+    expect(recent.get('PROJ-1')?.summary).toBe('Login fails');
+  });
+
+  it('reads a project with the names of its issue types and components', async () => {
+    const project = await read('jira://project/PROJ', {
+      v2: {
+        projects: {
+          getProject: resolves({
+            id: '100',
+            key: 'PROJ',
+            name: 'Project',
+            issueTypes: [{ name: 'Bug' }, { name: 'Task' }],
+            components: [{ name: 'API' }],
+            versions: [
+              { name: '1.0', released: true, archived: true },
+              { name: '2.0', released: false },
+            ],
+          }),
+        },
+      },
+    });
+    expect(project).toEqual({
+      id: '100',
+      key: 'PROJ',
+      name: 'Project',
+      issueTypes: ['Bug', 'Task'],
+      components: ['API'],
+      versions: [{ name: '2.0', released: false }],
+    });
+  });
+
+  it('reads the active sprint of a board, or none', async () => {
+    const getIssuesForSprint = resolves({
+      total: 1,
+      issues: [{ key: 'PROJ-2', fields: { summary: 'In sprint' } }],
+    });
+    const sprint = await read('jira://board/7/active-sprint', {
+      agile: {
+        board: {
+          getAllSprints: resolves({
+            values: [{ id: 42, name: 'Sprint 1', state: 'active' }],
+          }),
+        },
+        sprint: { getIssuesForSprint },
+      },
+    });
+    expect(sprint).toMatchObject({
+      boardId: 7,
+      activeSprint: { id: 42, name: 'Sprint 1' },
+      issues: [{ key: 'PROJ-2' }],
+    });
+    expect(getIssuesForSprint.mock.calls[0][0]).toMatchObject({
+      sprintId: 42,
+    });
+
+    await expect(
+      read('jira://board/7/active-sprint', {
+        agile: { board: { getAllSprints: resolves({ values: [] }) } },
+      })
+    ).resolves.toEqual({ boardId: 7, activeSprint: null });
+  });
+
+  it('reads a filter with the first page of its issues', async () => {
+    const searchForIssuesUsingJql = resolves({
+      startAt: 0,
+      total: 1,
+      issues: [{ key: 'PROJ-3', fields: { summary: 'Filtered' } }],
+    });
+    const filter = await read('jira://filter/5', {
+      v2: {
+        filters: {
+          getFilter: resolves({ id: '5', name: 'Mine', jql: 'project = PROJ' }),
+        },
+        issueSearch: { searchForIssuesUsingJql },
+      },
+    });
+    expect(filter).toMatchObject({
+      id: '5',
+      name: 'Mine',
+      jql: 'project = PROJ',
+      issues: [{ key: 'PROJ-3' }],
+      isLast: true,
+    });
+    expect(searchForIssuesUsingJql.mock.calls[0][0]).toMatchObject({
+      jql: 'project = PROJ',
+      startAt: 0,
+    });
+  });
+
+  it('rejects unknown URIs', async () => {
+    await expect(read('jira://dashboard/1', {})).rejects.toThrow(
+      'Unknown resource URI "jira://dashboard/1"'
+    );
+  });
+
+  it('describes Jira errors instead of failing with an internal error', async () => {
+    const error = await read('jira://issue/PROJ-404', {
+      v2: {
+        issues: {
+          getIssue: resolves().mockRejectedValue({
+            status: 404,
+            errorMessages: [
+              'Issue does not exist or you do not have permission to see it.',
+            ],
+          }),
+        },
+      },
+    }).catch((e) => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain(
+      'Jira API Error (404): Issue does not exist or you do not have permission to see it.'
+    );
+  });
+
+  it('reports server errors as internal errors with their message', async () => {
+    const error = await read('jira://project/PROJ', {
+      v2: {
+        projects: {
+          getProject: resolves().mockRejectedValue({
+            status: 503,
+            errorMessages: ['Service unavailable'],
+          }),
+        },
+      },
+    }).catch((e) => e);
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain(
+      'Jira API Error (503): Service unavailable'
+    );
+  });
+});
+
+describe('recently touched issues', () => {
+  function recentUris(touch: () => void) {
+    return inSession(fakeJira(), async () => {
+      touch();
+      const { resources } = await listResources();
+      return resources.map((r) => r.uri);
+    });
+  }
+
+  it('lists the most recently touched issue first', async () => {
+    const uris = await recentUris(() => {
+      rememberIssue('PROJ-1');
+      rememberIssue('proj-2', 'Second');
+      rememberIssue('PROJ-1');
+    });
+    expect(uris).toEqual(['jira://issue/PROJ-1', 'jira://issue/PROJ-2']);
+  });
+
+  it('keeps the 20 most recent issues', async () => {
+    const uris = await recentUris(() => {
+      for (let i = 1; i <= 25; i++) rememberIssue(`PROJ-${i}`);
+    });
+    expect(uris).toHaveLength(20);
+    expect(uris[0]).toBe('jira://issue/PROJ-25');
+    expect(uris[19]).toBe('jira://issue/PROJ-6');
+  });
+
+  it('remembers the issues of tool calls and forgets deleted ones', async () => {
+    const uris = await recentUris(() => {
+      rememberToolIssues(
+        'create_issue_link',
+        { inwardIssueKey: 'PROJ-1', outwardIssueKey: 'PROJ-2' },
+        { success: true }
+      );
+      rememberToolIssues(
+        'create_issue',
+        { projectKey: 'PROJ' },
+        { key: 'PROJ-3', fields: { summary: 'New' } }
+      );
+      rememberToolIssues('delete_issue', { issueKey: 'proj-1' }, {});
+      rememberToolIssues('get_issue', { issueKey: 'not a key' }, {});
+    });
+    expect(uris).toEqual(['jira://issue/PROJ-3', 'jira://issue/PROJ-2']);
+  });
+});
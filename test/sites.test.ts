@@ -0,0 +1,146 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  loadSites,
+  routingProjectKeys,
+  selectSite,
+  sessionSites,
+} from '../src/sites.js';
+
+function sitesFile(content: unknown): string {
+  const file = join(mkdtempSync(join(tmpdir(), 'sites-')), 'sites.json');
+  writeFileSync(file, JSON.stringify(content));
+  return file;
+}
+
+const config = {
+  defaultSite: 'cloud',
+  sites: [
+    { name: 'cloud', env: {}, projects: ['WEB'] },
+    { name: 'legacy', env: {}, projects: ['OLD', 'OPS'] },
+  ],
+};
+
+describe('loadSites', () => {
+  it('uses the environment as the only site without a sites file', () => {
+    const env = { JIRA_HOST: 'example.atlassian.net' };
+    expect(loadSites(env)).toEqual({
+      defaultSite: 'default',
+      sites: [{ name: 'default', env, projects: [] }],
+    });
+  });
+
+  it('reads sites and resolves $VARIABLE references', () => {
+    const file = sitesFile({
+      defaultSite: 'legacy',
+      sites: {
+        cloud: {
+          host: 'example.atlassian.net',
+          email: 'bot@example.com',
+          apiToken: '$CLOUD_TOKEN',
+        },
+        legacy: {
+          host: 'jira.example.com',
+          authType: 'pat',
+          apiToken: 'pat-token',
+          projects: ['old', 'ops'],
+        },
+      },
+    });
+    expect(
+      loadSites({ JIRA_SITES_FILE: file, CLOUD_TOKEN: 'cloud-token' })
+    ).toEqual({
+      defaultSite: 'legacy',
+      sites: [
+        {
+          name: 'cloud',
+          env: {
+            JIRA_HOST: 'example.atlassian.net',
+            JIRA_EMAIL: 'bot@example.com',
+            JIRA_API_TOKEN: 'cloud-token',
+          },
+          projects: [],
+        },
+        {
+          name: 'legacy',
+          env: {
+            JIRA_HOST: 'jira.example.com',
+            JIRA_AUTH_TYPE: 'pat',
+            JIRA_API_TOKEN: 'pat-token',
+          },
+          projects: ['OLD', 'OPS'],
+        },
+      ],
+    });
+  });
+
+  it('rejects invalid configurations', () => {
+    expect(() =>
+      loadSites({ JIRA_SITES_FILE: sitesFile({ sites: {} }) })
+    ).toThrow(/at least one site/);
+    expect(() =>
+      loadSites({
+        JIRA_SITES_FILE: sitesFile({ sites: { a: { apiToken: '$MISSING' } } }),
+      })
+    ).toThrow(/\$MISSING/);
+    expect(() =>
+      loadSites({
+        JIRA_SITES_FILE: sitesFile({
+          sites: { a: { projects: ['OPS'] }, b: { projects: ['ops'] } },
+        }),
+      })
+    ).toThrow(/OPS is assigned to both/);
+    expect(() =>
+      loadSites({
+        JIRA_SITES_FILE: sitesFile({ defaultSite: 'c', sites: { a: {} } }),
+      })
+    ).toThrow(/defaultSite "c"/);
+  });
+});
+
+describe('routingProjectKeys', () => {
+  it('collects project keys and issue key prefixes', () => {
+    expect(
+      routingProjectKeys({
+        project: ['web', 'OPS'],
+        issueKey: 'old-12',
+        issueKeys: ['OPS-1', 'not a key'],
+        summary: 'ABC-1',
+      })
+    ).toEqual(['WEB', 'OPS', 'OLD']);
+  });
+});
+
+describe('selectSite', () => {
+  it('prefers the requested site, then project owners, then the default', () => {
+    expect(selectSite(config, 'legacy', ['WEB'])).toBe('legacy');
+    expect(selectSite(config, undefined, ['OLD', 'NEW'])).toBe('legacy');
+    expect(selectSite(config, undefined, ['NEW'])).toBe('cloud');
+    expect(selectSite(config)).toBe('cloud');
+  });
+
+  it('rejects unknown sites and calls spanning sites', () => {
+    expect(() => selectSite(config, 'other')).toThrow(/Unknown site "other"/);
+    expect(() => selectSite(config, undefined, ['WEB', 'OPS'])).toThrow(
+      /different sites/
+    );
+  });
+});
+
+describe('sessionSites', () => {
+  const configured = new Map([
+    ['cloud', 'operator (cloud)'],
+    ['legacy', 'operator (legacy)'],
+  ]);
+
+  it('gives sessions without credentials every configured site', () => {
+    expect(sessionSites(config, configured)).toBe(configured);
+  });
+
+  it('limits sessions with their own credentials to the default site', () => {
+    expect([...sessionSites(config, configured, 'ann').entries()]).toEqual([
+      ['cloud', 'ann'],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+import type { TransportMode } from '../src/http.js';
+import { JiraContext, Session, sessionStorage } from '../src/context.js';
+import { createMetadataCache } from '../src/metadataCache.js';
+import type { ToolDefinition } from '../src/tools/registry.js';
+
+// Runs tool handlers inside a session whose Jira clients are plain objects of jest mocks, so
+// tests only stub the endpoints a tool uses and can check which ones were called.
+
+type Clients = { v2?: any; v3?: any; agile?: any };
+
+export function fakeJira(
+  clients: Clients = {},
+  deployment: 'cloud' | 'server' = 'cloud'
+): JiraContext {
+  return {
+    connection: {
+      host: 'https://example.atlassian.net',
+      authType: 'basic',
+      deployment,
+    },
+    v2: clients.v2 ?? {},
+    v3: clients.v3 ?? {},
+    agile: clients.agile ?? {},
+    metadataCache: createMetadataCache(),
+    jqlParseSupported: false,
+  } as unknown as JiraContext;
+}
+
+export function fakeSession(
+  context: JiraContext,
+  transport: TransportMode = 'stdio'
+): Session {
+  return {
+    server: {} as Session['server'],
+    transport,
+    sites: new Map([['default', context]]),
+    jira: context,
+    recentIssues: new Map(),
+    logging: { level: 'info' },
+  };
+}
+
+export function inSession<T>(
+  context: JiraContext,
+  fn: () => T,
+  transport: TransportMode = 'stdio'
+): T {
+  return sessionStorage.run(fakeSession(context, transport), fn);
+}
+
+export async function runTool(
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  context: JiraContext,
+  transport: TransportMode = 'stdio'
+) {
+  const warnings: string[] = [];
+  const warn = (message: string) => warnings.push(message);
+  const result: any = await inSession(
+    context,
+    () => tool.handler(args, { jira: context, warn, warnings }),
+    transport
+  );
+  return { result, warnings };
+}
+
+// A mock resolving to the given value, typed loosely for use in fake clients
+export function resolves(value?: unknown) {
+  return jest.fn<(...args: any[]) => Promise<any>>().mockResolvedValue(value);
+}
+
+// Every mock function in a fake client tree, for asserting nothing was called
+export function allMocks(value: any): jest.Mock[] {
+  if (jest.isMockFunction(value)) return [value];
+  if (!value || typeof value !== 'object') return [];
+  return Object.values(value).flatMap(allMocks);
+}
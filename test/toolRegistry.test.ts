@@ -0,0 +1,96 @@
+import {
+  ToolDefinition,
+  createToolRegistry,
+  toolAccess,
+} from '../src/tools/registry.js';
+
+function tool(overrides: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    name: 'get_thing',
+    description: 'Get a thing',
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: 'object',
+      properties: { key: { type: 'string' } },
+      required: ['key'],
+      additionalProperties: false,
+    },
+    handler: async () => ({}),
+    ...overrides,
+  };
+}
+
+describe('toolAccess', () => {
+  it('maps annotations to the access level used by the policy', () => {
+    expect(toolAccess(tool())).toBe('read');
+    expect(
+      toolAccess(
+        tool({ annotations: { readOnlyHint: false, destructiveHint: false } })
+      )
+    ).toBe('write');
+    expect(toolAccess(tool({ annotations: { destructiveHint: true } }))).toBe(
+      'destructive'
+    );
+  });
+
+  it('treats a tool without annotations as destructive', () => {
+    expect(toolAccess(tool({ annotations: {} }))).toBe('destructive');
+  });
+});
+
+describe('createToolRegistry', () => {
+  it('lists tools in registration order with the common properties', () => {
+    const registry = createToolRegistry({ site: { type: 'string' } });
+    registry.register(tool());
+    registry.register(tool({ name: 'other_thing' }));
+
+    expect(registry.list().map((t) => t.name)).toEqual([
+      'get_thing',
+      'other_thing',
+    ]);
+    expect(registry.get('get_thing')?.inputSchema.properties).toEqual({
+      key: { type: 'string' },
+      site: { type: 'string' },
+    });
+    expect(registry.get('missing')).toBeUndefined();
+  });
+
+  it('does not change the registered definition', () => {
+    const definition = tool();
+    createToolRegistry({ site: { type: 'string' } }).register(definition);
+    expect(definition.inputSchema.properties).toEqual({
+      key: { type: 'string' },
+    });
+  });
+
+  it('rejects duplicate names and invalid schemas', () => {
+    const registry = createToolRegistry();
+    registry.register(tool());
+    expect(() => registry.register(tool())).toThrow(
+      'Tool "get_thing" is defined more than once.'
+    );
+    expect(() =>
+      registry.register(
+        tool({
+          name: 'broken',
+          inputSchema: { type: 'object', properties: { key: { type: 1 } } },
+        })
+      )
+    ).toThrow('Tool "broken" has an invalid inputSchema');
+  });
+
+  it('validates arguments, including the common properties', () => {
+    const registry = createToolRegistry({ site: { type: 'string' } });
+    registry.register(tool());
+
+    expect(() =>
+      registry.validate('get_thing', { key: 'PROJ-1', site: 'cloud' })
+    ).not.toThrow();
+    expect(() => registry.validate('get_thing', {})).toThrow(
+      "Invalid arguments for tool get_thing: data must have required property 'key'"
+    );
+    expect(() =>
+      registry.validate('get_thing', { key: 'PROJ-1', extra: true })
+    ).toThrow('must NOT have additional properties');
+  });
+});
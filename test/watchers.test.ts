@@ -0,0 +1,208 @@
+import { createIssue } from '../src/tools/issues.js';
+import {
+  addVote,
+  addWatcher,
+  removeVote,
+  removeWatcher,
+} from '../src/tools/watchers.js';
+import { fakeJira, resolves, runTool } from './toolHarness.js';
+
+const users: Record<string, any> = {
+  'ana@example.com': {
+    accountId: 'acc-ana',
+    name: 'ana',
+    emailAddress: 'ana@example.com',
+  },
+  'bo@example.com': {
+    accountId: 'acc-bo',
+    name: 'bo',
+    emailAddress: 'bo@example.com',
+  },
+};
+
+function client() {
+  return {
+    userSearch: {
+      findUsers: resolves().mockImplementation(
+        async ({ query, username }: any) => {
+          const user = users[query ?? username];
+          return user ? [user] : [];
+        }
+      ),
+    },
+    issueWatchers: { addWatcher: resolves() },
+    issueVotes: { addVote: resolves(), removeVote: resolves() },
+    sendRequest: resolves(),
+  };
+}
+
+describe('add_watcher', () => {
+  it('adds the account ID on Cloud and the username on Server', async () => {
+    const cloud = client();
+    await runTool(
+      addWatcher,
+      { issueKey: 'PROJ-1', email: 'ana@example.com' },
+      fakeJira({ v2: cloud })
+    );
+    expect(cloud.issueWatchers.addWatcher).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      accountId: 'acc-ana',
+    });
+
+    const server = client();
+    await runTool(
+      addWatcher,
+      { issueKey: 'PROJ-1', email: 'ana@example.com' },
+      fakeJira({ v2: server }, 'server')
+    );
+    expect(server.issueWatchers.addWatcher).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      accountId: 'ana',
+    });
+  });
+
+  it('fails for an unknown email', async () => {
+    const v2 = client();
+    await expect(
+      runTool(
+        addWatcher,
+        { issueKey: 'PROJ-1', email: 'nobody@example.com' },
+        fakeJira({ v2 })
+      )
+    ).rejects.toThrow('User with email "nobody@example.com" not found.');
+    expect(v2.issueWatchers.addWatcher).not.toHaveBeenCalled();
+  });
+});
+
+describe('remove_watcher', () => {
+  it('names the watcher by account ID on Cloud and username on Server', async () => {
+    const cloud = client();
+    await runTool(
+      removeWatcher,
+      { issueKey: 'PROJ-1', email: 'ana@example.com' },
+      fakeJira({ v2: cloud })
+    );
+    expect(cloud.sendRequest.mock.calls[0][0]).toEqual({
+      url: '/rest/api/2/issue/PROJ-1/watchers',
+      method: 'DELETE',
+      params: { accountId: 'acc-ana' },
+    });
+
+    const server = client();
+    await runTool(
+      removeWatcher,
+      { issueKey: 'PROJ-1', email: 'ana@example.com' },
+      fakeJira({ v2: server }, 'server')
+    );
+    expect(server.sendRequest.mock.calls[0][0]).toMatchObject({
+      params: { username: 'ana' },
+    });
+  });
+
+  it('passes on the Jira error', async () => {
+    const v2 = client();
+    const error = {
+      status: 403,
+      errorMessages: ['You cannot remove other watchers.'],
+    };
+    v2.sendRequest.mockRejectedValue(error);
+    await expect(
+      runTool(
+        removeWatcher,
+        { issueKey: 'PROJ-1', email: 'ana@example.com' },
+        fakeJira({ v2 })
+      )
+    ).rejects.toBe(error);
+  });
+});
+
+describe('votes', () => {
+  it('adds and withdraws the vote', async () => {
+    const v2 = client();
+    const { result } = await runTool(
+      addVote,
+      { issueKey: 'PROJ-1' },
+      fakeJira({ v2 })
+    );
+    expect(result.message).toBe('Voted for PROJ-1.');
+    expect(v2.issueVotes.addVote).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+    });
+
+    await runTool(removeVote, { issueKey: 'PROJ-1' }, fakeJira({ v2 }));
+    expect(v2.issueVotes.removeVote).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+    });
+  });
+});
+
+describe('create_issue with watch', () => {
+  function createClient() {
+    return {
+      ...client(),
+      projects: { getProject: resolves({ id: '100', key: 'PROJ' }) },
+      issueTypes: { getIssueAllTypes: resolves([{ id: '1', name: 'Task' }]) },
+      issues: { createIssue: resolves({ id: '10001', key: 'PROJ-7' }) },
+    };
+  }
+  const args = {
+    projectKey: 'PROJ',
+    summary: 'Watched',
+    issueType: 'Task',
+    watch: ['ana@example.com', 'bo@example.com'],
+  };
+
+  it('adds the watchers to the new issue', async () => {
+    const v2 = createClient();
+    const { result } = await runTool(createIssue, args, fakeJira({ v2 }));
+    expect(result).toMatchObject({
+      key: 'PROJ-7',
+      watchers: ['ana@example.com', 'bo@example.com'],
+    });
+    expect(result.watcherErrors).toBeUndefined();
+    expect(v2.issueWatchers.addWatcher).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-7',
+      accountId: 'acc-bo',
+    });
+  });
+
+  it('reports watchers that could not be added without failing', async () => {
+    const v2 = createClient();
+    v2.issueWatchers.addWatcher
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce({
+        status: 403,
+        errorMessages: ['Watching is disabled.'],
+      });
+    const { result, warnings } = await runTool(
+      createIssue,
+      args,
+      fakeJira({ v2 })
+    );
+    expect(result).toMatchObject({
+      key: 'PROJ-7',
+      watchers: ['ana@example.com'],
+      watcherErrors: [
+        {
+          email: 'bo@example.com',
+          error: 'Jira API Error (403): Watching is disabled.',
+        },
+      ],
+    });
+    expect(warnings).toEqual([
+      'Failed to add bo@example.com as a watcher of PROJ-7',
+    ]);
+  });
+
+  it('fails before creating the issue for an unknown email', async () => {
+    const v2 = createClient();
+    await expect(
+      runTool(
+        createIssue,
+        { ...args, watch: ['nobody@example.com'] },
+        fakeJira({ v2 })
+      )
+    ).rejects.toThrow('User with email "nobody@example.com" not found.');
+    expect(v2.issues.createIssue).not.toHaveBeenCalled();
+  });
+});
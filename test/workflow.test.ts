@@ -0,0 +1,162 @@
+import { listTransitions, transitionIssue } from '../src/tools/workflow.js';
+import { fakeJira, resolves, runTool } from './toolHarness.js';
+
+const resolve = {
+  id: '31',
+  name: 'Resolve',
+  to: { id: '5', name: 'Done', statusCategory: { name: 'Done' } },
+  fields: {
+    resolution: {
+      name: 'Resolution',
+      required: true,
+      schema: { type: 'resolution' },
+      allowedValues: [
+        { id: '1', name: 'Fixed' },
+        { id: '2', name: "Won't Do" },
+      ],
+    },
+    fixVersions: {
+      name: 'Fix versions',
+      required: true,
+      schema: { type: 'array' },
+      allowedValues: [{ id: '100', name: '1.2' }],
+    },
+  },
+};
+const start = {
+  id: '21',
+  name: 'Start Progress',
+  to: { id: '3', name: 'In Progress' },
+};
+
+function workflow() {
+  const issues = {
+    getTransitions: resolves({ transitions: [start, resolve] }),
+    doTransition: resolves(),
+    getIssue: resolves({
+      fields: {
+        status: { name: 'Done' },
+        resolution: { name: 'Fixed' },
+        resolutiondate: '2024-05-06T09:00:00.000+0000',
+      },
+    }),
+  };
+  return { issues, context: fakeJira({ v2: { issues } }) };
+}
+
+describe('list_transitions', () => {
+  it('lists the transitions with the fields their screens require', async () => {
+    const { issues, context } = workflow();
+    const { result } = await runTool(
+      listTransitions,
+      { issueKey: 'PROJ-1' },
+      context
+    );
+    expect(issues.getTransitions).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      expand: 'transitions.fields',
+    });
+    expect(result.transitions[1]).toEqual({
+      id: '31',
+      name: 'Resolve',
+      to: { id: '5', name: 'Done', category: 'Done' },
+      requiredFields: [
+        {
+          id: 'resolution',
+          name: 'Resolution',
+          required: true,
+          type: 'resolution',
+          allowedValues: ['Fixed', "Won't Do"],
+        },
+        {
+          id: 'fixVersions',
+          name: 'Fix versions',
+          required: true,
+          type: 'array',
+          allowedValues: ['1.2'],
+        },
+      ],
+    });
+  });
+});
+
+describe('transition_issue', () => {
+  it('sends the resolution, screen fields and comment', async () => {
+    const { issues, context } = workflow();
+    const { result } = await runTool(
+      transitionIssue,
+      {
+        issueKey: 'PROJ-1',
+        transition: 'done',
+        resolution: 'fixed',
+        fields: { fixVersions: [{ name: '1.2' }] },
+        comment: 'Shipped in **1.2**',
+      },
+      context
+    );
+    expect(issues.doTransition).toHaveBeenCalledWith({
+      issueIdOrKey: 'PROJ-1',
+      transition: { id: '31' },
+      fields: { fixVersions: [{ name: '1.2' }], resolution: { id: '1' } },
+      update: { comment: [{ add: { body: 'Shipped in *1.2*' } }] },
+    });
+    expect(result).toEqual({
+      success: true,
+      message: 'Issue PROJ-1 transitioned via "Resolve".',
+      status: 'Done',
+      resolution: 'Fixed',
+      resolutiondate: '2024-05-06T09:00:00.000+0000',
+    });
+  });
+
+  it('lists the available transitions when the one asked for is not', async () => {
+    const { issues, context } = workflow();
+    await expect(
+      runTool(
+        transitionIssue,
+        { issueKey: 'PROJ-1', transition: 'Reopen' },
+        context
+      )
+    ).rejects.toThrow(
+      'Transition "Reopen" is not available for issue PROJ-1. Available transitions: "Start Progress" (id 21) -> In Progress, "Resolve" (id 31) -> Done'
+    );
+    expect(issues.doTransition).not.toHaveBeenCalled();
+  });
+
+  it('checks the resolution against the allowed values', async () => {
+    const { issues, context } = workflow();
+    await expect(
+      runTool(
+        transitionIssue,
+        { issueKey: 'PROJ-1', transition: 'Resolve', resolution: 'Duplicate' },
+        context
+      )
+    ).rejects.toThrow(
+      'Resolution "Duplicate" is not allowed. Allowed values: Fixed, Won\'t Do'
+    );
+    await expect(
+      runTool(
+        transitionIssue,
+        { issueKey: 'PROJ-1', transition: '21', resolution: 'Fixed' },
+        context
+      )
+    ).rejects.toThrow(
+      'Transition "Start Progress" does not set a resolution on issue PROJ-1.'
+    );
+    expect(issues.doTransition).not.toHaveBeenCalled();
+  });
+
+  it('names every required field that is missing', async () => {
+    const { issues, context } = workflow();
+    await expect(
+      runTool(
+        transitionIssue,
+        { issueKey: 'PROJ-1', transition: 'Resolve' },
+        context
+      )
+    ).rejects.toThrow(
+      'Transition "Resolve" requires fields: resolution (Resolution; allowed: Fixed, Won\'t Do); fixVersions (Fix versions; allowed: 1.2)'
+    );
+    expect(issues.doTransition).not.toHaveBeenCalled();
+  });
+});